@@ -1,12 +1,34 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Type, Chat, FunctionDeclaration } from "@google/genai";
-import type { ModData, GeneratedFiles, ChatMessage, ModSetting } from './types';
-import { generateModJson, generateCMakeLists, generateMainCpp, generateCIWorkflow, generateReadme, generateGitIgnore, generateLicense, generateContributingMd } from './services/modGenerator';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import type { ModData, ChatMessage, ChatThread, ModSetting, ModSettingType, Project, TemplateFileStates, VirtualFileSystem, FileOrigin, GeneratedFiles, ProposedFileChange, AiProvider, AiChatSession, AiSettings, AiToolCall, AiToolDeclaration, AiToolResult, AiChatTurn } from './types';
+import { createDefaultModData, generateTemplateFiles } from './services/modGenerator';
+import { reconcileTemplateFiles, settleTemplateUpdate } from './services/fileOwnership';
+import { movePath, deletePath, restoreDeletedFiles, type DeletedFiles, type FileTreeChange } from './services/fileOperations';
+import { getCppSourceFiles, downloadFile } from './services/fileUtils';
+import { getResourceFiles } from './services/assetPipeline';
+import { writeFile, writeFiles, syncFileContents, getFileContents } from './services/vfs';
+import { buildSpriteSheet } from './services/spritePacker';
+import { FILE_TOOL_DECLARATIONS, isFileToolCall, parseFileChangeCall, applyFileChange, rollFileChanges } from './services/fileChanges';
+import { buildChatContext, DEFAULT_CONTEXT_BUDGET } from './services/chatContext';
+import { createAiProvider, loadAiSettings, saveAiSettings } from './services/ai';
+import { createThread, toChatTurns, getThreadNameFromMessage, exportThreadToMarkdown, exportThreadToJson, startBranch, switchBranch, discardBranch, getAppliedFileChanges, DEFAULT_THREAD_NAME, type ThreadSearchResult } from './services/chatThreads';
+import { resizeImageToFit } from './services/imageUtils';
+import { validateModJson, type Diagnostic } from './services/modJsonValidator';
+import type { ImportedProject } from './services/modImporter';
+import { createProjectId, listProjects, loadProject, saveProject, deleteProject, renameProject, duplicateProject, getLastProjectId, setLastProjectId } from './services/projectStore';
 import ModForm from './components/ModForm';
-import CodeWorkspace from './components/CodeWorkspace';
+import CodeWorkspace, { type CodeWorkspaceHandle } from './components/CodeWorkspace';
 import ChatHistory from './components/ChatHistory';
+import ChatThreadBar, { type ThreadExportFormat } from './components/ChatThreadBar';
 import HowToRunModal from './components/RunModModal';
 import LivePreviewModal from './components/LivePreviewModal';
+import ImportProjectModal from './components/ImportProjectModal';
+import ProjectDashboard from './components/ProjectDashboard';
+import ValidationSummaryModal from './components/ValidationSummaryModal';
+import SpritePackerModal from './components/SpritePackerModal';
+import LogoEditorModal from './components/LogoEditorModal';
+import FileChangeModal from './components/FileChangeModal';
+import InsertSnippetModal from './components/InsertSnippetModal';
+import AiSettingsModal from './components/AiSettingsModal';
 import { GeodeIcon } from './components/IconComponents';
 import StartupAnimation from './components/StartupAnimation';
 
@@ -77,44 +99,46 @@ You are an expert on the Geode SDK and follow its best practices.
 
 **Your Response Modes:**
 
-1.  **Code & Text File Generation:**
-    When the user asks you to write, create, add, or modify one or more code or text files (like .cpp, .md, .json), you MUST respond ONLY with a single, raw JSON object. Do not include markdown fences (\`\`\`json) or explanations.
-    The JSON object must have a single key "files", which is an array of file objects. Each file object must have:
-    - "filePath": A string representing the full, relative path (e.g., "src/MyAwesomeHook.cpp").
-    - "fileContent": A string containing the complete, valid content for that file.
-
-    **Example Multi-File Code Generation Response:**
-    {"files": [{"filePath": "src/utils/PlayerUtils.hpp", "fileContent": "#pragma once\\n\\nvoid myHelperFunction();"}, {"filePath": "src/utils/PlayerUtils.cpp", "fileContent": "#include \\"PlayerUtils.hpp\\"\\n#include <Geode/Geode.hpp>\\n\\nvoid myHelperFunction() {\\n    log::info(\\"Helper function called!\\");\\n}"}]}
+1.  **Code & Text File Changes:**
+    When the user asks you to write, create, add, or modify code or text files (like .cpp, .md, .json), use the file tools. Never paste whole files into your reply.
+    - \`createFile\` for a new file, with its full \`path\` and complete \`content\`.
+    - \`patchFile\` to change part of an existing file, with a unified diff against its current content. Prefer this for edits, so the user's other changes to the file are kept. Only patch a file whose current content you have seen in this conversation.
+    - \`updateFile\` only when most of an existing file changes, with its complete new \`content\`.
+    - \`deleteFile\` to remove a file.
+    Each call is shown to the user as a proposed change they accept or reject. Alongside the calls, briefly explain in text what you changed and why.
 
 2.  **Image Asset Generation:**
     When the user asks you to create a visual asset (like an icon, button, spritesheet, or texture), you MUST use the \`generateImageAndPlist\` tool.
     - Provide a detailed, descriptive \`prompt\` for the AI image model. Describe the style (e.g., "geometric, neon, fitting Geometry Dash's art style"), the content, and request a transparent background.
-    - Provide a \`fileName\` ending in \`.png\`.
-    - Provide an array of \`spriteNames\` that correspond to the different parts of the image you are requesting, which will be used to create a matching \`.plist\` file. For a single icon, you can just provide one name.
+    - Provide a \`fileName\` for the sheet ending in \`.png\`.
+    - Provide an array of \`spriteNames\`, one per sprite the sheet should contain. Each sprite is drawn as its own image and the app packs them into the sheet and writes the \`.plist\` with the exact frame positions. For a single icon, you can just provide one name.
 
 3.  **General Conversation:**
-    If the user asks a question, wants an explanation, or has a conversation that does not involve creating a file, respond with a helpful, conversational text message based on your Geode knowledge. DO NOT use the JSON format for these responses. Explain concepts clearly and provide code snippets where helpful.
+    If the user asks a question, wants an explanation, or has a conversation that does not involve creating a file, respond with a helpful, conversational text message based on your Geode knowledge. Don't call the file tools for these. Explain concepts clearly and provide code snippets where helpful.
 `;
 
-const generateImageAndPlistTool: FunctionDeclaration = {
+// AI images come out at 1024px; UHD sprites are drawn at most this big
+const AI_SPRITE_SIZE = 256;
+
+const generateImageAndPlistTool: AiToolDeclaration = {
     name: 'generateImageAndPlist',
-    description: 'Generates a PNG image asset and a corresponding Cocos2d .plist file for a Geometry Dash mod. Use this for icons, buttons, spritesheets, etc.',
+    description: 'Generates one PNG per sprite and packs them into a Cocos2d sprite sheet (.png and .plist, in UHD, HD and SD quality) for a Geometry Dash mod. Use this for icons, buttons, spritesheets, etc.',
     parameters: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
             prompt: {
-                type: Type.STRING,
+                type: 'string',
                 description: 'A detailed, descriptive prompt for the image generation model. Should describe style, content, and background.',
             },
             fileName: {
-                type: Type.STRING,
+                type: 'string',
                 description: 'The base filename for the asset, ending in .png. For example, "my-spritesheet.png".',
             },
             spriteNames: {
-                type: Type.ARRAY,
-                description: 'An array of strings, where each string is the name of a sprite within the generated image. This will be used to create the .plist file.',
+                type: 'array',
+                description: 'An array of strings, where each string is the name of a sprite in the sheet. Each sprite is generated separately and becomes a frame in the .plist file.',
                 items: {
-                    type: Type.STRING
+                    type: 'string'
                 }
             }
         },
@@ -122,50 +146,56 @@ const generateImageAndPlistTool: FunctionDeclaration = {
     }
 };
 
-const App: React.FC = () => {
-    const [modData, setModData] = useState<ModData>({
-        id: '',
-        name: '',
-        version: 'v1.0.0',
-        developer: '',
-        description: '',
-        logo: undefined,
-        dependencies: '',
-        repository: '',
-        cppTemplate: 'menulayer',
-        includeCi: false,
-        platforms: {
-            win: true,
-            mac: true,
-            android: true,
-            ios: false,
-        },
-        gdVersion: '*',
-        geodeVersion: '2.0.0-beta.26',
-        tags: '',
-        providesApi: false,
-        earlyLoad: false,
-        settings: [{
-            id: 'setting-initial-1',
-            key: 'welcome_message',
-            name: 'Welcome Message',
-            description: 'The message to display on startup',
-            type: 'string',
-            default: 'Hello, Geode!',
-        }],
+// The setting types Gigi may suggest: the ones a short default value describes
+const SUGGESTED_SETTING_TYPES: ModSettingType[] = ['bool', 'int', 'float', 'string'];
+
+// Rounds of tool calls answered in a row before Gigi has to reply to the user in text
+const MAX_TOOL_ROUNDS = 5;
+
+const createGigiChat = (provider: AiProvider, history: AiChatTurn[] = []): AiChatSession => {
+    return provider.createChat({
+        systemInstruction: GIGI_SYSTEM_INSTRUCTION,
+        tools: [generateImageAndPlistTool, ...FILE_TOOL_DECLARATIONS],
+        history,
     });
+};
+
+const createEmptyProject = (name: string, modData: ModData = createDefaultModData(), files: VirtualFileSystem | null = null): Project => {
+    const now = Date.now();
+    const thread = createThread();
+    return { id: createProjectId(), name, modId: modData.id, createdAt: now, updatedAt: now, modData, files, threads: [thread], activeThreadId: thread.id };
+};
+
+const App: React.FC = () => {
+    const [modData, setModData] = useState<ModData>(createDefaultModData);
     
     const [modIdea, setModIdea] = useState('');
-    const [generatedFiles, setGeneratedFiles] = useState<GeneratedFiles | null>(null);
+    const [projectFiles, setProjectFiles] = useState<VirtualFileSystem | null>(null);
+    const [templateFiles, setTemplateFiles] = useState<TemplateFileStates>({});
+    const [lastDeletion, setLastDeletion] = useState<DeletedFiles | null>(null);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
     const [isHowToRunModalOpen, setIsHowToRunModalOpen] = useState<boolean>(false);
     const [isLivePreviewModalOpen, setIsLivePreviewModalOpen] = useState<boolean>(false);
+    const [isImportModalOpen, setIsImportModalOpen] = useState<boolean>(false);
+    const [isProjectDashboardOpen, setIsProjectDashboardOpen] = useState<boolean>(false);
+    const [downloadDiagnostics, setDownloadDiagnostics] = useState<Diagnostic[] | null>(null);
+    const [isSpritePackerOpen, setIsSpritePackerOpen] = useState<boolean>(false);
+    const [logoEditorSource, setLogoEditorSource] = useState<string | null>(null);
+    const [viewedFileChange, setViewedFileChange] = useState<ProposedFileChange | null>(null);
+    const [snippetToInsert, setSnippetToInsert] = useState<{ code: string; language: string } | null>(null);
+    const workspaceRef = useRef<CodeWorkspaceHandle>(null);
+
+    // Project persistence states
+    const [currentProject, setCurrentProject] = useState<Pick<Project, 'id' | 'name' | 'createdAt'> | null>(null);
+    const pendingSaveRef = useRef<Project | null>(null);
     const [showSplash, setShowSplash] = useState(true);
 
 
     // AI States
-    const [ai, setAi] = useState<GoogleGenAI | null>(null);
-    const [chat, setChat] = useState<Chat | null>(null);
+    const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+    const [isAiSettingsOpen, setIsAiSettingsOpen] = useState<boolean>(false);
+    const [ai, setAi] = useState<AiProvider | null>(null);
+    const [chat, setChat] = useState<AiChatSession | null>(null);
     const [aiEnabled, setAiEnabled] = useState<boolean>(false);
     const [aiError, setAiError] = useState<string>('');
     const [isGeneratingName, setIsGeneratingName] = useState<boolean>(false);
@@ -174,118 +204,296 @@ const App: React.FC = () => {
     const [isGeneratingLogo, setIsGeneratingLogo] = useState<boolean>(false);
     const [isGeneratingSettings, setIsGeneratingSettings] = useState<boolean>(false);
     const [isChatting, setIsChatting] = useState<boolean>(false);
-    const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+    const [threads, setThreads] = useState<ChatThread[]>([]);
+    const [activeThreadId, setActiveThreadId] = useState<string>('');
+    const [focusedMessageIndex, setFocusedMessageIndex] = useState<number | null>(null);
+    const [chatNotice, setChatNotice] = useState<string | null>(null);
     const [isDeepThinkEnabled, setIsDeepThinkEnabled] = useState<boolean>(false);
+    const [contextBudget, setContextBudget] = useState<number>(DEFAULT_CONTEXT_BUDGET);
+    const [openFilePath, setOpenFilePath] = useState<string>('');
+
+    const activeThread = threads.find(thread => thread.id === activeThreadId) ?? threads[0];
+    const chatHistory = activeThread?.messages ?? [];
+    // Read when a thread's chat session starts, so new messages don't restart it
+    const threadsRef = useRef(threads);
+    threadsRef.current = threads;
 
     const handleToggleDeepThink = () => setIsDeepThinkEnabled(prev => !prev);
 
 
     useEffect(() => {
-        if (process.env.API_KEY) {
+        // Switching providers or models reconnects; the thread's chat is rebuilt from its messages below
+        try {
+            const provider = createAiProvider(aiSettings);
+            setAi(provider);
+            setAiEnabled(true);
+            setAiError('');
+        } catch (error) {
+            console.error("Failed to initialize the AI provider:", error);
+            setAi(null);
+            setAiEnabled(false);
+            setAiError(error instanceof Error ? error.message : String(error));
+        }
+    }, [aiSettings]);
+
+    // Each thread is a conversation of its own, picked up from its saved messages
+    const activeThreadKey = activeThread ? `${currentProject?.id}:${activeThread.id}` : '';
+    useEffect(() => {
+        const thread = threadsRef.current.find(candidate => candidate.id === activeThread?.id);
+        setChat(ai && thread ? createGigiChat(ai, toChatTurns(thread.messages)) : null);
+    }, [ai, activeThreadKey]);
+
+    const handleSaveAiSettings = (settings: AiSettings) => {
+        saveAiSettings(settings);
+        setAiSettings(settings);
+    };
+
+    // Set when a project is opened so its saved files are restored as-is instead of being regenerated.
+    const skipNextRegenerationRef = useRef(false);
+    // The project data as last opened or saved, so opening a project alone doesn't save it as updated.
+    const lastSavedRef = useRef<Pick<Project, 'modData' | 'files' | 'templateFiles' | 'threads' | 'activeThreadId'> | null>(null);
+
+    // Read through refs so regeneration only runs when the form changes, not on every file edit.
+    const projectFilesRef = useRef(projectFiles);
+    projectFilesRef.current = projectFiles;
+    const templateFilesRef = useRef(templateFiles);
+    templateFilesRef.current = templateFiles;
+
+    const generateFiles = useCallback(() => {
+        const current = projectFilesRef.current;
+        const generated = generateTemplateFiles(modData, current, templateFilesRef.current);
+        const result = reconcileTemplateFiles(current && getFileContents(current), templateFilesRef.current, generated);
+        setProjectFiles(syncFileContents(current ?? {}, result.files, 'template'));
+        setTemplateFiles(result.templateFiles);
+    }, [modData]);
+    
+    // CMakeLists lists the project's sources, so adding or removing a .cpp file regenerates it too
+    const sourceFilesKey = projectFiles ? getCppSourceFiles(projectFiles).join('\n') : '';
+    // Likewise mod.json lists the assets under resources
+    const resourceFilesKey = projectFiles ? getResourceFiles(projectFiles).join('\n') : '';
+
+    useEffect(() => {
+        if (skipNextRegenerationRef.current) {
+            skipNextRegenerationRef.current = false;
+            return;
+        }
+        // An incomplete form keeps the current files, so edits aren't lost while a field is being retyped
+        if(modData.id && modData.name && modData.developer) {
+            generateFiles();
+        }
+    }, [modData, sourceFilesKey, resourceFilesKey, generateFiles]);
+
+    const handleFormChange = (newModData: ModData) => {
+        setModData(newModData);
+    };
+    
+    const flushPendingSave = useCallback(async () => {
+        const pending = pendingSaveRef.current;
+        pendingSaveRef.current = null;
+        if (pending) {
             try {
-                const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                setAi(genAI);
-                setAiEnabled(true);
-                const newChat = genAI.chats.create({
-                    model: 'gemini-2.5-flash',
-                    config: {
-                        systemInstruction: GIGI_SYSTEM_INSTRUCTION,
-                        tools: [{ functionDeclarations: [generateImageAndPlistTool] }]
-                    }
-                });
-                setChat(newChat);
+                await saveProject(pending);
             } catch (error) {
-                console.error("Failed to initialize GoogleGenAI:", error);
-                setAiError("Failed to initialize AI. Check API key.");
-                setAiEnabled(false);
+                console.error("Failed to save project:", error);
             }
         }
     }, []);
 
-    const generateFiles = useCallback(() => {
-        const files: GeneratedFiles = {
-            'mod.json': generateModJson(modData),
-            'CMakeLists.txt': generateCMakeLists(modData),
-            'src/main.cpp': generateMainCpp(modData),
-            'README.md': generateReadme(modData),
-            '.gitignore': generateGitIgnore(),
-            'LICENSE': generateLicense(modData),
-            'CONTRIBUTING.md': generateContributingMd(modData),
-            'assets/.gitkeep': '',
-        };
-        if (modData.includeCi) {
-            files['.github/workflows/main.yml'] = generateCIWorkflow();
+    // Autosave the open project shortly after any change to its form, files or chat.
+    useEffect(() => {
+        if (!currentProject) return;
+        const saved = lastSavedRef.current;
+        const activeThreadId = activeThread?.id ?? '';
+        const isUnchanged = saved !== null && saved.modData === modData && saved.files === projectFiles && saved.templateFiles === templateFiles && saved.threads === threads && saved.activeThreadId === activeThreadId;
+        if (!isUnchanged) {
+            lastSavedRef.current = { modData, files: projectFiles, templateFiles, threads, activeThreadId };
+            pendingSaveRef.current = {
+                ...currentProject,
+                modId: modData.id,
+                updatedAt: Date.now(),
+                modData,
+                files: projectFiles,
+                templateFiles,
+                threads,
+                activeThreadId,
+            };
         }
-        if (modData.logo) {
-            const base64Data = modData.logo.split(',')[1];
-            files['assets/logo.png'] = base64Data;
-        } else {
-            if (files['assets/logo.png']) {
-                delete files['assets/logo.png'];
+        if (!pendingSaveRef.current) return;
+        const timeout = setTimeout(flushPendingSave, 500);
+        return () => clearTimeout(timeout);
+    }, [currentProject, modData, projectFiles, templateFiles, threads, activeThread, flushPendingSave]);
+
+    useEffect(() => {
+        const handleBeforeUnload = () => { flushPendingSave(); };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [flushPendingSave]);
+
+    const openProject = useCallback((project: Project) => {
+        skipNextRegenerationRef.current = true;
+        const templateFiles = project.templateFiles ?? {};
+        lastSavedRef.current = { modData: project.modData, files: project.files, templateFiles, threads: project.threads, activeThreadId: project.activeThreadId };
+        setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+        setModData(project.modData);
+        setProjectFiles(project.files);
+        setTemplateFiles(templateFiles);
+        setLastDeletion(null);
+        setThreads(project.threads);
+        setActiveThreadId(project.activeThreadId);
+        setFocusedMessageIndex(null);
+        setLastProjectId(project.id);
+    }, []);
+
+    const handleCreateProject = useCallback(async (project: Project = createEmptyProject('Untitled Project')) => {
+        await flushPendingSave();
+        await saveProject(project);
+        openProject(project);
+    }, [flushPendingSave, openProject]);
+
+    const handleOpenProject = useCallback(async (id: string) => {
+        await flushPendingSave();
+        const project = await loadProject(id);
+        if (project) openProject(project);
+    }, [flushPendingSave, openProject]);
+
+    const handleDuplicateProject = useCallback(async (id: string) => {
+        await flushPendingSave();
+        await duplicateProject(id);
+    }, [flushPendingSave]);
+
+    const handleRenameProject = useCallback(async (id: string, name: string) => {
+        await flushPendingSave();
+        await renameProject(id, name);
+        setCurrentProject(prev => prev && prev.id === id ? { ...prev, name } : prev);
+    }, [flushPendingSave]);
+
+    const handleDeleteProject = useCallback(async (id: string) => {
+        if (currentProject?.id === id) {
+            pendingSaveRef.current = null;
+        }
+        await deleteProject(id);
+        if (currentProject?.id === id) {
+            const [next] = await listProjects();
+            const nextProject = next ? await loadProject(next.id) : null;
+            if (nextProject) {
+                openProject(nextProject);
+            } else {
+                await handleCreateProject();
             }
         }
+    }, [currentProject, openProject, handleCreateProject]);
 
-        // Keep existing generated assets
-        if (generatedFiles) {
-             for (const path in generatedFiles) {
-                if (path.startsWith('assets/') && path !== 'assets/logo.png' && path !== 'assets/.gitkeep') {
-                    files[path] = generatedFiles[path];
+    // Restore the last opened project (or start a new one) on first load.
+    useEffect(() => {
+        const restore = async () => {
+            try {
+                const lastId = getLastProjectId();
+                const lastProject = lastId ? await loadProject(lastId) : null;
+                if (lastProject) {
+                    openProject(lastProject);
+                    return;
                 }
+                const [mostRecent] = await listProjects();
+                const recentProject = mostRecent ? await loadProject(mostRecent.id) : null;
+                if (recentProject) {
+                    openProject(recentProject);
+                } else {
+                    await handleCreateProject();
+                }
+            } catch (error) {
+                console.error("Failed to restore saved projects:", error);
             }
-        }
+        };
+        restore();
+    }, []);
 
-        setGeneratedFiles(files);
-    }, [modData, generatedFiles]);
-    
-    useEffect(() => {
-        if(modData.id && modData.name && modData.developer) {
-            generateFiles();
-        } else {
-            setGeneratedFiles(null);
-        }
-    }, [modData, generateFiles]); 
+    // Errors reach the import modal, which shows them
+    const handleImportProject = async (imported: ImportedProject) => {
+        const project = createEmptyProject(imported.modData.name || 'Imported Project', imported.modData, writeFiles({}, imported.files, 'user'));
+        await handleCreateProject(project);
+    };
 
-    const handleFormChange = (newModData: ModData) => {
-        setModData(newModData);
+    const handleFileContentChange = (path: string, newContent: string, origin: FileOrigin = 'user') => {
+        setProjectFiles(prev => prev ? writeFile(prev, path, newContent, origin) : null);
     };
     
-    const handleFileContentChange = (path: string, newContent: string) => {
-        setGeneratedFiles(prev => prev ? { ...prev, [path]: newContent } : null);
+    const applyFileTreeChange = (change: FileTreeChange) => {
+        setProjectFiles(change.files);
+        setTemplateFiles(change.templateFiles);
+    };
+
+    const handleAddFiles = (newFiles: VirtualFileSystem) => {
+        setProjectFiles(prev => ({ ...prev, ...newFiles }));
+    };
+
+    const handleAddSpriteSheet = (sheetFiles: GeneratedFiles) => {
+        setProjectFiles(prev => writeFiles(prev ?? {}, sheetFiles, 'user'));
+    };
+
+    const handleMovePath = (from: string, to: string) => {
+        if (!projectFiles) return;
+        applyFileTreeChange(movePath(projectFiles, templateFiles, from, to));
+    };
+
+    const handleDeletePath = (path: string) => {
+        if (!projectFiles) return;
+        const result = deletePath(projectFiles, templateFiles, path);
+        applyFileTreeChange(result);
+        setLastDeletion(result.deleted);
+    };
+
+    const handleUndoDelete = () => {
+        if (!projectFiles || !lastDeletion) return;
+        applyFileTreeChange(restoreDeletedFiles(projectFiles, templateFiles, lastDeletion));
+        setLastDeletion(null);
+    };
+
+    const handleResolveTemplateUpdate = (path: string, content: string | null) => {
+        if (content !== null) {
+            handleFileContentChange(path, content);
+        }
+        setTemplateFiles(prev => settleTemplateUpdate(prev, path));
+    };
+
+    const handleResetToTemplate = (path: string) => {
+        const state = templateFiles[path];
+        if (!state) return;
+        handleFileContentChange(path, state.pendingUpdate ?? state.base, 'template');
+        setTemplateFiles(prev => settleTemplateUpdate(prev, path));
     };
     
-    const handleDownload = async () => {
-        if (!generatedFiles) return;
+    const downloadZip = async () => {
+        if (!projectFiles) return;
         setIsDownloading(true);
         const zip = new JSZip();
-        
-        const addFileToZip = (path: string, content: string | undefined) => {
-             if (content === undefined) return;
-             const isTextFile = ['.json', '.txt', '.cpp', '.md', '.yml', '.gitignore', 'LICENSE', '.gitkeep', '.plist'].some(ext => path.endsWith(ext));
-             if (!isTextFile) {
-                 zip.file(path, content, { base64: true });
-             } else {
-                 zip.file(path, content);
-             }
-        };
 
-        for (const path in generatedFiles) {
-             addFileToZip(path, generatedFiles[path]);
+        for (const path in projectFiles) {
+            const file = projectFiles[path];
+            zip.file(path, file.content, { base64: file.encoding === 'base64', date: new Date(file.updatedAt) });
         }
 
         zip.generateAsync({ type: 'blob' }).then(content => {
-            const link = document.createElement('a');
-            link.href = URL.createObjectURL(content);
-            link.download = `${modData.id || 'geode-mod'}.zip`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+            downloadFile(content, `${modData.id || 'geode-mod'}.zip`);
             setIsDownloading(false);
         });
     };
+
+    const handleDownload = async () => {
+        if (!projectFiles) return;
+        // Check the manifest first: Geode refuses to load mods with an invalid mod.json
+        const diagnostics = projectFiles['mod.json'] !== undefined
+            ? validateModJson(projectFiles['mod.json'].content)
+            : [{ severity: 'error' as const, message: 'The project has no mod.json.', line: 1 }];
+        if (diagnostics.length > 0) {
+            setDownloadDiagnostics(diagnostics);
+            return;
+        }
+        await downloadZip();
+    };
     
     const safeApiCall = useCallback(async <T,>(apiLogic: () => Promise<T>, setLoading: (loading: boolean) => void): Promise<T | null> => {
         if (!ai) {
-            setAiError("AI is not available. Please configure your API key.");
+            setAiError("AI is not available. Pick a provider in AI Settings.");
             return null;
         }
         setLoading(true);
@@ -303,87 +511,59 @@ const App: React.FC = () => {
     
     const handleGenerateNameAndId = useCallback(async () => {
         await safeApiCall(async () => {
-            const response = await ai!.models.generateContent({
-                 model: "gemini-2.5-flash",
-                 contents: `Based on this mod idea: "${modIdea}", generate a creative mod name and a valid mod ID in the format "com.developer.modname". The developer part should be a generic placeholder. The mod name should be catchy and relevant to Geometry Dash. The ID should be all lowercase. Respond in JSON format with keys "name" and "id".`,
-                 config: { responseMimeType: 'application/json' }
-            });
-            const text = response.text.trim();
-            const json = JSON.parse(text);
+            const json = await ai!.generateJson<{ name: string; id: string }>(
+                `Based on this mod idea: "${modIdea}", generate a creative mod name and a valid mod ID in the format "developer.modname". The developer part should be a generic placeholder. The mod name should be catchy and relevant to Geometry Dash. The ID should be all lowercase. Respond in JSON format with keys "name" and "id".`,
+                { type: 'object', properties: { name: { type: 'string' }, id: { type: 'string' } }, required: ['name', 'id'] }
+            );
             setModData(prev => ({ ...prev, name: json.name, id: json.id }));
         }, setIsGeneratingName);
     }, [ai, modIdea, safeApiCall]);
 
     const handleGenerateDescription = useCallback(async () => {
         await safeApiCall(async () => {
-            const response = await ai!.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: `Write a short, engaging description for a Geometry Dash mod named "${modData.name}". The description should be suitable for a mod marketplace.`,
-            });
-            setModData(prev => ({ ...prev, description: response.text.trim() }));
+            const description = await ai!.generateText(`Write a short, engaging description for a Geometry Dash mod named "${modData.name}". The description should be suitable for a mod marketplace.`);
+            setModData(prev => ({ ...prev, description }));
         }, setIsGeneratingDesc);
     }, [ai, modData.name, safeApiCall]);
 
     const handleSuggestTags = useCallback(async () => {
         await safeApiCall(async () => {
-            const response = await ai!.models.generateContent({
-                 model: "gemini-2.5-flash",
-                 contents: `Suggest 3-5 relevant, comma-separated tags for a Geometry Dash mod named "${modData.name}" with the description: "${modData.description}". Example tags: gameplay, utility, cosmetic, editor, noclip. Do not add any explanation, just the tags.`,
-            });
-            setModData(prev => ({ ...prev, tags: response.text.trim() }));
+            const tags = await ai!.generateText(`Suggest 3-5 relevant, comma-separated tags for a Geometry Dash mod named "${modData.name}" with the description: "${modData.description}". Example tags: gameplay, utility, cosmetic, editor, noclip. Do not add any explanation, just the tags.`);
+            setModData(prev => ({ ...prev, tags }));
         }, setIsGeneratingTags);
     }, [ai, modData.name, modData.description, safeApiCall]);
 
     const handleGenerateLogo = useCallback(async () => {
         await safeApiCall(async () => {
-            const response = await ai!.models.generateImages({
-                model: 'imagen-4.0-generate-001',
-                prompt: `An icon for a Geometry Dash mod named "${modData.name}". The style should be simple, iconic, geometric, and fit within a square. It should look good at a small size. Transparent background.`,
-                config: {
-                    numberOfImages: 1,
-                    aspectRatio: '1:1',
-                },
-            });
-
-            if (response.generatedImages && response.generatedImages.length > 0) {
-                const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-                const dataUrl = `data:image/png;base64,${base64ImageBytes}`;
-                setModData(prev => ({ ...prev, logo: dataUrl }));
-                return;
-            }
-
-            throw new Error("AI did not return an image.");
+            const base64ImageBytes = await ai!.generateImage(`An icon for a Geometry Dash mod named "${modData.name}". The style should be simple, iconic, geometric, and fit within a square. It should look good at a small size. Transparent background.`);
+            setLogoEditorSource(`data:image/png;base64,${base64ImageBytes}`);
         }, setIsGeneratingLogo);
     }, [ai, modData.name, safeApiCall]);
 
     const handleGenerateSettings = useCallback(async () => {
         await safeApiCall(async () => {
-            const response = await ai!.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: `Based on the mod name "${modData.name}" and description "${modData.description}", suggest up to 3 relevant settings. For each setting, provide a key (snake_case), a name (Title Case), a brief description, a type ('bool', 'int', 'float', or 'string'), and a sensible default value. Respond ONLY with a valid JSON array.`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                key: { type: Type.STRING }, name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING },
-                                default: { type: Type.STRING },
-                            },
-                        }
+            const suggestedSettings = await ai!.generateJson<any[]>(
+                `Based on the mod name "${modData.name}" and description "${modData.description}", suggest up to 3 relevant settings. For each setting, provide a key (snake_case), a name (Title Case), a brief description, a type ('bool', 'int', 'float', or 'string'), and a sensible default value. Respond ONLY with a valid JSON array.`,
+                {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            key: { type: 'string' }, name: { type: 'string' }, description: { type: 'string' }, type: { type: 'string', enum: SUGGESTED_SETTING_TYPES },
+                            default: { type: 'string' },
+                        },
                     }
                 }
-            });
-            const text = response.text.trim();
-            const suggestedSettings = JSON.parse(text);
-            const newSettings: ModSetting[] = suggestedSettings.map((s: any, i: number) => {
+            );
+            // Models don't always keep to the schema, and a type the generators don't know would break the mod
+            const validSettings = suggestedSettings.filter((s: any) => SUGGESTED_SETTING_TYPES.includes(s?.type) && typeof s.key === 'string' && s.key);
+            const newSettings: ModSetting[] = validSettings.map((s: any, i: number) => {
                  let parsedDefault: any;
                  switch(s.type) {
-                    case 'bool': parsedDefault = s.default.toLowerCase() === 'true'; break;
+                    case 'bool': parsedDefault = String(s.default).toLowerCase() === 'true'; break;
                     case 'int': parsedDefault = parseInt(s.default, 10) || 0; break;
                     case 'float': parsedDefault = parseFloat(s.default) || 0.0; break;
-                    default: parsedDefault = s.default;
+                    default: parsedDefault = String(s.default ?? '');
                  }
                 return { id: `setting-ai-${Date.now()}-${i}`, key: s.key, name: s.name, description: s.description, type: s.type, default: parsedDefault };
             });
@@ -391,117 +571,254 @@ const App: React.FC = () => {
         }, setIsGeneratingSettings);
     }, [ai, modData.name, modData.description, safeApiCall]);
     
-    const handleSendMessage = useCallback(async (message: string) => {
-        if (!chat || !ai) return;
+    const updateThreadMessages = useCallback((threadId: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+        setThreads(prev => prev.map(thread => (thread.id === threadId ? { ...thread, messages: update(thread.messages), updatedAt: Date.now() } : thread)));
+    }, []);
 
-        const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }] };
-        const newHistory = [...chatHistory, userMessage];
-        setChatHistory(newHistory);
-        
-        const fileList = generatedFiles ? `\n\nFor context, here are the current files in the project:\n${Object.keys(generatedFiles).join('\n')}` : '';
-        const messageWithContext = message + fileList;
+    // Rolls the files back or forward when the chat goes from one version of a conversation to another
+    const rollFilesBetween = (files: VirtualFileSystem | null, from: ChatMessage[], to: ChatMessage[]): VirtualFileSystem | null => {
+        if (!files) return null;
+        const result = rollFileChanges(files, getAppliedFileChanges(from), getAppliedFileChanges(to));
+        setProjectFiles(result.files);
+        setChatNotice(result.skipped.length > 0 ? `Left ${result.skipped.join(', ')} as ${result.skipped.length === 1 ? 'it is' : 'they are'}: edited since Gigi's change to it was accepted.` : null);
+        return result.files;
+    };
 
-        await safeApiCall(async () => {
-            const request: any = { message: messageWithContext };
-            if (isDeepThinkEnabled) {
-                // Use the max budget for gemini-2.5-flash for more complex reasoning.
-                request.config = { thinkingConfig: { thinkingBudget: 24576 } };
-            }
+    /**
+     * Sends a message and streams Gigi's reply. With `branchFrom`, the message
+     * at that index is answered again instead: a reply is regenerated, or a
+     * question replaced by this one. The old version stays as a branch and the
+     * file changes accepted in it are rolled back.
+     */
+    const handleSendMessage = useCallback(async (message: string, branchFrom?: number) => {
+        if (!chat || !ai || !activeThread) return;
+        // The reply goes to the thread it was asked in
+        const threadId = activeThread.id;
+        if (activeThread.messages.length === 0 && activeThread.name === DEFAULT_THREAD_NAME) {
+            setThreads(prev => prev.map(thread => (thread.id === threadId ? { ...thread, name: getThreadNameFromMessage(message) } : thread)));
+        }
+        setFocusedMessageIndex(null);
+        setChatNotice(null);
+
+        const isRegenerating = branchFrom !== undefined && activeThread.messages[branchFrom].role === 'model';
+        const userIndex = branchFrom === undefined ? activeThread.messages.length : isRegenerating ? branchFrom - 1 : branchFrom;
+        const earlierMessages = activeThread.messages.slice(0, userIndex);
+        // A new version starts from the files and conversation as they were before the old one
+        const files = branchFrom === undefined ? projectFiles : rollFilesBetween(projectFiles, activeThread.messages.slice(branchFrom), []);
+        const session = branchFrom === undefined ? chat : createGigiChat(ai, toChatTurns(earlierMessages));
+        if (session !== chat) setChat(session);
+
+        // Gigi sees the project through the files and settings picked for this message
+        const { text: contextText, context } = buildChatContext({ message, files, openFile: openFilePath || null, settings: modData.settings, budget: contextBudget });
+        const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }], context, sentAt: Date.now() };
+        const reply: ChatMessage = { role: 'model', parts: [{ text: '' }], fileChanges: [], sentAt: Date.now() };
+        // Gigi's reply streams into a message of its own, right after the user's
+        const replyIndex = userIndex + 1;
+        updateThreadMessages(threadId, messages => {
+            if (branchFrom === undefined) return [...messages, userMessage, reply];
+            if (!isRegenerating) return startBranch(messages, branchFrom, [userMessage, reply]);
+            // The question stays, with the context sent this time
+            const asked = messages.map((msg, i) => (i === userIndex ? { ...msg, context } : msg));
+            return startBranch(asked, branchFrom, [reply]);
+        });
+        let hasReplied = false;
+        const updateReply = (update: (reply: ChatMessage) => ChatMessage) => {
+            hasReplied = true;
+            updateThreadMessages(threadId, messages => messages.map((msg, i) => (i === replyIndex ? update(msg) : msg)));
+        };
+        const appendReplyText = (text: string) => updateReply(reply => ({ ...reply, parts: [{ text: reply.parts[0].text + text }] }));
 
-            const response = await chat.sendMessage(request);
-            
-            // Handle function calls for asset generation
-            if (response.functionCalls && response.functionCalls.length > 0) {
-                for (const funcCall of response.functionCalls) {
-                    if (funcCall.name === 'generateImageAndPlist' && funcCall.args) {
-                        const { prompt, fileName, spriteNames } = funcCall.args as { prompt: string; fileName: string; spriteNames: string[] };
-
-                        // 1. Generate Image
-                        const imageResponse = await ai.models.generateImages({
-                            model: 'imagen-4.0-generate-001',
-                            prompt: `A high-quality asset for a Geometry Dash mod. The asset is for: "${prompt}". The image MUST have a transparent background. The style should be clean, with sharp edges and vibrant colors. Think simple shapes, glowing effects, and a modern, slightly futuristic look.`,
-                            config: { numberOfImages: 1, aspectRatio: '1:1' },
-                        });
-                        const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
-
-                        // 2. Generate Plist
-                        const plistPrompt = `Generate a Cocos2d .plist XML file for a spritesheet named '${fileName}'. The spritesheet contains the following sprites: ${spriteNames.join(', ')}. Assume the sprites are arranged in a row. Create frames for each sprite name. You don't know the exact coordinates, so provide plausible placeholder coordinates and sizes for each frame. The format should be the standard Cocos2d plist format with a metadata section and a frames section.`;
-                        const plistResponse = await ai.models.generateContent({ model: "gemini-2.5-flash", contents: plistPrompt });
-                        const plistContent = plistResponse.text.trim().replace(/```xml\n|```/g, ''); // Clean up markdown fences if any
-
-                        // 3. Update file state
-                        setGeneratedFiles(prev => {
-                            const newFiles = prev ? { ...prev } : {};
-                             const sanitizedFileName = (fileName.endsWith('.png') ? fileName : `${fileName}.png`).replace(/[^a-z0-9-_\.]/gi, '-').toLowerCase();
-                             const plistFileName = sanitizedFileName.replace('.png', '.plist');
-                             delete newFiles['assets/.gitkeep'];
-                             newFiles[`assets/${sanitizedFileName}`] = base64ImageBytes;
-                             newFiles[`assets/${plistFileName}`] = plistContent;
-                            return newFiles;
-                        });
-
-                        // 4. Add confirmation to chat
-                        const confirmationMessage: ChatMessage = { role: 'model', parts: [{ text: `Okay! I've created the asset \`${fileName}\` and its \`.plist\` file and added them to your project's \`assets\` folder.` }] };
-                        setChatHistory(prev => [...prev, confirmationMessage]);
-                        return; // Exit after handling function call
-                    }
-                }
+        const messageWithContext = contextText ? `${message}\n\n${contextText}` : message;
+
+        const generateSpriteSheet = async ({ prompt, fileName, spriteNames }: { prompt: string; fileName: string; spriteNames: string[] }): Promise<string> => {
+            // 1. Generate each sprite on its own, so the sheet can be packed with exact frames
+            const sprites: Record<string, string> = {};
+            for (const spriteName of spriteNames) {
+                const imageBytes = await ai.generateImage(`A single high-quality sprite named "${spriteName}" for a Geometry Dash mod. The asset is for: "${prompt}". The image MUST have a transparent background. The style should be clean, with sharp edges and vibrant colors. Think simple shapes, glowing effects, and a modern, slightly futuristic look.`);
+                const frameName = `${spriteName.replace(/\.png$/i, '').replace(/[^a-z0-9-_\.]/gi, '-')}.png`;
+                sprites[frameName] = await resizeImageToFit(imageBytes, AI_SPRITE_SIZE);
             }
-            
-            // Handle text/code generation
-            const responseText = response.text;
-            let modelMessage: ChatMessage;
 
+            // 2. Pack them into a sheet for every texture quality
+            const sheetName = fileName.replace(/\.png$/i, '').replace(/[^a-z0-9-_\.]/gi, '-').toLowerCase();
+            const sheetFiles = await buildSpriteSheet(`assets/${sheetName}`, sprites);
+
+            // 3. Update file state
+            setProjectFiles(prev => {
+                const newFiles = prev ? { ...prev } : {};
+                delete newFiles['assets/.gitkeep'];
+                return writeFiles(newFiles, sheetFiles, 'ai');
+            });
+            return `Created the sprite sheet \`${sheetName}\` with ${spriteNames.length} sprite${spriteNames.length === 1 ? '' : 's'} and added its UHD, HD and SD \`.png\` and \`.plist\` files to the project's \`assets\` folder.`;
+        };
+
+        // Runs one function call and returns what the model is told about it
+        const runToolCall = async (call: AiToolCall, index: number): Promise<Record<string, unknown>> => {
             try {
-                const parsedJson = JSON.parse(responseText);
-                // Handle new multi-file format
-                if (parsedJson.files && Array.isArray(parsedJson.files)) {
-                    let filePaths: string[] = [];
-                    setGeneratedFiles(prev => {
-                        const newFiles = prev ? { ...prev } : {};
-                        parsedJson.files.forEach((file: { filePath: string; fileContent: string; }) => {
-                             if (file.filePath && file.fileContent) {
-                                newFiles[file.filePath] = file.fileContent;
-                                filePaths.push(`\`${file.filePath}\``);
-                             }
-                        });
-                        return newFiles;
-                    });
-                    
-                    modelMessage = { role: 'model', parts: [{ text: `Okay! I've created or updated the following file(s): ${filePaths.join(', ')}.` }] };
-
-                // Handle old single-file format for backward compatibility
-                } else if (parsedJson.filePath && typeof parsedJson.filePath === 'string' && parsedJson.fileContent && typeof parsedJson.fileContent === 'string') {
-                    setGeneratedFiles(prev => {
-                        const newFiles = prev ? { ...prev } : {};
-                        newFiles[parsedJson.filePath] = parsedJson.fileContent;
-                        return newFiles;
-                    });
-                    
-                    modelMessage = { role: 'model', parts: [{ text: `Okay! I've created the file \`${parsedJson.filePath}\` and added it to your project.` }] };
-                } else {
-                    throw new Error("JSON format is not a recognized file generation format.");
+                if (call.name === 'generateImageAndPlist') {
+                    const result = await generateSpriteSheet(call.args as { prompt: string; fileName: string; spriteNames: string[] });
+                    appendReplyText(`\n\n${result}`);
+                    return { result };
                 }
+                if (isFileToolCall(call.name)) {
+                    const change = parseFileChangeCall(call.name, call.args, `change-${Date.now()}-${index}`, files ?? {});
+                    updateReply(reply => ({ ...reply, fileChanges: [...(reply.fileChanges ?? []), change] }));
+                    return { result: 'Shown to the user as a proposed change. It is applied only if they accept it.' };
+                }
+                return { error: `Unknown function ${call.name}.` };
             } catch (e) {
-                // Not a JSON for file generation, treat as plain text
-                modelMessage = { role: 'model', parts: [{ text: responseText }] };
+                return { error: e instanceof Error ? e.message : String(e) };
             }
-            
-            setChatHistory(prev => [...prev, modelMessage]);
+        };
+
+        await safeApiCall(async () => {
+            let message: string | AiToolResult[] = messageWithContext;
+
+            // Stream the reply; when Gigi calls functions, answer them and stream what it says next.
+            // Every call must be answered or the session's history is left invalid, so the
+            // results of the last round are sent too, asking for a reply without function calls.
+            for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+                const calls: AiToolCall[] = [];
+                const noToolCalls = round === MAX_TOOL_ROUNDS;
+                for await (const chunk of session.sendStream(message, { deepThink: isDeepThinkEnabled, noToolCalls })) {
+                    if (chunk.text) appendReplyText(chunk.text);
+                    calls.push(...(chunk.toolCalls ?? []));
+                }
+                if (calls.length === 0 || noToolCalls) break;
 
+                const results: AiToolResult[] = [];
+                for (const [index, call] of calls.entries()) {
+                    results.push({ id: call.id, name: call.name, response: await runToolCall(call, round * 100 + index) });
+                }
+                message = results;
+            }
         }, setIsChatting);
-    }, [chat, ai, chatHistory, safeApiCall, generatedFiles, isDeepThinkEnabled]);
-    
+
+        // Drop the reply if nothing came back, e.g. after an error
+        if (hasReplied) return;
+        if (isRegenerating) {
+            // A regenerated reply that never came gives way to the one before it, files and all
+            updateThreadMessages(threadId, messages => discardBranch(messages, replyIndex));
+            rollFilesBetween(files, [], activeThread.messages.slice(replyIndex));
+            setChat(createGigiChat(ai, toChatTurns(activeThread.messages)));
+        } else {
+            updateThreadMessages(threadId, messages => messages.filter((_, i) => i !== replyIndex));
+        }
+    }, [chat, ai, activeThread, updateThreadMessages, safeApiCall, projectFiles, isDeepThinkEnabled, openFilePath, modData.settings, contextBudget]);
+
+    const updateFileChange = (changeId: string, update: Partial<ProposedFileChange>) => {
+        if (!activeThread) return;
+        updateThreadMessages(activeThread.id, messages => messages.map(msg => (
+            msg.fileChanges?.some(change => change.id === changeId)
+                ? { ...msg, fileChanges: msg.fileChanges.map(change => (change.id === changeId ? { ...change, ...update } : change)) }
+                : msg
+        )));
+    };
+
+    // Accepts a proposed change, or only the selected hunks of it, or rejects it
+    const handleResolveFileChange = (changeId: string, accept: boolean, selectedHunks?: number[]) => {
+        const change = chatHistory.flatMap(msg => msg.fileChanges ?? []).find(candidate => candidate.id === changeId);
+        if (!change || change.status !== 'pending') return;
+        if (!accept) {
+            updateFileChange(changeId, { status: 'rejected', error: undefined });
+            return;
+        }
+        try {
+            const result = applyFileChange(change, projectFiles ?? {}, selectedHunks);
+            if (result.conflicts.length > 0) {
+                throw new Error(`${result.conflicts.length} of ${result.total} hunks no longer match ${change.path}. Open the diff to apply the others.`);
+            }
+            if (result.content === null) {
+                handleDeletePath(change.path);
+            } else {
+                // Gigi always answers in text, even for a path that used to hold a binary file
+                setProjectFiles(prev => writeFile(prev ?? {}, change.path, result.content!, 'ai', 'utf8'));
+            }
+            const appliedHunks = result.applied.length < result.total ? { applied: result.applied.length, total: result.total } : undefined;
+            const appliedEdit = { before: projectFiles?.[change.path] ?? null, after: result.content };
+            updateFileChange(changeId, { status: 'accepted', appliedHunks, appliedEdit, error: undefined });
+        } catch (e) {
+            updateFileChange(changeId, { error: e instanceof Error ? e.message : String(e) });
+        }
+    };
+
+    const handleRegenerateMessage = (index: number) => {
+        handleSendMessage(chatHistory[index - 1].parts[0].text, index);
+    };
+
+    const handleEditMessage = (index: number, message: string) => {
+        handleSendMessage(message, index);
+    };
+
+    const handleSwitchBranch = (index: number, version: number) => {
+        if (!activeThread || isChatting) return;
+        const messages = switchBranch(activeThread.messages, index, version);
+        rollFilesBetween(projectFiles, activeThread.messages.slice(index), messages.slice(index));
+        updateThreadMessages(activeThread.id, () => messages);
+        if (ai) setChat(createGigiChat(ai, toChatTurns(messages)));
+    };
+
+    const handleInsertSnippet = (path: string, start: number, end: number) => {
+        if (snippetToInsert) workspaceRef.current?.replaceRange(path, start, end, snippetToInsert.code);
+    };
+
+    const handleCreateSnippetFile = (path: string) => {
+        if (!snippetToInsert) return;
+        setProjectFiles(prev => writeFile(prev ?? {}, path, snippetToInsert.code.endsWith('\n') ? snippetToInsert.code : `${snippetToInsert.code}\n`, 'user'));
+        workspaceRef.current?.openFile(path);
+    };
+
+    const handleSelectThread = (id: string) => {
+        setActiveThreadId(id);
+        setFocusedMessageIndex(null);
+    };
+
+    const handleNewThread = () => {
+        const thread = createThread();
+        setThreads(prev => [...prev, thread]);
+        handleSelectThread(thread.id);
+    };
+
+    const handleRenameThread = (id: string, name: string) => {
+        setThreads(prev => prev.map(thread => (thread.id === id ? { ...thread, name, updatedAt: Date.now() } : thread)));
+    };
+
+    const handleDeleteThread = (id: string) => {
+        // A project always keeps one thread to talk in
+        const remaining = threads.filter(thread => thread.id !== id);
+        const next = remaining.length > 0 ? remaining : [createThread()];
+        setThreads(next);
+        if (activeThread?.id === id) handleSelectThread(next[next.length - 1].id);
+    };
+
+    const handleExportThread = (id: string, format: ThreadExportFormat) => {
+        const thread = threads.find(candidate => candidate.id === id);
+        if (!thread) return;
+        const projectName = currentProject?.name ?? modData.name;
+        const fileName = `${thread.name.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'chat'}`;
+        if (format === 'markdown') {
+            downloadFile(new Blob([exportThreadToMarkdown(thread, projectName)], { type: 'text/markdown' }), `${fileName}.md`);
+        } else {
+            downloadFile(new Blob([exportThreadToJson(thread, projectName)], { type: 'application/json' }), `${fileName}.json`);
+        }
+    };
+
+    const handleOpenSearchResult = (result: ThreadSearchResult) => {
+        setActiveThreadId(result.threadId);
+        setFocusedMessageIndex(result.messageIndex);
+    };
+
     const handleAskGigiToExplain = useCallback(async (fileName: string) => {
-        if (!generatedFiles || !generatedFiles[fileName] || String(generatedFiles[fileName]).length > 10000) {
+        const file = projectFiles?.[fileName];
+        if (!file || file.encoding !== 'utf8') {
              const message = `Gigi, can you tell me the general purpose of a file named '${fileName}' in a Geode mod project?`;
              await handleSendMessage(message);
         } else {
-             const fileContent = generatedFiles[fileName];
-             const message = `Gigi, please explain what this file does in the context of a Geode mod. The file is named '${fileName}'. Here is the content:\n\n\`\`\`\n${fileContent}\n\`\`\``;
+             // Naming the file attaches its content through the chat context
+             const message = `Gigi, please explain what ${fileName} does in the context of a Geode mod.`;
              await handleSendMessage(message);
         }
-    }, [generatedFiles, handleSendMessage]);
+    }, [projectFiles, handleSendMessage]);
 
 
     return (
@@ -519,10 +836,22 @@ const App: React.FC = () => {
                         <p className="mt-2 text-geode-overlay">Create and customize your Geometry Dash mods with the power of AI.</p>
                     </header>
                     
-                    <div className="flex justify-center mb-6">
+                    <div className="flex justify-center gap-3 mb-6">
+                        <button onClick={() => setIsProjectDashboardOpen(true)} className="bg-geode-surface text-geode-light font-bold py-2 px-6 rounded-md hover:bg-opacity-90 transition-all">
+                            Projects{currentProject ? `: ${currentProject.name}` : ''}
+                        </button>
                         <button onClick={() => setIsLivePreviewModalOpen(true)} className="bg-geode-blue text-geode-crust font-bold py-2 px-6 rounded-md hover:bg-opacity-90 transition-all">
                             Live Preview
                         </button>
+                        <button onClick={() => setIsImportModalOpen(true)} className="bg-geode-surface text-geode-light font-bold py-2 px-6 rounded-md hover:bg-opacity-90 transition-all">
+                            Import Project
+                        </button>
+                        <button onClick={() => setIsSpritePackerOpen(true)} className="bg-geode-surface text-geode-light font-bold py-2 px-6 rounded-md hover:bg-opacity-90 transition-all">
+                            Sprite Packer
+                        </button>
+                        <button onClick={() => setIsAiSettingsOpen(true)} className="bg-geode-surface text-geode-light font-bold py-2 px-6 rounded-md hover:bg-opacity-90 transition-all">
+                            AI Settings
+                        </button>
                     </div>
 
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -543,6 +872,7 @@ const App: React.FC = () => {
                                 isGeneratingTags={isGeneratingTags}
                                 onGenerateLogo={handleGenerateLogo}
                                 isGeneratingLogo={isGeneratingLogo}
+                                onEditLogo={setLogoEditorSource}
                                 onGenerateSettings={handleGenerateSettings}
                                 isGeneratingSettings={isGeneratingSettings}
                                 aiError={aiError}
@@ -550,8 +880,19 @@ const App: React.FC = () => {
                         </div>
                         <div className="lg:col-span-2 space-y-6">
                             <CodeWorkspace 
-                                files={generatedFiles} 
+                                ref={workspaceRef}
+                                files={projectFiles} 
+                                templateFiles={templateFiles}
                                 onFileContentChange={handleFileContentChange}
+                                onResolveTemplateUpdate={handleResolveTemplateUpdate}
+                                onResetToTemplate={handleResetToTemplate}
+                                onAddFiles={handleAddFiles}
+                                onMovePath={handleMovePath}
+                                onDeletePath={handleDeletePath}
+                                lastDeletedPath={lastDeletion?.path ?? null}
+                                onUndoDelete={handleUndoDelete}
+                                onDismissUndoDelete={() => setLastDeletion(null)}
+                                onSelectedFileChange={setOpenFilePath}
                                 aiEnabled={aiEnabled}
                                 onAskGigiToExplain={handleAskGigiToExplain}
                                 isChatting={isChatting}
@@ -564,11 +905,90 @@ const App: React.FC = () => {
                                 onSendMessage={handleSendMessage}
                                 isDeepThinkEnabled={isDeepThinkEnabled}
                                 onToggleDeepThink={handleToggleDeepThink}
+                                contextBudget={contextBudget}
+                                onContextBudgetChange={setContextBudget}
+                                onResolveFileChange={handleResolveFileChange}
+                                onViewFileChange={setViewedFileChange}
+                                focusedMessageIndex={focusedMessageIndex}
+                                onInsertCode={(code, language) => setSnippetToInsert({ code, language })}
+                                onRegenerateMessage={handleRegenerateMessage}
+                                onEditMessage={handleEditMessage}
+                                onSwitchBranch={handleSwitchBranch}
+                                notice={chatNotice}
+                                onDismissNotice={() => setChatNotice(null)}
+                                threadBar={
+                                    <ChatThreadBar
+                                        threads={threads}
+                                        activeThreadId={activeThread?.id ?? ''}
+                                        disabled={isChatting}
+                                        onSelectThread={handleSelectThread}
+                                        onNewThread={handleNewThread}
+                                        onRenameThread={handleRenameThread}
+                                        onDeleteThread={handleDeleteThread}
+                                        onExportThread={handleExportThread}
+                                        onOpenSearchResult={handleOpenSearchResult}
+                                    />
+                                }
                             />
                         </div>
                     </div>
                 </div>
                 
+                <ProjectDashboard
+                    isOpen={isProjectDashboardOpen}
+                    onClose={() => setIsProjectDashboardOpen(false)}
+                    currentProjectId={currentProject?.id ?? null}
+                    onCreateProject={() => handleCreateProject()}
+                    onOpenProject={handleOpenProject}
+                    onDuplicateProject={handleDuplicateProject}
+                    onRenameProject={handleRenameProject}
+                    onDeleteProject={handleDeleteProject}
+                />
+                <ImportProjectModal
+                    isOpen={isImportModalOpen}
+                    onClose={() => setIsImportModalOpen(false)}
+                    onImport={handleImportProject}
+                />
+                <ValidationSummaryModal
+                    isOpen={downloadDiagnostics !== null}
+                    onClose={() => setDownloadDiagnostics(null)}
+                    diagnostics={downloadDiagnostics ?? []}
+                    onDownloadAnyway={downloadZip}
+                />
+                <SpritePackerModal
+                    isOpen={isSpritePackerOpen}
+                    onClose={() => setIsSpritePackerOpen(false)}
+                    files={projectFiles}
+                    onAddFiles={handleAddSpriteSheet}
+                />
+                <AiSettingsModal
+                    isOpen={isAiSettingsOpen}
+                    onClose={() => setIsAiSettingsOpen(false)}
+                    settings={aiSettings}
+                    onSave={handleSaveAiSettings}
+                />
+                <InsertSnippetModal
+                    snippet={snippetToInsert}
+                    files={projectFiles}
+                    openFilePath={openFilePath}
+                    getSelection={(path) => workspaceRef.current?.getSelection(path) ?? null}
+                    onClose={() => setSnippetToInsert(null)}
+                    onInsert={handleInsertSnippet}
+                    onCreateFile={handleCreateSnippetFile}
+                />
+                <FileChangeModal
+                    change={viewedFileChange}
+                    files={projectFiles}
+                    onClose={() => setViewedFileChange(null)}
+                    onResolve={handleResolveFileChange}
+                />
+                <LogoEditorModal
+                    source={logoEditorSource}
+                    modName={modData.name}
+                    developer={modData.developer}
+                    onClose={() => setLogoEditorSource(null)}
+                    onSave={(logo) => setModData(prev => ({ ...prev, logo }))}
+                />
                 <HowToRunModal isOpen={isHowToRunModalOpen} onClose={() => setIsHowToRunModalOpen(false)} />
                 <LivePreviewModal 
                     isOpen={isLivePreviewModalOpen} 
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import type { AiProviderId, AiSettings, AiTask } from '../types';
+import { AI_PROVIDERS, AI_TASKS } from '../services/ai';
+import { CogIcon } from './IconComponents';
+
+interface AiSettingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    settings: AiSettings;
+    onSave: (settings: AiSettings) => void;
+}
+
+const INPUT_CLASS = 'w-full bg-geode-crust border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-geode-teal';
+
+/**
+ * Picks the AI provider and the model each kind of task uses. Models are
+ * kept per provider, so switching back and forth doesn't lose them.
+ */
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [draft, setDraft] = useState<AiSettings>(settings);
+
+    useEffect(() => {
+        // Start from the saved settings each time the modal opens
+        if (isOpen) {
+            setIsAnimatingOut(false);
+            setDraft(settings);
+        }
+    }, [isOpen, settings]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const handleSave = () => {
+        onSave(draft);
+        handleClose();
+    };
+
+    const setModel = (provider: AiProviderId, task: AiTask, model: string) => {
+        setDraft(prev => ({ ...prev, models: { ...prev.models, [provider]: { ...prev.models[provider], [task]: model } } }));
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const provider = AI_PROVIDERS.find(option => option.id === draft.provider) ?? AI_PROVIDERS[0];
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-xl max-h-full flex flex-col transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <CogIcon className="h-6 w-6 text-geode-teal" />
+                        AI Settings
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 space-y-5 text-geode-light overflow-y-auto">
+                    <div>
+                        <h3 className="text-sm font-semibold text-geode-teal mb-2">Provider</h3>
+                        <div className="space-y-2">
+                            {AI_PROVIDERS.map(option => (
+                                <label
+                                    key={option.id}
+                                    className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${draft.provider === option.id ? 'border-geode-teal bg-geode-crust' : 'border-geode-surface hover:bg-geode-crust'}`}
+                                >
+                                    <input
+                                        type="radio"
+                                        name="ai-provider"
+                                        checked={draft.provider === option.id}
+                                        onChange={() => setDraft(prev => ({ ...prev, provider: option.id }))}
+                                        className="mt-1 accent-geode-teal"
+                                    />
+                                    <span>
+                                        <span className="block text-sm font-semibold">{option.label}</span>
+                                        <span className="block text-xs text-geode-overlay">{option.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    {draft.provider === 'openai' && (
+                        <div className="space-y-3">
+                            <div>
+                                <label htmlFor="ai-base-url" className="block text-sm font-semibold text-geode-teal mb-1">Base URL</label>
+                                <input
+                                    id="ai-base-url"
+                                    type="text"
+                                    value={draft.openAiBaseUrl}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, openAiBaseUrl: e.target.value }))}
+                                    placeholder="https://api.openai.com/v1"
+                                    className={INPUT_CLASS}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="ai-api-key" className="block text-sm font-semibold text-geode-teal mb-1">API key</label>
+                                <input
+                                    id="ai-api-key"
+                                    type="password"
+                                    value={draft.openAiApiKey}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, openAiApiKey: e.target.value }))}
+                                    placeholder="Leave empty for local servers"
+                                    className={INPUT_CLASS}
+                                />
+                                <p className="text-xs text-geode-overlay mt-1">Stored in this browser only.</p>
+                            </div>
+                        </div>
+                    )}
+                    <div>
+                        <h3 className="text-sm font-semibold text-geode-teal mb-2">Models for {provider.label}</h3>
+                        <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2 text-sm">
+                            {AI_TASKS.map(task => (
+                                <React.Fragment key={task.id}>
+                                    <label htmlFor={`ai-model-${task.id}`} className="text-geode-overlay">{task.label}</label>
+                                    <input
+                                        id={`ai-model-${task.id}`}
+                                        type="text"
+                                        value={draft.models[draft.provider][task.id]}
+                                        onChange={(e) => setModel(draft.provider, task.id, e.target.value)}
+                                        placeholder={provider.defaultModels[task.id] || 'none'}
+                                        disabled={draft.provider === 'mock'}
+                                        className={`${INPUT_CLASS} disabled:text-geode-overlay`}
+                                    />
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end gap-3">
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AiSettingsModal;
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import type { VirtualFile } from '../types';
+import { getFrameAtlasRect, setFrameRect, getFrameOffset, type SpriteSheetPlist, type Rect } from '../services/spritePacker';
+import { TrashIcon } from './IconComponents';
+
+interface AtlasViewerProps {
+    sheet: SpriteSheetPlist;
+    texture: VirtualFile | undefined;
+    texturePath: string;
+    onChange: (sheet: SpriteSheetPlist) => void;
+}
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; onCommit: (value: number) => void }> = ({ label, value, min, onCommit }) => (
+    <label className="flex items-center gap-1 text-xs text-geode-overlay">
+        {label}
+        <input
+            type="number"
+            value={value}
+            min={min}
+            onChange={(e) => {
+                const next = Number(e.target.value);
+                if (e.target.value !== '' && Number.isFinite(next) && (min === undefined || next >= min)) onCommit(next);
+            }}
+            className="w-16 bg-geode-mantle border border-geode-surface rounded-md px-1.5 py-0.5 text-geode-light font-mono focus:outline-none focus:ring-2 focus:ring-geode-teal"
+        />
+    </label>
+);
+
+/**
+ * Shows a sprite sheet's texture with its plist frames drawn over it. Frames
+ * can be picked on the texture or in the list, then renamed, moved, resized
+ * or deleted; every change is written straight back to the plist.
+ */
+const AtlasViewer: React.FC<AtlasViewerProps> = ({ sheet, texture, texturePath, onChange }) => {
+    const [selectedName, setSelectedName] = useState<string | null>(null);
+    const [nameDraft, setNameDraft] = useState('');
+    const [nameError, setNameError] = useState<string | null>(null);
+
+    const selectedFrame = sheet.frames.find(frame => frame.name === selectedName) ?? null;
+    const frameNames = sheet.frames.map(frame => frame.name).sort((a, b) => a.localeCompare(b));
+
+    useEffect(() => {
+        setNameDraft(selectedName ?? '');
+        setNameError(null);
+    }, [selectedName]);
+
+    const updateSelected = (update: (frame: typeof sheet.frames[number]) => typeof sheet.frames[number]) => {
+        onChange({ ...sheet, frames: sheet.frames.map(frame => (frame.name === selectedName ? update(frame) : frame)) });
+    };
+
+    const commitRect = (change: Partial<Rect>) => {
+        if (!selectedFrame) return;
+        updateSelected(frame => setFrameRect(frame, { x: frame.x, y: frame.y, width: frame.trim.width, height: frame.trim.height, ...change }));
+    };
+
+    const commitName = () => {
+        const name = nameDraft.trim();
+        if (!selectedFrame || name === selectedFrame.name) return;
+        if (!name) {
+            setNameError('Enter a name.');
+            return;
+        }
+        if (sheet.frames.some(frame => frame.name === name)) {
+            setNameError(`${name} already exists in this sheet.`);
+            return;
+        }
+        updateSelected(frame => ({ ...frame, name }));
+        setSelectedName(name);
+    };
+
+    const deleteSelected = () => {
+        if (!selectedFrame) return;
+        onChange({ ...sheet, frames: sheet.frames.filter(frame => frame.name !== selectedFrame.name) });
+        setSelectedName(null);
+    };
+
+    const isImage = texture?.encoding === 'base64' && texture.mimeType.startsWith('image/');
+    const [offsetX, offsetY] = selectedFrame ? getFrameOffset(selectedFrame) : [0, 0];
+
+    return (
+        <div className="flex-1 flex min-h-0 bg-geode-crust">
+            <div className="flex-1 overflow-auto p-4 flex items-start justify-center" onClick={() => setSelectedName(null)}>
+                {isImage ? (
+                    <div className="relative inline-block border border-geode-surface">
+                        <img src={`data:${texture.mimeType};base64,${texture.content}`} alt={texturePath} className="block max-w-full" />
+                        <svg
+                            viewBox={`0 0 ${sheet.width} ${sheet.height}`}
+                            preserveAspectRatio="none"
+                            className="absolute inset-0 w-full h-full"
+                        >
+                            {sheet.frames.map(frame => {
+                                const rect = getFrameAtlasRect(frame);
+                                const isSelected = frame.name === selectedName;
+                                return (
+                                    <rect
+                                        key={frame.name}
+                                        x={rect.x}
+                                        y={rect.y}
+                                        width={rect.width}
+                                        height={rect.height}
+                                        vectorEffect="non-scaling-stroke"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            setSelectedName(frame.name);
+                                        }}
+                                        className={`cursor-pointer ${isSelected ? 'fill-geode-teal/30 stroke-geode-teal' : 'fill-transparent stroke-geode-yellow/70 hover:fill-geode-yellow/20'}`}
+                                        strokeWidth={isSelected ? 2 : 1}
+                                    >
+                                        <title>{frame.name}</title>
+                                    </rect>
+                                );
+                            })}
+                        </svg>
+                    </div>
+                ) : (
+                    <p className="text-sm text-geode-overlay self-center">
+                        {texture ? `${texturePath} isn't an image.` : `The sheet's texture, ${texturePath}, isn't in the project.`}
+                    </p>
+                )}
+            </div>
+            <div className="w-56 shrink-0 border-l border-geode-surface flex flex-col min-h-0">
+                <p className="px-3 py-2 text-xs text-geode-overlay border-b border-geode-surface">
+                    {sheet.frames.length} frame{sheet.frames.length === 1 ? '' : 's'}, {sheet.width}x{sheet.height}
+                </p>
+                <ul className="flex-1 overflow-y-auto p-1">
+                    {frameNames.map(name => (
+                        <li key={name}>
+                            <button
+                                onClick={() => setSelectedName(name)}
+                                className={`w-full text-left px-2 py-0.5 rounded-md text-xs font-mono truncate transition-colors ${name === selectedName ? 'bg-geode-surface text-geode-teal' : 'text-geode-light hover:bg-geode-surface/50'}`}
+                            >
+                                {name}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                {selectedFrame && (
+                    <div className="border-t border-geode-surface p-3 space-y-2">
+                        <form onSubmit={(e) => { e.preventDefault(); commitName(); }}>
+                            <input
+                                type="text"
+                                value={nameDraft}
+                                onChange={(e) => {
+                                    setNameDraft(e.target.value);
+                                    setNameError(null);
+                                }}
+                                onBlur={commitName}
+                                aria-label="Frame name"
+                                className={`w-full bg-geode-mantle border rounded-md px-2 py-0.5 text-xs font-mono text-geode-light focus:outline-none focus:ring-2 ${nameError ? 'border-geode-red focus:ring-geode-red' : 'border-geode-surface focus:ring-geode-teal'}`}
+                            />
+                            {nameError && <p className="text-xs text-geode-red mt-1">{nameError}</p>}
+                        </form>
+                        <div className="grid grid-cols-2 gap-1">
+                            <NumberField label="X" value={selectedFrame.x} min={0} onCommit={(x) => commitRect({ x })} />
+                            <NumberField label="Y" value={selectedFrame.y} min={0} onCommit={(y) => commitRect({ y })} />
+                            <NumberField label="W" value={selectedFrame.trim.width} min={1} onCommit={(width) => commitRect({ width })} />
+                            <NumberField label="H" value={selectedFrame.trim.height} min={1} onCommit={(height) => commitRect({ height })} />
+                        </div>
+                        <p className="text-xs text-geode-overlay">
+                            Source {selectedFrame.sourceWidth}x{selectedFrame.sourceHeight}, offset {offsetX},{offsetY}{selectedFrame.rotated ? ', rotated' : ''}
+                        </p>
+                        <button onClick={deleteSelected} className="flex items-center gap-1 text-xs text-geode-overlay hover:text-geode-red transition-colors">
+                            <TrashIcon className="h-4 w-4" />
+                            Delete Frame
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AtlasViewer;
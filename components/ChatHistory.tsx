@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { ChatMessage } from '../types';
-import { GeodeIcon, UserIcon, SendIcon, LoadingIcon, SparklesIcon, BrainIcon } from './IconComponents';
+import type { ChatMessage, ProposedFileChange, FileChangeAction, AttachedContext, ContextMode, ContextReason } from '../types';
+import { CONTEXT_BUDGETS } from '../services/chatContext';
+import { getBranchCount } from '../services/chatThreads';
+import MarkdownView from './MarkdownView';
+import { GeodeIcon, UserIcon, SendIcon, LoadingIcon, SparklesIcon, BrainIcon, FileIcon } from './IconComponents';
 
 interface ChatHistoryProps {
     aiEnabled: boolean;
@@ -9,8 +12,101 @@ interface ChatHistoryProps {
     onSendMessage: (message: string) => void;
     isDeepThinkEnabled: boolean;
     onToggleDeepThink: () => void;
+    onResolveFileChange: (changeId: string, accept: boolean) => void;
+    onViewFileChange: (change: ProposedFileChange) => void;
+    contextBudget: number;
+    onContextBudgetChange: (budget: number) => void;
+    threadBar?: React.ReactNode; // picks and manages the thread shown
+    focusedMessageIndex: number | null; // scrolled to and highlighted, e.g. from a search
+    onInsertCode: (code: string, language: string) => void;
+    onRegenerateMessage: (index: number) => void;
+    onEditMessage: (index: number, message: string) => void;
+    onSwitchBranch: (index: number, version: number) => void;
+    notice: string | null; // e.g. files left alone when switching branches
+    onDismissNotice: () => void;
 }
 
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k` : String(tokens));
+
+const CONTEXT_REASON_LABELS: Record<ContextReason, string> = {
+    manifest: 'manifest',
+    open: 'open file',
+    referenced: 'mentioned',
+    included: 'included',
+};
+
+const CONTEXT_MODE_LABELS: Record<ContextMode, string> = {
+    full: 'full',
+    summary: 'outline',
+    truncated: 'truncated',
+    binary: 'binary, skipped',
+    omitted: 'over budget, skipped',
+};
+
+// Lists what was sent to Gigi along with a message
+const ContextDetails: React.FC<{ context: AttachedContext }> = ({ context }) => {
+    const attached = context.items.filter(item => item.tokens > 0).length;
+    return (
+        <details className="mt-2 text-xs opacity-80" style={{ whiteSpace: 'normal' }}>
+            <summary className="cursor-pointer select-none">
+                Context: {attached} file{attached === 1 ? '' : 's'}, ~{formatTokens(context.tokens)} of {formatTokens(context.budget)} tokens
+            </summary>
+            <ul className="mt-1 space-y-0.5 font-mono">
+                {context.items.map(item => (
+                    <li key={item.path} className="flex gap-2">
+                        <span className="truncate flex-1" title={item.path}>{item.path}</span>
+                        <span className="shrink-0">{CONTEXT_REASON_LABELS[item.reason]}, {CONTEXT_MODE_LABELS[item.mode]}{item.tokens > 0 ? `, ~${formatTokens(item.tokens)}` : ''}</span>
+                    </li>
+                ))}
+                <li>File list ({context.fileCount} files){context.settingCount > 0 ? `, ${context.settingCount} setting${context.settingCount === 1 ? '' : 's'}` : ''}</li>
+            </ul>
+        </details>
+    );
+};
+
+const ACTION_LABELS: Record<FileChangeAction, string> = {
+    create: 'Create',
+    update: 'Replace',
+    patch: 'Edit',
+    delete: 'Delete',
+};
+
+const FileChangeCard: React.FC<{ change: ProposedFileChange; onResolve: (accept: boolean) => void; onView: () => void }> = ({ change, onResolve, onView }) => (
+    <div className="mt-2 bg-geode-crust border border-geode-surface rounded-md p-2 text-xs" style={{ whiteSpace: 'normal' }}>
+        <div className="flex items-center gap-2">
+            <FileIcon className="h-4 w-4 shrink-0 text-geode-overlay" />
+            <span className={`font-bold ${change.action === 'delete' ? 'text-geode-red' : 'text-geode-teal'}`}>{ACTION_LABELS[change.action]}</span>
+            <span className="font-mono truncate flex-1" title={change.path}>{change.path}</span>
+            {change.status !== 'pending' && (
+                <span className={change.status === 'accepted' ? 'text-geode-green' : 'text-geode-overlay'}>
+                    {change.status === 'rejected' ? 'Rejected' : change.appliedHunks ? `Accepted ${change.appliedHunks.applied} of ${change.appliedHunks.total} hunks` : 'Accepted'}
+                </span>
+            )}
+        </div>
+        {change.status === 'pending' && (
+            <div className="flex items-center gap-3 mt-2">
+                <button onClick={() => onResolve(true)} className="font-bold text-geode-blue hover:text-geode-teal">Accept</button>
+                <button onClick={() => onResolve(false)} className="text-geode-overlay hover:text-geode-red">Reject</button>
+                <button onClick={onView} className="ml-auto text-geode-overlay hover:text-geode-light">View Diff</button>
+            </div>
+        )}
+        {change.error && change.status === 'pending' && <p className="mt-1 text-geode-red">{change.error}</p>}
+    </div>
+);
+
+// Steps through the versions of the conversation that branch off at a message
+const BranchSwitcher: React.FC<{ msg: ChatMessage; disabled: boolean; onSwitch: (version: number) => void }> = ({ msg, disabled, onSwitch }) => {
+    const count = getBranchCount(msg);
+    const current = msg.branchIndex ?? 0;
+    return (
+        <span className="flex items-center gap-1">
+            <button onClick={() => onSwitch(current - 1)} disabled={disabled || current === 0} className="px-1 hover:text-geode-light disabled:opacity-40" aria-label="Previous version">&lsaquo;</button>
+            <span>{current + 1} / {count}</span>
+            <button onClick={() => onSwitch(current + 1)} disabled={disabled || current === count - 1} className="px-1 hover:text-geode-light disabled:opacity-40" aria-label="Next version">&rsaquo;</button>
+        </span>
+    );
+};
+
 const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text, children }) => (
     <div className="group relative flex items-center">
         {children}
@@ -20,17 +116,22 @@ const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text,
     </div>
 );
 
-const ChatHistory: React.FC<ChatHistoryProps> = ({ aiEnabled, history, isChatting, onSendMessage, isDeepThinkEnabled, onToggleDeepThink }) => {
+const ChatHistory: React.FC<ChatHistoryProps> = ({ aiEnabled, history, isChatting, onSendMessage, isDeepThinkEnabled, onToggleDeepThink, onResolveFileChange, onViewFileChange, contextBudget, onContextBudgetChange, threadBar, focusedMessageIndex, onInsertCode, onRegenerateMessage, onEditMessage, onSwitchBranch, notice, onDismissNotice }) => {
     const [input, setInput] = useState('');
+    const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
-
-    const scrollToBottom = () => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    };
+    const focusedMessageRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
-        scrollToBottom();
-    }, [history]);
+        (focusedMessageRef.current ?? messagesEndRef.current)?.scrollIntoView({ behavior: 'smooth', block: focusedMessageRef.current ? 'center' : 'end' });
+    }, [history, focusedMessageIndex]);
+
+    // A reply is shown once its first text or file change streams in; until then Gigi is "thinking"
+    const visibleHistory = history
+        .map((msg, index) => ({ msg, index }))
+        .filter(({ msg }) => msg.role === 'user' || msg.parts[0].text || msg.fileChanges?.length);
+    const lastMessage = history[history.length - 1];
+    const isWaiting = isChatting && (lastMessage?.role === 'user' || !visibleHistory.some(({ msg }) => msg === lastMessage));
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -40,6 +141,12 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ aiEnabled, history, isChattin
         }
     };
 
+    const submitEdit = () => {
+        if (!editing || !editing.text.trim() || isChatting || !aiEnabled) return;
+        onEditMessage(editing.index, editing.text);
+        setEditing(null);
+    };
+
     const ThinkingIndicator = () => (
         <div className="flex items-start gap-3">
             <div className="flex-shrink-0 h-8 w-8 rounded-full bg-geode-surface flex items-center justify-center">
@@ -59,35 +166,102 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ aiEnabled, history, isChattin
                     <SparklesIcon className="h-5 w-5 text-geode-teal" />
                     <h2 className="text-lg font-bold text-geode-light">AI Chat</h2>
                 </div>
-                <Tooltip text="Enables deeper reasoning for complex code generation, but may take longer.">
-                    <label className="flex items-center gap-2 cursor-pointer text-sm text-geode-light hover:text-geode-teal transition-colors">
-                        <BrainIcon className="h-5 w-5"/>
-                        <span>Deep Think</span>
-                        <div className="relative">
-                            <input type="checkbox" checked={isDeepThinkEnabled} onChange={onToggleDeepThink} className="sr-only peer" disabled={!aiEnabled || isChatting} />
-                            <div className="w-10 h-6 bg-geode-surface rounded-full peer-checked:bg-geode-blue transition-colors"></div>
-                            <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
-                        </div>
-                    </label>
-                </Tooltip>
+                <div className="flex items-center gap-4">
+                    <Tooltip text="How much of the project's files Gigi is sent with each message.">
+                        <label className="flex items-center gap-2 text-sm text-geode-light">
+                            <span>Context</span>
+                            <select
+                                value={contextBudget}
+                                onChange={(e) => onContextBudgetChange(Number(e.target.value))}
+                                disabled={!aiEnabled || isChatting}
+                                className="bg-geode-mantle border border-geode-surface rounded-md px-1.5 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                            >
+                                {CONTEXT_BUDGETS.map(budget => <option key={budget} value={budget}>{formatTokens(budget)} tokens</option>)}
+                            </select>
+                        </label>
+                    </Tooltip>
+                    <Tooltip text="Enables deeper reasoning for complex code generation, but may take longer.">
+                        <label className="flex items-center gap-2 cursor-pointer text-sm text-geode-light hover:text-geode-teal transition-colors">
+                            <BrainIcon className="h-5 w-5"/>
+                            <span>Deep Think</span>
+                            <div className="relative">
+                                <input type="checkbox" checked={isDeepThinkEnabled} onChange={onToggleDeepThink} className="sr-only peer" disabled={!aiEnabled || isChatting} />
+                                <div className="w-10 h-6 bg-geode-surface rounded-full peer-checked:bg-geode-blue transition-colors"></div>
+                                <div className="absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform peer-checked:translate-x-full"></div>
+                            </div>
+                        </label>
+                    </Tooltip>
+                </div>
             </header>
+            {threadBar}
             <div className="flex-1 p-4 space-y-4 overflow-y-auto">
-                {history.map((msg, index) => (
-                    <div key={index} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+                {visibleHistory.map(({ msg, index }) => (
+                    <div
+                        key={index}
+                        ref={index === focusedMessageIndex ? focusedMessageRef : undefined}
+                        className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}
+                    >
                         {msg.role === 'model' && (
                              <div className="flex-shrink-0 h-8 w-8 rounded-full bg-geode-surface flex items-center justify-center">
                                 <GeodeIcon className="h-5 w-5 text-geode-teal" />
                             </div>
                         )}
-                        <div
-                            className={`rounded-lg p-3 max-w-lg text-sm ${
-                                msg.role === 'user'
-                                    ? 'bg-geode-blue text-geode-crust'
-                                    : 'bg-geode-surface text-geode-light'
-                            }`}
-                            style={{ whiteSpace: 'pre-wrap' }}
-                        >
-                            {msg.parts[0].text}
+                        <div className={`flex flex-col gap-1 max-w-lg min-w-0 ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                            {editing?.index === index ? (
+                                <div className="w-80 max-w-full bg-geode-crust border border-geode-surface rounded-lg p-2">
+                                    <textarea
+                                        value={editing.text}
+                                        onChange={(e) => setEditing({ index, text: e.target.value })}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter' && !e.shiftKey) {
+                                                e.preventDefault();
+                                                submitEdit();
+                                            } else if (e.key === 'Escape') {
+                                                setEditing(null);
+                                            }
+                                        }}
+                                        rows={3}
+                                        autoFocus
+                                        className="w-full bg-transparent text-sm text-geode-light resize-y focus:outline-none"
+                                        aria-label="Edit message"
+                                    />
+                                    <div className="flex justify-end items-center gap-3 text-xs">
+                                        <span className="mr-auto text-geode-overlay">Sends as a new branch</span>
+                                        <button onClick={() => setEditing(null)} className="text-geode-overlay hover:text-geode-light">Cancel</button>
+                                        <button onClick={submitEdit} disabled={!editing.text.trim() || isChatting || !aiEnabled} className="font-bold text-geode-blue hover:text-geode-teal disabled:opacity-50">Send</button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div
+                                    className={`rounded-lg p-3 max-w-full text-sm ${
+                                        msg.role === 'user'
+                                            ? 'bg-geode-blue text-geode-crust'
+                                            : 'bg-geode-surface text-geode-light'
+                                    } ${index === focusedMessageIndex ? 'ring-2 ring-geode-yellow' : ''}`}
+                                    style={{ whiteSpace: msg.role === 'user' ? 'pre-wrap' : 'normal' }}
+                                >
+                                    {msg.role === 'model' ? <MarkdownView text={msg.parts[0].text} onInsertCode={onInsertCode} /> : msg.parts[0].text}
+                                    {msg.context && <ContextDetails context={msg.context} />}
+                                    {msg.fileChanges?.map(change => (
+                                        <FileChangeCard
+                                            key={change.id}
+                                            change={change}
+                                            onResolve={(accept) => onResolveFileChange(change.id, accept)}
+                                            onView={() => onViewFileChange(change)}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            {editing?.index !== index && (
+                                <div className="flex items-center gap-3 px-1 text-xs text-geode-overlay">
+                                    {msg.branches && <BranchSwitcher msg={msg} disabled={isChatting} onSwitch={(version) => onSwitchBranch(index, version)} />}
+                                    {aiEnabled && !isChatting && (msg.role === 'user' ? (
+                                        <button onClick={() => setEditing({ index, text: msg.parts[0].text })} className="hover:text-geode-light">Edit</button>
+                                    ) : history[index - 1]?.role === 'user' && (
+                                        <button onClick={() => onRegenerateMessage(index)} className="hover:text-geode-light">Regenerate</button>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                         {msg.role === 'user' && (
                              <div className="flex-shrink-0 h-8 w-8 rounded-full bg-geode-surface flex items-center justify-center">
@@ -96,10 +270,16 @@ const ChatHistory: React.FC<ChatHistoryProps> = ({ aiEnabled, history, isChattin
                         )}
                     </div>
                 ))}
-                {isChatting && <ThinkingIndicator />}
+                {isWaiting && <ThinkingIndicator />}
                 <div ref={messagesEndRef} />
             </div>
             <div className="p-4 border-t border-geode-surface">
+                {notice && (
+                    <p className="flex items-start gap-2 mb-2 text-xs text-geode-yellow">
+                        <span className="flex-1">{notice}</span>
+                        <button onClick={onDismissNotice} className="text-geode-overlay hover:text-geode-light" aria-label="Dismiss">&times;</button>
+                    </p>
+                )}
                 <form onSubmit={handleSubmit} className="flex items-center gap-2">
                     <input
                         type="text"
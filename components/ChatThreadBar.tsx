@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react';
+import type { ChatThread } from '../types';
+import { searchThreads, type ThreadSearchResult } from '../services/chatThreads';
+import { SearchIcon, TrashIcon, DownloadIcon } from './IconComponents';
+
+export type ThreadExportFormat = 'markdown' | 'json';
+
+interface ChatThreadBarProps {
+    threads: ChatThread[];
+    activeThreadId: string;
+    disabled: boolean; // while Gigi is replying
+    onSelectThread: (id: string) => void;
+    onNewThread: () => void;
+    onRenameThread: (id: string, name: string) => void;
+    onDeleteThread: (id: string) => void;
+    onExportThread: (id: string, format: ThreadExportFormat) => void;
+    onOpenSearchResult: (result: ThreadSearchResult) => void;
+}
+
+const BUTTON_CLASS = 'text-xs text-geode-overlay hover:text-geode-light disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const SearchResult: React.FC<{ result: ThreadSearchResult; onOpen: () => void }> = ({ result, onOpen }) => (
+    <li>
+        <button onClick={onOpen} className="w-full text-left px-2 py-1.5 rounded-md hover:bg-geode-surface">
+            <span className="block text-xs text-geode-overlay">{result.threadName} · {result.role === 'user' ? 'You' : 'Gigi'}</span>
+            <span className="block text-xs text-geode-light">
+                {result.snippet.slice(0, result.matchStart)}
+                <mark className="bg-geode-yellow text-geode-crust rounded-sm">{result.snippet.slice(result.matchStart, result.matchStart + result.matchLength)}</mark>
+                {result.snippet.slice(result.matchStart + result.matchLength)}
+            </span>
+        </button>
+    </li>
+);
+
+/**
+ * Switches between the project's chat threads, manages them, and searches
+ * every message in them.
+ */
+const ChatThreadBar: React.FC<ChatThreadBarProps> = ({ threads, activeThreadId, disabled, onSelectThread, onNewThread, onRenameThread, onDeleteThread, onExportThread, onOpenSearchResult }) => {
+    const [renameValue, setRenameValue] = useState<string | null>(null);
+    const [isSearching, setIsSearching] = useState(false);
+    const [query, setQuery] = useState('');
+
+    const activeThread = threads.find(thread => thread.id === activeThreadId);
+    const results = useMemo(() => (isSearching ? searchThreads(threads, query) : []), [isSearching, threads, query]);
+
+    const submitRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = renameValue?.trim();
+        if (activeThread && name && name !== activeThread.name) onRenameThread(activeThread.id, name);
+        setRenameValue(null);
+    };
+
+    const handleDelete = () => {
+        if (activeThread && window.confirm(`Delete the chat "${activeThread.name}"? Its messages will be lost.`)) {
+            onDeleteThread(activeThread.id);
+        }
+    };
+
+    const closeSearch = () => {
+        setIsSearching(false);
+        setQuery('');
+    };
+
+    if (isSearching) {
+        return (
+            <div className="border-b border-geode-surface bg-geode-crust px-4 py-2">
+                <div className="flex items-center gap-2">
+                    <SearchIcon className="h-4 w-4 text-geode-overlay shrink-0" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+                        placeholder="Search all chats..."
+                        autoFocus
+                        className="flex-1 bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-sm text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        aria-label="Search chats"
+                    />
+                    <button onClick={closeSearch} className={BUTTON_CLASS}>Done</button>
+                </div>
+                {query.trim() && (
+                    <ul className="mt-2 max-h-48 overflow-y-auto space-y-0.5">
+                        {results.map(result => (
+                            <SearchResult
+                                key={`${result.threadId}:${result.messageIndex}`}
+                                result={result}
+                                onOpen={() => {
+                                    onOpenSearchResult(result);
+                                    closeSearch();
+                                }}
+                            />
+                        ))}
+                        {results.length === 0 && <li className="px-2 py-1 text-xs text-geode-overlay">No messages match.</li>}
+                    </ul>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-3 border-b border-geode-surface bg-geode-crust px-4 py-2">
+            {renameValue !== null ? (
+                <form onSubmit={submitRename} className="flex-1 min-w-0">
+                    <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={submitRename}
+                        onKeyDown={(e) => e.key === 'Escape' && setRenameValue(null)}
+                        autoFocus
+                        className="w-full bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-sm text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        aria-label="Chat name"
+                    />
+                </form>
+            ) : (
+                <select
+                    value={activeThreadId}
+                    onChange={(e) => onSelectThread(e.target.value)}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-sm text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                    aria-label="Chat thread"
+                >
+                    {threads.map(thread => (
+                        <option key={thread.id} value={thread.id}>
+                            {thread.name} ({thread.messages.length})
+                        </option>
+                    ))}
+                </select>
+            )}
+            <button onClick={onNewThread} disabled={disabled} className={`${BUTTON_CLASS} font-bold text-geode-blue`}>New</button>
+            <button onClick={() => setRenameValue(activeThread?.name ?? '')} disabled={disabled || !activeThread} className={BUTTON_CLASS}>Rename</button>
+            <button onClick={() => onExportThread(activeThreadId, 'markdown')} disabled={!activeThread?.messages.length} className={`${BUTTON_CLASS} flex items-center gap-1`} title="Export as Markdown">
+                <DownloadIcon className="h-4 w-4" />.md
+            </button>
+            <button onClick={() => onExportThread(activeThreadId, 'json')} disabled={!activeThread?.messages.length} className={BUTTON_CLASS} title="Export as JSON">.json</button>
+            <button onClick={handleDelete} disabled={disabled || !activeThread} className={`${BUTTON_CLASS} hover:text-geode-red`} aria-label="Delete chat">
+                <TrashIcon className="h-4 w-4" />
+            </button>
+            <button onClick={() => setIsSearching(true)} className={BUTTON_CLASS} aria-label="Search chats">
+                <SearchIcon className="h-4 w-4" />
+            </button>
+        </div>
+    );
+};
+
+export default ChatThreadBar;
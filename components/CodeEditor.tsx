@@ -0,0 +1,194 @@
+import React, { useState, useMemo, useRef, useLayoutEffect, forwardRef, useImperativeHandle } from 'react';
+import { tokenize, findMatchingBracket, type EditorLanguage, type TokenType } from '../services/syntaxHighlighter';
+import type { EditSnapshot } from '../services/editHistory';
+
+export interface CodeEditorHandle {
+    // Selects a range of the file and scrolls it into view
+    select: (start: number, end: number) => void;
+}
+
+interface CodeEditorProps {
+    value: string;
+    language: EditorLanguage;
+    // `group` is true for plain typing, which is undone a word at a time rather than a key at a time
+    onChange: (next: EditSnapshot, before: EditSnapshot, group: boolean) => void;
+    onUndo: (current: EditSnapshot) => EditSnapshot | null;
+    onRedo: (current: EditSnapshot) => EditSnapshot | null;
+    onFind: (selectedText: string) => void;
+    onSelectionChange?: (start: number, end: number) => void;
+}
+
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+    plain: '',
+    keyword: 'text-geode-mauve',
+    type: 'text-geode-yellow',
+    function: 'text-geode-blue',
+    string: 'text-geode-green',
+    number: 'text-geode-peach',
+    constant: 'text-geode-peach',
+    comment: 'text-geode-overlay',
+    preprocessor: 'text-geode-red',
+    key: 'text-geode-blue',
+    variable: 'text-geode-teal',
+    tag: 'text-geode-blue',
+    attribute: 'text-geode-yellow',
+    heading: 'text-geode-blue',
+    bracket: '',
+};
+
+// Typing and deleting single characters is grouped into one undo step
+const GROUPED_INPUT_TYPES = ['insertText', 'deleteContentBackward', 'deleteContentForward'];
+
+/**
+ * A textarea laid over a syntax-highlighted copy of its text. The textarea
+ * handles input and selection with transparent text, so both layers must
+ * share the same font, padding and line height.
+ */
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ value, language, onChange, onUndo, onRedo, onFind, onSelectionChange }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const selectionRef = useRef<[number, number]>([0, 0]);
+    const pendingSelectionRef = useRef<[number, number] | null>(null);
+    const [caret, setCaret] = useState<number | null>(null);
+
+    const lines = useMemo(() => tokenize(value, language), [value, language]);
+    const bracketMatch = useMemo(() => (caret !== null ? findMatchingBracket(lines, caret) : null), [lines, caret]);
+    const caretLine = caret !== null ? value.slice(0, caret).split('\n').length - 1 : -1;
+
+    const scrollToOffset = (offset: number) => {
+        const textarea = textareaRef.current;
+        const container = scrollRef.current;
+        if (!textarea || !container) return;
+        const line = value.slice(0, offset).split('\n').length - 1;
+        const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+        const top = line * lineHeight;
+        if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - 2 * lineHeight) {
+            container.scrollTop = Math.max(0, top - 2 * lineHeight);
+        }
+    };
+
+    const select = (start: number, end: number) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(start, end);
+        selectionRef.current = [start, end];
+        onSelectionChange?.(start, end);
+        setCaret(start === end ? start : null);
+        scrollToOffset(start);
+    };
+
+    useImperativeHandle(ref, () => ({ select }));
+
+    // Edits made here (undo, indentation) move the caret once the new value has rendered
+    useLayoutEffect(() => {
+        const pending = pendingSelectionRef.current;
+        if (!pending) return;
+        pendingSelectionRef.current = null;
+        select(pending[0], pending[1]);
+    }, [value]);
+
+    const current = (): EditSnapshot => ({ content: value, selectionStart: selectionRef.current[0], selectionEnd: selectionRef.current[1] });
+
+    const trackSelection = () => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        selectionRef.current = [textarea.selectionStart, textarea.selectionEnd];
+        onSelectionChange?.(textarea.selectionStart, textarea.selectionEnd);
+        setCaret(textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const inputType = (e.nativeEvent as InputEvent).inputType;
+        const before = current();
+        const next = { content: e.target.value, selectionStart: e.target.selectionStart, selectionEnd: e.target.selectionEnd };
+        selectionRef.current = [next.selectionStart, next.selectionEnd];
+        onSelectionChange?.(next.selectionStart, next.selectionEnd);
+        onChange(next, before, GROUPED_INPUT_TYPES.includes(inputType));
+    };
+
+    // Replaces the selection with `text` and puts the caret after it
+    const insertText = (text: string) => {
+        const [start, end] = selectionRef.current;
+        const caretAfter = start + text.length;
+        pendingSelectionRef.current = [caretAfter, caretAfter];
+        onChange({ content: value.slice(0, start) + text + value.slice(end), selectionStart: caretAfter, selectionEnd: caretAfter }, current(), false);
+    };
+
+    const applySnapshot = (snapshot: EditSnapshot | null) => {
+        if (!snapshot) return;
+        if (snapshot.content === value) {
+            select(snapshot.selectionStart, snapshot.selectionEnd);
+        } else {
+            pendingSelectionRef.current = [snapshot.selectionStart, snapshot.selectionEnd];
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const mod = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+        if (mod && key === 'z') {
+            e.preventDefault();
+            applySnapshot(e.shiftKey ? onRedo(current()) : onUndo(current()));
+        } else if (mod && key === 'y') {
+            e.preventDefault();
+            applySnapshot(onRedo(current()));
+        } else if (mod && key === 'f') {
+            e.preventDefault();
+            const [start, end] = selectionRef.current;
+            onFind(value.slice(start, end));
+        } else if (e.key === 'Tab' && !mod && !e.shiftKey) {
+            e.preventDefault();
+            insertText('\t');
+        } else if (e.key === 'Enter' && !mod) {
+            // Keep the indentation of the current line
+            e.preventDefault();
+            const lineStart = value.lastIndexOf('\n', selectionRef.current[0] - 1) + 1;
+            const indent = /^[\t ]*/.exec(value.slice(lineStart))?.[0] ?? '';
+            insertText(`\n${indent}`);
+        }
+    };
+
+    const renderLine = (lineIndex: number) => lines[lineIndex].map(token => {
+        const isMatchedBracket = bracketMatch !== null && token.type === 'bracket' && bracketMatch.includes(token.start);
+        const className = `${TOKEN_CLASSES[token.type]}${isMatchedBracket ? ' bg-geode-surface outline outline-1 outline-geode-overlay rounded-sm' : ''}`;
+        return className ? <span key={token.start} className={className}>{token.text}</span> : token.text;
+    });
+
+    return (
+        <div ref={scrollRef} className="flex-1 overflow-auto bg-geode-crust font-mono text-sm leading-relaxed" style={{ tabSize: 4 }}>
+            <div className="flex min-w-max min-h-full">
+                <div aria-hidden="true" className="sticky left-0 select-none text-right py-4 pl-4 pr-3 bg-geode-crust border-r border-geode-surface text-geode-overlay">
+                    {lines.map((_, i) => (
+                        <div key={i} className={i === caretLine ? 'text-geode-light' : ''}>{i + 1}</div>
+                    ))}
+                </div>
+                <div className="relative flex-1">
+                    <pre aria-hidden="true" className="m-0 p-4 whitespace-pre text-geode-light pointer-events-none font-mono">
+                        {lines.map((_, i) => (
+                            <React.Fragment key={i}>
+                                {renderLine(i)}
+                                {'\n'}
+                            </React.Fragment>
+                        ))}
+                    </pre>
+                    <textarea
+                        ref={textareaRef}
+                        value={value}
+                        onChange={handleChange}
+                        onKeyDown={handleKeyDown}
+                        onSelect={trackSelection}
+                        onBlur={() => setCaret(null)}
+                        wrap="off"
+                        spellCheck="false"
+                        autoCapitalize="off"
+                        autoComplete="off"
+                        className="absolute inset-0 w-full h-full m-0 p-4 bg-transparent text-transparent caret-geode-light selection:bg-geode-blue/30 font-mono text-sm leading-relaxed whitespace-pre resize-none border-none outline-none overflow-hidden"
+                    />
+                </div>
+            </div>
+        </div>
+    );
+});
+
+export default CodeEditor;
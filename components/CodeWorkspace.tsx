@@ -1,11 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import type { GeneratedFiles } from '../types';
+import React, { useState, useEffect, useMemo, useRef, forwardRef, useImperativeHandle } from 'react';
+import type { GeneratedFiles, VirtualFileSystem, TemplateFileStates, FileOrigin } from '../types';
+import { getFileOwnership } from '../services/fileOwnership';
+import { validateModJson } from '../services/modJsonValidator';
+import { getEditorLanguage } from '../services/syntaxHighlighter';
+import { formatFileSize, writeFiles } from '../services/vfs';
+import { parseSpriteSheetPlist, generatePlist, type SpriteSheetPlist } from '../services/spritePacker';
+import { createEditHistory, recordEdit, undoEdit, redoEdit, type EditHistory, type EditSnapshot } from '../services/editHistory';
+import type { SearchMatch } from '../services/fileSearch';
 import FileExplorer from './FileExplorer';
-import { SparklesIcon, LoadingIcon, InfoIcon, PlayIcon } from './IconComponents';
+import SearchPanel from './SearchPanel';
+import CodeEditor, { type CodeEditorHandle } from './CodeEditor';
+import TemplateMergeModal from './TemplateMergeModal';
+import AtlasViewer from './AtlasViewer';
+import QualityVariantsPanel from './QualityVariantsPanel';
+import { SparklesIcon, LoadingIcon, InfoIcon, PlayIcon, FileIcon, SearchIcon } from './IconComponents';
+
+export interface CodeWorkspaceHandle {
+    // Where the caret or selection was last left in a file, if it has been opened
+    getSelection: (path: string) => { start: number; end: number } | null;
+    // Replaces a range of a text file as one undoable edit, then shows the new text selected
+    replaceRange: (path: string, start: number, end: number, text: string) => void;
+    openFile: (path: string) => void;
+}
 
 interface CodeWorkspaceProps {
-    files: GeneratedFiles | null;
+    files: VirtualFileSystem | null;
+    templateFiles: TemplateFileStates;
     onFileContentChange: (path: string, newContent: string) => void;
+    onResolveTemplateUpdate: (path: string, content: string | null) => void;
+    onResetToTemplate: (path: string) => void;
+    onAddFiles: (files: VirtualFileSystem) => void;
+    onMovePath: (from: string, to: string) => void;
+    onDeletePath: (path: string) => void;
+    lastDeletedPath: string | null;
+    onUndoDelete: () => void;
+    onDismissUndoDelete: () => void;
+    onSelectedFileChange: (path: string) => void; // lets Gigi see the file being worked on
     // AI Props
     aiEnabled: boolean;
     onAskGigiToExplain: (fileName: string) => void;
@@ -22,18 +52,97 @@ const Tooltip: React.FC<{ text: string; children: React.ReactNode }> = ({ text,
     </div>
 );
 
-const CodeWorkspace: React.FC<CodeWorkspaceProps> = ({ files, onFileContentChange, aiEnabled, onAskGigiToExplain, isChatting, onRunMod }) => {
+const ORIGIN_LABELS: Record<FileOrigin, string> = {
+    template: 'the form',
+    user: 'you',
+    ai: 'Gigi',
+};
+
+const CodeWorkspace = forwardRef<CodeWorkspaceHandle, CodeWorkspaceProps>(({ files, templateFiles, onFileContentChange, onResolveTemplateUpdate, onResetToTemplate, onAddFiles, onMovePath, onDeletePath, lastDeletedPath, onUndoDelete, onDismissUndoDelete, onSelectedFileChange, aiEnabled, onAskGigiToExplain, isChatting, onRunMod }, ref) => {
     const [selectedFile, setSelectedFile] = useState<string>('');
+    const [openFiles, setOpenFiles] = useState<string[]>([]);
+    const [sidebar, setSidebar] = useState<'files' | 'search'>('files');
+    const [searchQuery, setSearchQuery] = useState('');
+    // A selection to make once its file is showing in the editor
+    const [pendingSelection, setPendingSelection] = useState<{ path: string; start: number; end: number } | null>(null);
+    const [isMergeModalOpen, setIsMergeModalOpen] = useState<boolean>(false);
+    // Sprite sheet plists open on their frames; the raw XML is one click away
+    const [plistView, setPlistView] = useState<'atlas' | 'source'>('atlas');
+    const editorRef = useRef<CodeEditorHandle>(null);
+    // Undo history per file, kept while other files are open
+    const historiesRef = useRef<Record<string, EditHistory>>({});
+    // The last caret or selection in each file, so text can be inserted there from elsewhere
+    const selectionsRef = useRef<Record<string, { start: number; end: number }>>({});
+
+    const modJsonContent = files?.['mod.json']?.content;
+    const diagnostics = useMemo(
+        () => (modJsonContent !== undefined ? validateModJson(modJsonContent) : []),
+        [modJsonContent]
+    );
+
+    const plistContent = selectedFile.endsWith('.plist') ? files?.[selectedFile]?.content : undefined;
+    const spriteSheet = useMemo(() => {
+        if (plistContent === undefined) return null;
+        try {
+            return parseSpriteSheetPlist(plistContent);
+        } catch {
+            // Not a sprite sheet (or not valid XML yet): the plist is just text
+            return null;
+        }
+    }, [plistContent]);
     
     useEffect(() => {
         if (files) {
             const fileList = Object.keys(files);
-            // If no file is selected, or the selected file no longer exists, select the first available file.
-            if (!selectedFile || !files[selectedFile]) {
-                setSelectedFile(fileList.includes('mod.json') ? 'mod.json' : fileList[0] || '');
+            const stillOpen = openFiles.filter(path => files[path] !== undefined);
+            if (stillOpen.length !== openFiles.length) {
+                setOpenFiles(stillOpen);
+            }
+            // If no file is selected, or the selected file no longer exists, select the last open tab or the first available file.
+            if (!selectedFile || files[selectedFile] === undefined) {
+                const next = stillOpen[stillOpen.length - 1] ?? (fileList.includes('mod.json') ? 'mod.json' : fileList[0] || '');
+                setSelectedFile(next);
+                if (next && !stillOpen.includes(next)) {
+                    setOpenFiles([...stillOpen, next]);
+                }
             }
         }
-    }, [files, selectedFile]);
+    }, [files, selectedFile, openFiles]);
+
+    useEffect(() => {
+        onSelectedFileChange(selectedFile);
+    }, [selectedFile]);
+
+    useEffect(() => {
+        if (pendingSelection && pendingSelection.path === selectedFile) {
+            editorRef.current?.select(pendingSelection.start, pendingSelection.end);
+            setPendingSelection(null);
+        }
+    }, [pendingSelection, selectedFile]);
+
+    useImperativeHandle(ref, () => ({
+        getSelection: (path) => {
+            const selection = selectionsRef.current[path];
+            const content = files?.[path]?.content;
+            if (!selection || content === undefined) return null;
+            // The file may have shrunk since, e.g. after one of Gigi's edits
+            return { start: Math.min(selection.start, content.length), end: Math.min(selection.end, content.length) };
+        },
+        replaceRange: (path, start, end, text) => {
+            const content = files?.[path]?.content;
+            if (content === undefined) return;
+            historiesRef.current[path] = recordEdit(historiesRef.current[path] ?? createEditHistory(), { content, selectionStart: start, selectionEnd: end }, false);
+            onFileContentChange(path, content.slice(0, start) + text + content.slice(end));
+            selectionsRef.current[path] = { start, end: start + text.length };
+            setOpenFiles(prev => (prev.includes(path) ? prev : [...prev, path]));
+            setSelectedFile(path);
+            setPendingSelection({ path, start, end: start + text.length });
+        },
+        openFile: (path) => {
+            setOpenFiles(prev => (prev.includes(path) ? prev : [...prev, path]));
+            setSelectedFile(path);
+        },
+    }), [files, onFileContentChange]);
 
     if (!files || !selectedFile) {
         return (
@@ -43,26 +152,228 @@ const CodeWorkspace: React.FC<CodeWorkspaceProps> = ({ files, onFileContentChang
         );
     }
 
-    const currentFileContent = files[selectedFile] ?? '';
-    const isImageFile = selectedFile.endsWith('.png');
+    const currentFile = files[selectedFile];
+    const currentFileContent = currentFile?.content ?? '';
+    // Binary files can't be edited as text; images are shown, anything else only described
+    const isBinary = currentFile?.encoding === 'base64';
+    const isImage = isBinary && currentFile.mimeType.startsWith('image/');
+    const ownership = getFileOwnership(selectedFile, files, templateFiles);
+    // The texture is named relative to the plist, e.g. "MySheet-uhd.png" next to "assets/MySheet-uhd.plist"
+    const folder = selectedFile.split('/').slice(0, -1).join('/');
+    const texturePath = spriteSheet?.textureFileName
+        ? (folder ? `${folder}/${spriteSheet.textureFileName}` : spriteSheet.textureFileName)
+        : selectedFile.replace(/\.plist$/, '.png');
+    const showAtlas = spriteSheet !== null && plistView === 'atlas';
+    // A sheet's texture links back to the plist that describes it
+    const sheetPlistPath = isImage ? selectedFile.replace(/\.[^./]+$/, '.plist') : null;
+    const templateState = templateFiles[selectedFile];
 
-    const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        onFileContentChange(selectedFile, e.target.value);
-    }
+    const openFile = (path: string) => {
+        setOpenFiles(prev => (prev.includes(path) ? prev : [...prev, path]));
+        setSelectedFile(path);
+    };
+
+    const closeFile = (path: string) => {
+        const index = openFiles.indexOf(path);
+        const remaining = openFiles.filter(p => p !== path);
+        setOpenFiles(remaining);
+        if (path === selectedFile) {
+            // Fall back to the neighbouring tab, or let the effect above pick a file
+            setSelectedFile(remaining[Math.min(index, remaining.length - 1)] ?? '');
+        }
+    };
+
+    // Open tabs and undo history follow a file when it's renamed or its folder is moved
+    const handleMovePath = (from: string, to: string) => {
+        const movePath = (path: string) => (path === from || path.startsWith(`${from}/`) ? to + path.slice(from.length) : path);
+        setOpenFiles(prev => prev.map(movePath));
+        setSelectedFile(prev => movePath(prev));
+        historiesRef.current = Object.fromEntries(Object.entries(historiesRef.current).map(([path, history]) => [movePath(path), history]));
+        selectionsRef.current = Object.fromEntries(Object.entries(selectionsRef.current).map(([path, selection]) => [movePath(path), selection]));
+        onMovePath(from, to);
+    };
+
+    const getHistory = (path: string) => historiesRef.current[path] ?? createEditHistory();
+
+    const handleEdit = (next: EditSnapshot, before: EditSnapshot, group: boolean) => {
+        historiesRef.current[selectedFile] = recordEdit(getHistory(selectedFile), before, group);
+        onFileContentChange(selectedFile, next.content);
+    };
+
+    const handleUndo = (current: EditSnapshot): EditSnapshot | null => {
+        const result = undoEdit(getHistory(selectedFile), current);
+        if (!result) return null;
+        historiesRef.current[selectedFile] = result.history;
+        onFileContentChange(selectedFile, result.snapshot.content);
+        return result.snapshot;
+    };
+
+    const handleRedo = (current: EditSnapshot): EditSnapshot | null => {
+        const result = redoEdit(getHistory(selectedFile), current);
+        if (!result) return null;
+        historiesRef.current[selectedFile] = result.history;
+        onFileContentChange(selectedFile, result.snapshot.content);
+        return result.snapshot;
+    };
+
+    const handleFind = (selectedText: string) => {
+        // Only seed the search with a single-line selection
+        if (selectedText && !selectedText.includes('\n')) {
+            setSearchQuery(selectedText);
+        }
+        setSidebar('search');
+    };
+
+    const handleOpenMatch = (match: SearchMatch) => {
+        openFile(match.path);
+        setPendingSelection({ path: match.path, start: match.start, end: match.end });
+    };
+
+    const handleReplace = (changedFiles: GeneratedFiles) => {
+        // Each replaced file gets its own undo step
+        Object.entries(changedFiles).forEach(([path, content]) => {
+            historiesRef.current[path] = recordEdit(getHistory(path), { content: files[path].content, selectionStart: 0, selectionEnd: 0 }, false);
+            onFileContentChange(path, content);
+        });
+    };
+
+    const handleSheetChange = (sheet: SpriteSheetPlist) => {
+        historiesRef.current[selectedFile] = recordEdit(getHistory(selectedFile), { content: currentFileContent, selectionStart: 0, selectionEnd: 0 }, false);
+        onFileContentChange(selectedFile, generatePlist(sheet, sheet.textureFileName || texturePath.split('/').pop()!));
+    };
+
+    const jumpToLine = (line: number) => {
+        const lines = currentFileContent.split('\n');
+        const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+        const end = start + (lines[line - 1]?.length ?? 0);
+        editorRef.current?.select(start, end);
+    };
+
+    const showDiagnostics = selectedFile === 'mod.json' && diagnostics.length > 0;
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
     
     return (
         <div className="bg-geode-mantle rounded-lg shadow-lg border border-geode-surface overflow-hidden h-full flex min-h-[400px]">
             <div className="w-1/3 max-w-xs border-r border-geode-surface flex flex-col">
-                <FileExplorer 
-                    files={files} 
-                    selectedFile={selectedFile} 
-                    onFileSelect={(file) => setSelectedFile(file)}
-                />
+                <div className="flex border-b border-geode-surface bg-geode-crust">
+                    {([['files', 'Files', FileIcon], ['search', 'Search', SearchIcon]] as const).map(([id, label, Icon]) => (
+                        <button
+                            key={id}
+                            onClick={() => setSidebar(id)}
+                            className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-xs font-bold uppercase transition-colors ${sidebar === id ? 'text-geode-teal border-b-2 border-geode-teal' : 'text-geode-overlay hover:text-geode-light'}`}
+                        >
+                            <Icon className="h-4 w-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex-1 min-h-0">
+                    {sidebar === 'files' ? (
+                        <FileExplorer 
+                            files={files} 
+                            templateFiles={templateFiles}
+                            selectedFile={selectedFile} 
+                            onFileSelect={openFile}
+                            onAddFiles={onAddFiles}
+                            onMovePath={handleMovePath}
+                            onDeletePath={onDeletePath}
+                        />
+                    ) : (
+                        <SearchPanel
+                            files={files}
+                            query={searchQuery}
+                            onQueryChange={setSearchQuery}
+                            onOpenMatch={handleOpenMatch}
+                            onReplace={handleReplace}
+                        />
+                    )}
+                </div>
+                {lastDeletedPath && (
+                    <div className="flex items-center gap-2 px-3 py-2 border-t border-geode-surface bg-geode-mantle text-xs">
+                        <span className="flex-1 truncate text-geode-light" title={lastDeletedPath}>Deleted {lastDeletedPath}</span>
+                        <button onClick={onUndoDelete} className="font-bold text-geode-blue hover:text-geode-teal">Undo</button>
+                        <button onClick={onDismissUndoDelete} className="text-geode-overlay hover:text-geode-light" aria-label="Dismiss">&times;</button>
+                    </div>
+                )}
             </div>
-            <div className="w-2/3 flex flex-col">
+            <div className="w-2/3 flex flex-col min-w-0">
+                <div className="flex overflow-x-auto border-b border-geode-surface bg-geode-mantle" role="tablist">
+                    {openFiles.map(path => (
+                        <div
+                            key={path}
+                            role="tab"
+                            aria-selected={path === selectedFile}
+                            title={path}
+                            onClick={() => setSelectedFile(path)}
+                            // Middle click closes a tab, like in most editors
+                            onAuxClick={(e) => { if (e.button === 1) closeFile(path); }}
+                            className={`group flex items-center gap-2 pl-3 pr-2 py-1.5 text-xs font-mono whitespace-nowrap cursor-pointer border-r border-geode-surface transition-colors ${path === selectedFile ? 'bg-geode-crust text-geode-light' : 'text-geode-overlay hover:text-geode-light'}`}
+                        >
+                            {path.split('/').pop()}
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    closeFile(path);
+                                }}
+                                className={`text-geode-overlay hover:text-geode-light ${path === selectedFile ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                aria-label={`Close ${path}`}
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                </div>
                  <div className="flex justify-between items-center p-3 border-b border-geode-surface bg-geode-crust">
-                    <h3 className="font-mono text-sm text-geode-light">{selectedFile}</h3>
+                    <div className="flex items-center gap-2">
+                        <h3 className="font-mono text-sm text-geode-light">{selectedFile}</h3>
+                        {currentFile && (
+                            <span className="text-xs text-geode-overlay" title={`${currentFile.mimeType}, last changed by ${ORIGIN_LABELS[currentFile.origin]} on ${new Date(currentFile.updatedAt).toLocaleString()}`}>
+                                {formatFileSize(currentFile.size)}
+                            </span>
+                        )}
+                        {ownership === 'template' && <span className="text-xs text-geode-overlay bg-geode-surface px-1.5 py-0.5 rounded">Template</span>}
+                        {ownership === 'edited' && <span className="text-xs text-geode-crust bg-geode-blue px-1.5 py-0.5 rounded">Edited</span>}
+                        {sheetPlistPath && files[sheetPlistPath] && (
+                            <button
+                                onClick={() => {
+                                    setPlistView('atlas');
+                                    openFile(sheetPlistPath);
+                                }}
+                                className="text-xs text-geode-blue hover:text-geode-teal"
+                            >
+                                View Frames
+                            </button>
+                        )}
+                        {spriteSheet && (
+                            <div className="flex rounded-md border border-geode-surface overflow-hidden text-xs">
+                                {(['atlas', 'source'] as const).map(view => (
+                                    <button
+                                        key={view}
+                                        onClick={() => setPlistView(view)}
+                                        className={`px-2 py-0.5 capitalize transition-colors ${plistView === view ? 'bg-geode-surface text-geode-light' : 'text-geode-overlay hover:text-geode-light'}`}
+                                    >
+                                        {view}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {selectedFile === 'mod.json' && errorCount > 0 && <span className="text-xs text-geode-crust bg-geode-red px-1.5 py-0.5 rounded">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+                        {selectedFile === 'mod.json' && warningCount > 0 && <span className="text-xs text-geode-crust bg-geode-yellow px-1.5 py-0.5 rounded">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>}
+                    </div>
                      <div className="flex items-center gap-4">
+                        {ownership === 'edited' && !isBinary && (
+                            <button
+                                onClick={() => {
+                                    if (window.confirm(`Discard your edits to ${selectedFile} and restore the template version?`)) {
+                                        onResetToTemplate(selectedFile);
+                                    }
+                                }}
+                                className="text-sm text-geode-overlay hover:text-geode-light transition-colors"
+                            >
+                                Reset to Template
+                            </button>
+                        )}
                         <button 
                             onClick={onRunMod}
                             className="flex items-center gap-1.5 text-sm text-geode-green hover:text-opacity-80 transition-colors"
@@ -71,44 +382,102 @@ const CodeWorkspace: React.FC<CodeWorkspaceProps> = ({ files, onFileContentChang
                             <PlayIcon className="h-4 w-4" />
                             Run Mod
                         </button>
-                        {!isImageFile && (
-                            <Tooltip text="Note: Manual edits will be discarded if you change any settings in the form on the left.">
+                        {!isBinary && (
+                            <Tooltip text={ownership === 'custom'
+                                ? "This file isn't generated from the form, so form changes never touch it."
+                                : "Edited files are never overwritten by the form. If a form change affects them, you'll be asked to review the update."}>
                                 <InfoIcon className="h-4 w-4 text-geode-overlay" />
                             </Tooltip>
                         )}
                     </div>
                 </div>
-                <div className="flex-1 overflow-auto bg-geode-crust relative">
-                    {isImageFile ? (
-                        <div className="w-full h-full p-4 flex items-center justify-center">
+                {templateState?.pendingUpdate !== undefined && ownership === 'edited' && (
+                    <div className="flex justify-between items-center gap-3 px-3 py-2 bg-geode-blue/10 border-b border-geode-surface text-sm">
+                        <span className="text-geode-blue">Your form changes affect this edited file.</span>
+                        <button onClick={() => setIsMergeModalOpen(true)} className="font-bold text-geode-blue hover:text-geode-teal">
+                            Review Update
+                        </button>
+                    </div>
+                )}
+                {showAtlas ? (
+                    <AtlasViewer
+                        key={selectedFile}
+                        sheet={spriteSheet}
+                        texture={files[texturePath]}
+                        texturePath={texturePath}
+                        onChange={handleSheetChange}
+                    />
+                ) : isImage && selectedFile.startsWith('assets/') && selectedFile !== 'assets/logo.png' ? (
+                    <QualityVariantsPanel
+                        path={selectedFile}
+                        files={files}
+                        onAddFiles={(generated) => onAddFiles(writeFiles({}, generated, 'user'))}
+                    />
+                ) : isBinary ? (
+                    <div className="flex-1 overflow-auto bg-geode-crust p-4 flex flex-col items-center justify-center gap-3">
+                        {isImage ? (
                             <img 
-                                src={`data:image/png;base64,${currentFileContent}`} 
+                                src={`data:${currentFile.mimeType};base64,${currentFileContent}`} 
                                 alt={selectedFile}
                                 className="max-w-full max-h-full object-contain border border-geode-surface rounded-md"
                             />
-                        </div>
-                    ) : (
-                        <textarea
-                            value={currentFileContent}
-                            onChange={handleContentChange}
-                            className="w-full h-full p-4 bg-transparent text-sm text-geode-light font-mono resize-none border-none outline-none leading-relaxed"
-                            spellCheck="false"
-                        />
-                    )}
-                </div>
+                        ) : currentFile.mimeType.startsWith('audio/') ? (
+                            <audio controls src={`data:${currentFile.mimeType};base64,${currentFileContent}`} />
+                        ) : (
+                            <p className="text-sm text-geode-overlay">Binary file ({currentFile.mimeType}, {formatFileSize(currentFile.size)})</p>
+                        )}
+                    </div>
+                ) : (
+                    <CodeEditor
+                        key={selectedFile}
+                        ref={editorRef}
+                        value={currentFileContent}
+                        language={getEditorLanguage(selectedFile)}
+                        onChange={handleEdit}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        onFind={handleFind}
+                        onSelectionChange={(start, end) => { selectionsRef.current[selectedFile] = { start, end }; }}
+                    />
+                )}
+                {showDiagnostics && (
+                    <ul className="max-h-32 overflow-y-auto border-t border-geode-surface bg-geode-crust text-xs font-mono">
+                        {diagnostics.map((diagnostic, i) => (
+                            <li key={i}>
+                                <button
+                                    onClick={() => jumpToLine(diagnostic.line)}
+                                    className={`w-full text-left px-3 py-1 hover:bg-geode-surface transition-colors ${diagnostic.severity === 'error' ? 'text-geode-red' : 'text-geode-yellow'}`}
+                                >
+                                    <span className="text-geode-overlay">Line {diagnostic.line}:</span> {diagnostic.message}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
                 <div className="border-t border-geode-surface bg-geode-crust p-3">
                     <button 
                         onClick={() => onAskGigiToExplain(selectedFile)} 
-                        disabled={!aiEnabled || isChatting || isImageFile} 
+                        disabled={!aiEnabled || isChatting || isBinary} 
                         className="w-full flex items-center justify-center gap-2 bg-geode-blue/20 text-geode-blue font-bold py-2 px-4 rounded-md hover:bg-geode-blue/30 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
                     >
                        {isChatting ? <LoadingIcon className="animate-spin h-5 w-5" /> : <SparklesIcon className="h-5 w-s5" />}
-                       {isImageFile ? 'Ask about text files' : (isChatting ? 'Gigi is thinking...' : 'Ask Gigi to Explain This File')}
+                       {isBinary ? 'Ask about text files' : (isChatting ? 'Gigi is thinking...' : 'Ask Gigi to Explain This File')}
                     </button>
                 </div>
             </div>
+            {templateState?.pendingUpdate !== undefined && (
+                <TemplateMergeModal
+                    isOpen={isMergeModalOpen}
+                    onClose={() => setIsMergeModalOpen(false)}
+                    path={selectedFile}
+                    base={templateState.base}
+                    ours={currentFileContent}
+                    theirs={templateState.pendingUpdate}
+                    onResolve={(content) => onResolveTemplateUpdate(selectedFile, content)}
+                />
+            )}
         </div>
     );
-}
+});
 
-export default CodeWorkspace;
\ No newline at end of file
+export default CodeWorkspace;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { diffLines } from '../services/diff';
+
+interface DiffViewProps {
+    oldText: string;
+    newText: string;
+    className?: string;
+}
+
+export const LINE_STYLES = {
+    equal: 'text-geode-light',
+    added: 'bg-geode-green/10 text-geode-green',
+    removed: 'bg-geode-red/10 text-geode-red',
+};
+
+export const LINE_PREFIX = { equal: ' ', added: '+', removed: '-' };
+
+const DiffView: React.FC<DiffViewProps> = ({ oldText, newText, className = '' }) => {
+    const lines = useMemo(() => diffLines(oldText, newText), [oldText, newText]);
+    const hasChanges = lines.some(line => line.type !== 'equal');
+
+    if (!hasChanges) {
+        return <p className="text-sm text-geode-overlay text-center py-4">No changes.</p>;
+    }
+
+    return (
+        <div className={`font-mono text-xs overflow-auto ${className}`}>
+            {lines.map((line, i) => (
+                <div key={i} className={`flex whitespace-pre ${LINE_STYLES[line.type]}`}>
+                    <span className="w-10 shrink-0 text-right pr-2 text-geode-overlay select-none">{line.oldLine ?? ''}</span>
+                    <span className="w-10 shrink-0 text-right pr-2 text-geode-overlay select-none">{line.newLine ?? ''}</span>
+                    <span className="w-4 shrink-0 select-none">{LINE_PREFIX[line.type]}</span>
+                    <span>{line.text}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default DiffView;
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ProposedFileChange, VirtualFileSystem } from '../types';
+import { applyFileChange, getFileChangeHunks, hasFileChangedSince } from '../services/fileChanges';
+import { locateHunks, type PatchHunk } from '../services/patch';
+import DiffView, { LINE_STYLES, LINE_PREFIX } from './DiffView';
+import { SparklesIcon, InfoIcon } from './IconComponents';
+
+interface FileChangeModalProps {
+    change: ProposedFileChange | null; // the modal is open while set
+    files: VirtualFileSystem | null;
+    onClose: () => void;
+    onResolve: (changeId: string, accept: boolean, selectedHunks?: number[]) => void;
+}
+
+const PATCH_LINE_TYPES = { context: 'equal', added: 'added', removed: 'removed' } as const;
+
+const HunkView: React.FC<{ hunk: PatchHunk; line: number | null; checked: boolean; onToggle: () => void }> = ({ hunk, line, checked, onToggle }) => {
+    // The hunk's first line in the file now; insertions ("-n,0") name the line they follow
+    const start = line === null ? hunk.oldStart : hunk.oldLines === 0 ? line : line + 1;
+    let oldLine = hunk.oldLines === 0 ? start + 1 : start;
+    let newLine = hunk.newStart;
+    return (
+        <div className={`rounded-md border ${line === null ? 'border-geode-red' : 'border-geode-surface'} overflow-hidden`}>
+            <label className="flex items-center gap-2 px-2 py-1 bg-geode-surface/50 text-xs font-mono cursor-pointer">
+                <input type="checkbox" checked={checked} disabled={line === null} onChange={onToggle} className="accent-geode-teal" />
+                <span className="text-geode-overlay">@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+                {line === null
+                    ? <span className="ml-auto text-geode-red font-sans">Conflict: these lines changed since Gigi read the file</span>
+                    : start !== hunk.oldStart && <span className="ml-auto text-geode-overlay font-sans">Moved to line {start}</span>}
+            </label>
+            <div className="font-mono text-xs overflow-x-auto bg-geode-crust">
+                {hunk.lines.map((patchLine, i) => {
+                    const type = PATCH_LINE_TYPES[patchLine.type];
+                    const numbers = [type !== 'added' ? oldLine++ : '', type !== 'removed' ? newLine++ : ''];
+                    return (
+                        <div key={i} className={`flex whitespace-pre ${LINE_STYLES[type]}`}>
+                            <span className="w-10 shrink-0 text-right pr-2 text-geode-overlay select-none">{numbers[0]}</span>
+                            <span className="w-10 shrink-0 text-right pr-2 text-geode-overlay select-none">{numbers[1]}</span>
+                            <span className="w-4 shrink-0 select-none">{LINE_PREFIX[type]}</span>
+                            <span>{patchLine.text}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Reviews one of Gigi's proposed file changes against the project as it is
+ * now. Edits are shown hunk by hunk so they can be applied selectively;
+ * hunks whose lines changed since Gigi proposed them are flagged as
+ * conflicts and can't be applied.
+ */
+const FileChangeModal: React.FC<FileChangeModalProps> = ({ change, files, onClose, onResolve }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [selected, setSelected] = useState<number[]>([]);
+
+    const review = useMemo(() => {
+        if (!change) return null;
+        const current = files?.[change.path];
+        const oldText = current?.encoding === 'utf8' ? current.content : '';
+        try {
+            const isTextEdit = (change.action === 'update' || change.action === 'patch') && current?.encoding === 'utf8';
+            const hunks = isTextEdit ? getFileChangeHunks(change, oldText) : [];
+            const placements = locateHunks(oldText, hunks);
+            // Whole-file views for creating, deleting and replacing binary files
+            const newText = isTextEdit ? '' : applyFileChange(change, files ?? {}).content ?? '';
+            return { oldText, newText, isTextEdit, hunks, placements, error: null };
+        } catch (e) {
+            return { oldText, newText: oldText, isTextEdit: false, hunks: [], placements: [], error: e instanceof Error ? e.message : String(e) };
+        }
+    }, [change, files]);
+
+    useEffect(() => {
+        setIsAnimatingOut(false);
+        // Every hunk that still applies starts out selected
+        setSelected(review ? review.placements.flatMap((line, i) => (line === null ? [] : [i])) : []);
+    }, [change?.id, review]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const resolve = (accept: boolean) => {
+        if (!change || !review) return;
+        onResolve(change.id, accept, accept && review.isTextEdit ? selected : undefined);
+        handleClose();
+    };
+
+    if (!change || !review) {
+        return null;
+    }
+
+    const isPending = change.status === 'pending';
+    const conflicts = review.placements.filter(line => line === null).length;
+    const changedSince = hasFileChangedSince(change, files ?? {});
+    const toggleHunk = (index: number) => {
+        setSelected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)));
+    };
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-4xl max-h-full flex flex-col transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3 min-w-0">
+                        <SparklesIcon className="h-6 w-6 text-geode-teal shrink-0" />
+                        <span className="truncate font-mono text-base">{change.path}</span>
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-4 overflow-auto min-h-0 space-y-3">
+                    {isPending && changedSince && (
+                        <p className="flex items-start gap-2 text-sm text-geode-yellow">
+                            <InfoIcon className="h-5 w-5 shrink-0" />
+                            {change.baseContent === null
+                                ? `${change.path} was created after Gigi proposed this. Accepting replaces it.`
+                                : `${change.path} changed after Gigi proposed this. ${conflicts > 0 ? `${conflicts} hunk${conflicts === 1 ? '' : 's'} no longer match${conflicts === 1 ? 'es' : ''} and can't be applied.` : 'Every hunk still applies.'}`}
+                        </p>
+                    )}
+                    {review.error ? (
+                        <p className="text-sm text-geode-red">{review.error}</p>
+                    ) : review.isTextEdit ? (
+                        review.hunks.length === 0
+                            ? <p className="text-sm text-geode-overlay text-center py-4">No changes.</p>
+                            : review.hunks.map((hunk, i) => (
+                                <HunkView key={i} hunk={hunk} line={review.placements[i]} checked={selected.includes(i)} onToggle={() => toggleHunk(i)} />
+                            ))
+                    ) : (
+                        <>
+                            {change.action === 'delete' && <p className="text-sm text-geode-overlay">Gigi wants to delete this file.</p>}
+                            <DiffView oldText={review.oldText} newText={review.newText} className="bg-geode-crust rounded-md p-2 max-h-[60vh]" />
+                        </>
+                    )}
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end items-center gap-3">
+                    {isPending ? (
+                        <>
+                            {review.isTextEdit && (
+                                <span className="mr-auto text-xs text-geode-overlay">{selected.length} of {review.hunks.length} hunks selected</span>
+                            )}
+                            <button
+                                onClick={() => resolve(false)}
+                                className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                            >
+                                Reject
+                            </button>
+                            <button
+                                onClick={() => resolve(true)}
+                                disabled={review.error !== null || (review.isTextEdit && selected.length === 0)}
+                                className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
+                            >
+                                {review.isTextEdit && selected.length < review.hunks.length ? 'Apply Selected' : 'Accept'}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={handleClose}
+                            className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                        >
+                            Close
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FileChangeModal;
@@ -1,30 +1,78 @@
-import React from 'react';
-import type { GeneratedFiles } from '../types';
-import { CppIcon, JsonIcon, TxtIcon, GithubIcon, GitignoreIcon, MarkdownIcon, FolderIcon, FileIcon, ImageIcon } from './IconComponents';
+import React, { useState, useEffect, useRef } from 'react';
+import type { VirtualFileSystem, TemplateFileStates, FileOrigin } from '../types';
+import { getFileOwnership } from '../services/fileOwnership';
+import { isUploadableFile, UPLOADABLE_FILE_EXTENSIONS } from '../services/fileUtils';
+import { createVirtualFile, readVirtualFile, formatFileSize } from '../services/vfs';
+import { normalizeFilePath, getPathError, getDefaultUploadFolder, FOLDER_PLACEHOLDER } from '../services/fileOperations';
+import { CppIcon, JsonIcon, TxtIcon, GithubIcon, GitignoreIcon, MarkdownIcon, FolderIcon, FileIcon, ImageIcon, UploadIcon } from './IconComponents';
 
 interface FileExplorerProps {
-    files: GeneratedFiles | null;
+    files: VirtualFileSystem | null;
+    templateFiles: TemplateFileStates;
     selectedFile: string;
     onFileSelect: (file: string) => void;
+    onAddFiles: (files: VirtualFileSystem) => void;
+    onMovePath: (from: string, to: string) => void;
+    onDeletePath: (path: string) => void;
+}
+
+// Dragging a file inside the tree carries its path under this type
+const DRAG_PATH_TYPE = 'application/x-geode-path';
+
+// A name being typed inline: a new file or folder inside `parent`, or a rename of `path`
+type PendingName =
+    | { mode: 'new-file' | 'new-folder'; parent: string }
+    | { mode: 'rename'; path: string };
+
+interface ContextMenuState {
+    x: number;
+    y: number;
+    path: string; // '' for the project root
+    isFolder: boolean;
+}
+
+// Everything the recursive tree needs besides the tree itself
+interface TreeActions {
+    files: VirtualFileSystem;
+    templateFiles: TemplateFileStates;
+    selectedFile: string;
+    onFileSelect: (file: string) => void;
+    pendingName: PendingName | null;
+    dropTarget: string | null;
+    onContextMenu: (e: React.MouseEvent, path: string, isFolder: boolean) => void;
+    onSubmitName: (value: string) => string | null;
+    onCancelName: () => void;
+    onDragOverFolder: (e: React.DragEvent, folder: string) => void;
+    onDropOnFolder: (e: React.DragEvent, folder: string) => void;
 }
 
 const getIcon = (fileName: string) => {
     if (fileName.endsWith('.png')) return <ImageIcon className="h-4 w-4" />;
     if (fileName.endsWith('.json')) return <JsonIcon className="h-4 w-4" />;
-    if (fileName.endsWith('.cpp')) return <CppIcon className="h-4 w-4" />;
+    if (/\.(cpp|hpp|h)$/.test(fileName)) return <CppIcon className="h-4 w-4" />;
     if (fileName.endsWith('.md')) return <MarkdownIcon className="h-4 w-4" />;
     if (fileName.endsWith('.yml')) return <GithubIcon className="h-4 w-4" />;
     if (fileName.endsWith('.plist')) return <TxtIcon className="h-4 w-4" />;
     if (fileName.includes('CMakeLists')) return <TxtIcon className="h-4 w-4" />;
     if (fileName.includes('.gitignore')) return <GitignoreIcon className="h-4 w-4" />;
-    if (fileName.includes('.gitkeep')) return <FileIcon className="h-4 w-4" />;
+    if (/\.(gitkeep|ogg|mp3|wav|ttf|otf)$/.test(fileName)) return <FileIcon className="h-4 w-4" />;
     return <TxtIcon className="h-4 w-4" />;
 };
 
-const buildFileTree = (files: GeneratedFiles) => {
+const ORIGIN_LABELS: Record<FileOrigin, string> = {
+    template: 'Generated from the form',
+    user: 'Added by you',
+    ai: 'Written by Gigi',
+};
+
+const getParentFolder = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+const joinPath = (folder: string, name: string): string => (folder ? `${folder}/${name}` : name);
+
+const buildFileTree = (files: VirtualFileSystem) => {
     const tree: any = {};
     Object.keys(files).forEach(path => {
-        if (files[path] === undefined) return; 
+        if (files[path] === undefined) return;
         const parts = path.split('/');
         let currentLevel = tree;
         parts.forEach((part, index) => {
@@ -41,14 +89,79 @@ const buildFileTree = (files: GeneratedFiles) => {
     return tree;
 };
 
+/**
+ * An inline text field for naming a file or folder. Enter or leaving the
+ * field submits; Escape cancels. Invalid names keep the field open.
+ */
+const NameInput: React.FC<{ initialValue: string; placeholder: string; onSubmit: (value: string) => string | null; onCancel: () => void }> = ({ initialValue, placeholder, onSubmit, onCancel }) => {
+    const [value, setValue] = useState(initialValue);
+    const [error, setError] = useState<string | null>(null);
+    // The field blurs as it unmounts, which mustn't submit a second time
+    const isDoneRef = useRef(false);
+
+    const cancel = () => {
+        isDoneRef.current = true;
+        onCancel();
+    };
+
+    const submit = (e?: React.FormEvent) => {
+        e?.preventDefault();
+        if (isDoneRef.current) return;
+        if (!value.trim()) {
+            cancel();
+            return;
+        }
+        const submitError = onSubmit(value);
+        isDoneRef.current = submitError === null;
+        setError(submitError);
+    };
+
+    return (
+        <form onSubmit={submit} className="px-2 py-0.5">
+            <input
+                type="text"
+                value={value}
+                onChange={(e) => {
+                    setValue(e.target.value);
+                    setError(null);
+                }}
+                onBlur={() => submit()}
+                onKeyDown={(e) => { if (e.key === 'Escape') cancel(); }}
+                onFocus={(e) => {
+                    // Select the name without its extension, like most file managers
+                    const dot = e.target.value.lastIndexOf('.');
+                    e.target.setSelectionRange(0, dot > 0 ? dot : e.target.value.length);
+                }}
+                placeholder={placeholder}
+                autoFocus
+                className={`w-full bg-geode-mantle border rounded-md px-2 py-0.5 text-sm text-geode-light focus:outline-none focus:ring-2 ${error ? 'border-geode-red focus:ring-geode-red' : 'border-geode-surface focus:ring-geode-teal'}`}
+            />
+            {error && <p className="text-xs text-geode-red mt-1">{error}</p>}
+        </form>
+    );
+};
+
 const FileTree: React.FC<{
     tree: any;
-    selectedFile: string;
-    onFileSelect: (file: string) => void;
+    folderPath: string;
+    actions: TreeActions;
     level?: number;
-}> = ({ tree, selectedFile, onFileSelect, level = 0 }) => {
+}> = ({ tree, folderPath, actions, level = 0 }) => {
+    const { files, templateFiles, selectedFile, onFileSelect, pendingName } = actions;
+    const isCreatingHere = pendingName && pendingName.mode !== 'rename' && pendingName.parent === folderPath;
+
     return (
         <ul className="space-y-1">
+            {isCreatingHere && (
+                <li style={{ paddingLeft: `${level * 1}rem` }}>
+                    <NameInput
+                        initialValue=""
+                        placeholder={pendingName.mode === 'new-file' ? 'File name' : 'Folder name'}
+                        onSubmit={actions.onSubmitName}
+                        onCancel={actions.onCancelName}
+                    />
+                </li>
+            )}
             {Object.keys(tree).sort((a,b) => {
                 const aIsFolder = !tree[a]._path;
                 const bIsFolder = !tree[b]._path;
@@ -58,33 +171,66 @@ const FileTree: React.FC<{
             }).map(key => {
                 const node = tree[key];
                 const isFolder = !node._path;
+                const path = isFolder ? joinPath(folderPath, key) : node._path as string;
+                const isRenaming = pendingName?.mode === 'rename' && pendingName.path === path;
+                const renameInput = isRenaming && (
+                    <div style={{ paddingLeft: `${level * 1}rem` }}>
+                        <NameInput initialValue={key} placeholder="Name" onSubmit={actions.onSubmitName} onCancel={actions.onCancelName} />
+                    </div>
+                );
+                const dragProps = {
+                    draggable: !isRenaming,
+                    onDragStart: (e: React.DragEvent) => {
+                        e.dataTransfer.setData(DRAG_PATH_TYPE, path);
+                        e.dataTransfer.effectAllowed = 'move';
+                    },
+                    onContextMenu: (e: React.MouseEvent) => actions.onContextMenu(e, path, isFolder),
+                };
 
                 if (isFolder) {
                     return (
-                        <li key={key}>
-                            <div className="flex items-center gap-2 text-geode-light" style={{ paddingLeft: `${level * 1}rem` }}>
-                                <FolderIcon className="h-5 w-5 text-geode-blue" />
-                                <span className="text-sm font-semibold">{key}</span>
-                            </div>
+                        <li
+                            key={key}
+                            onDragOver={(e) => actions.onDragOverFolder(e, path)}
+                            onDrop={(e) => actions.onDropOnFolder(e, path)}
+                            className={`rounded-md ${actions.dropTarget === path ? 'bg-geode-teal/10 ring-1 ring-geode-teal' : ''}`}
+                        >
+                            {renameInput || (
+                                <div {...dragProps} className="flex items-center gap-2 text-geode-light cursor-default" style={{ paddingLeft: `${level * 1}rem` }}>
+                                    <FolderIcon className="h-5 w-5 text-geode-blue" />
+                                    <span className="text-sm font-semibold">{key}</span>
+                                </div>
+                            )}
                             <div className="mt-1">
-                                <FileTree tree={node} selectedFile={selectedFile} onFileSelect={onFileSelect} level={level + 1} />
+                                <FileTree tree={node} folderPath={path} actions={actions} level={level + 1} />
                             </div>
                         </li>
                     );
                 } else {
-                    const path = node._path as string;
+                    const isEdited = getFileOwnership(path, files, templateFiles) === 'edited';
+                    const hasPendingUpdate = isEdited && templateFiles[path]?.pendingUpdate !== undefined;
+                    const file = files[path];
                     return (
                         <li key={path}>
-                            <button
-                                onClick={() => onFileSelect(path)}
-                                className={`w-full flex items-center gap-2 px-2 py-1 text-left rounded-md transition-colors ${
-                                    selectedFile === path ? 'bg-geode-surface text-geode-teal' : 'text-geode-light hover:bg-geode-surface/50'
-                                }`}
-                                style={{ paddingLeft: `${level * 1 + 0.5}rem` }}
-                            >
-                                {getIcon(path)}
-                                <span className="text-sm">{key}</span>
-                            </button>
+                            {renameInput || (
+                                <button
+                                    {...dragProps}
+                                    onClick={() => onFileSelect(path)}
+                                    title={`${path}\n${file.mimeType}, ${formatFileSize(file.size)}\n${ORIGIN_LABELS[file.origin]}, ${new Date(file.updatedAt).toLocaleString()}`}
+                                    className={`w-full flex items-center gap-2 px-2 py-1 text-left rounded-md transition-colors ${
+                                        selectedFile === path ? 'bg-geode-surface text-geode-teal' : 'text-geode-light hover:bg-geode-surface/50'
+                                    }`}
+                                    style={{ paddingLeft: `${level * 1 + 0.5}rem` }}
+                                >
+                                    {getIcon(path)}
+                                    <span className="text-sm">{key}</span>
+                                    {hasPendingUpdate ? (
+                                        <span className="ml-auto text-xs text-geode-blue" title="The template has an update for this edited file">↻</span>
+                                    ) : isEdited && (
+                                        <span className="ml-auto h-1.5 w-1.5 rounded-full bg-geode-blue" title="Edited"></span>
+                                    )}
+                                </button>
+                            )}
                         </li>
                     );
                 }
@@ -94,7 +240,27 @@ const FileTree: React.FC<{
 };
 
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onFileSelect }) => {
+const FileExplorer: React.FC<FileExplorerProps> = ({ files, templateFiles, selectedFile, onFileSelect, onAddFiles, onMovePath, onDeletePath }) => {
+    const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+    const [pendingName, setPendingName] = useState<PendingName | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const uploadInputRef = useRef<HTMLInputElement>(null);
+    const uploadFolderRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!contextMenu) return;
+        const close = () => setContextMenu(null);
+        const closeOnEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+        window.addEventListener('click', close);
+        window.addEventListener('blur', close);
+        window.addEventListener('keydown', closeOnEscape);
+        return () => {
+            window.removeEventListener('click', close);
+            window.removeEventListener('blur', close);
+            window.removeEventListener('keydown', closeOnEscape);
+        };
+    }, [contextMenu]);
 
     if (!files) {
         return (
@@ -103,17 +269,181 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onFile
             </div>
         );
     }
-    
+
     const fileTree = buildFileTree(files);
 
+    // Names typed inline are relative to their folder; slashes create subfolders
+    const submitName = (value: string): string | null => {
+        if (!pendingName) return null;
+        const parent = pendingName.mode === 'rename' ? getParentFolder(pendingName.path) : pendingName.parent;
+        const path = normalizeFilePath(joinPath(parent, value));
+        const pathError = getPathError(files, path, pendingName.mode === 'rename' ? pendingName.path : undefined);
+        if (pathError) return pathError;
+
+        if (pendingName.mode === 'new-file') {
+            onAddFiles({ [path]: createVirtualFile(path, '', 'user') });
+            onFileSelect(path);
+        } else if (pendingName.mode === 'new-folder') {
+            const placeholder = `${path}/${FOLDER_PLACEHOLDER}`;
+            onAddFiles({ [placeholder]: createVirtualFile(placeholder, '', 'user') });
+        } else if (path !== pendingName.path) {
+            onMovePath(pendingName.path, path);
+        }
+        setPendingName(null);
+        return null;
+    };
+
+    const uploadFiles = async (fileList: FileList | File[], folder: string | null) => {
+        const uploads = Array.from(fileList);
+        const unsupported = uploads.filter(file => !isUploadableFile(file.name));
+        const supported = uploads.filter(file => isUploadableFile(file.name));
+        setError(unsupported.length > 0
+            ? `Skipped ${unsupported.map(file => file.name).join(', ')}: only ${UPLOADABLE_FILE_EXTENSIONS.join(' ')} files can be added.`
+            : null);
+        if (supported.length === 0) return;
+
+        const targets = supported.map(file => normalizeFilePath(joinPath(folder ?? getDefaultUploadFolder(file.name), file.name)));
+        const existing = targets.filter(path => files[path] !== undefined);
+        if (existing.length > 0 && !window.confirm(`Replace ${existing.join(', ')}?`)) return;
+
+        const added: VirtualFileSystem = {};
+        await Promise.all(supported.map(async (file, i) => {
+            added[targets[i]] = await readVirtualFile(file, targets[i]);
+        }));
+        onAddFiles(added);
+    };
+
+    const moveInto = (path: string, folder: string) => {
+        const name = path.split('/').pop() ?? path;
+        const target = joinPath(folder, name);
+        if (target === path) return;
+        const pathError = getPathError(files, target, path);
+        if (pathError) {
+            setError(pathError);
+            return;
+        }
+        setError(null);
+        onMovePath(path, target);
+    };
+
+    const handleDragOver = (e: React.DragEvent, folder: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = e.dataTransfer.types.includes(DRAG_PATH_TYPE) ? 'move' : 'copy';
+        setDropTarget(folder);
+    };
+
+    const handleDrop = (e: React.DragEvent, folder: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+        const draggedPath = e.dataTransfer.getData(DRAG_PATH_TYPE);
+        if (draggedPath) {
+            moveInto(draggedPath, folder);
+        } else if (e.dataTransfer.files.length > 0) {
+            // Files dropped on the empty area go to src/ or assets/ depending on their type
+            uploadFiles(e.dataTransfer.files, folder || null);
+        }
+    };
+
+    const openContextMenu = (e: React.MouseEvent, path: string, isFolder: boolean) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setContextMenu({ x: e.clientX, y: e.clientY, path, isFolder });
+    };
+
+    const startUpload = (folder: string | null) => {
+        uploadFolderRef.current = folder;
+        uploadInputRef.current?.click();
+    };
+
+    const actions: TreeActions = {
+        files,
+        templateFiles,
+        selectedFile,
+        onFileSelect,
+        pendingName,
+        dropTarget,
+        onContextMenu: openContextMenu,
+        onSubmitName: submitName,
+        onCancelName: () => setPendingName(null),
+        onDragOverFolder: handleDragOver,
+        onDropOnFolder: handleDrop,
+    };
+
+    const menuFolder = contextMenu ? (contextMenu.isFolder ? contextMenu.path : getParentFolder(contextMenu.path)) : '';
+    const menuItems: { label: string; onClick: () => void; danger?: boolean }[] = contextMenu ? [
+        { label: 'New File', onClick: () => setPendingName({ mode: 'new-file', parent: menuFolder }) },
+        { label: 'New Folder', onClick: () => setPendingName({ mode: 'new-folder', parent: menuFolder }) },
+        { label: 'Upload Files…', onClick: () => startUpload(menuFolder) },
+        ...(contextMenu.path ? [
+            { label: 'Rename', onClick: () => setPendingName({ mode: 'rename', path: contextMenu.path }) },
+            { label: 'Delete', onClick: () => onDeletePath(contextMenu.path), danger: true },
+        ] : []),
+    ] : [];
+
     return (
-        <div className="bg-geode-crust h-full flex flex-col">
+        <div
+            className={`bg-geode-crust h-full flex flex-col ${dropTarget === '' ? 'ring-1 ring-inset ring-geode-teal' : ''}`}
+            onContextMenu={(e) => openContextMenu(e, '', true)}
+            onDragOver={(e) => handleDragOver(e, '')}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, '')}
+        >
             <div className="flex-1 p-3 overflow-y-auto">
-                <h3 className="text-xs font-bold uppercase text-geode-overlay mb-3 px-2">Project Files</h3>
-                <FileTree tree={fileTree} selectedFile={selectedFile} onFileSelect={onFileSelect} />
+                <div className="flex items-center justify-between mb-3 px-2">
+                    <h3 className="text-xs font-bold uppercase text-geode-overlay">Project Files</h3>
+                    <div className="flex items-center gap-2 text-xs">
+                        <button onClick={() => setPendingName({ mode: 'new-file', parent: '' })} className="text-geode-overlay hover:text-geode-light" title="New file">+ File</button>
+                        <button onClick={() => setPendingName({ mode: 'new-folder', parent: '' })} className="text-geode-overlay hover:text-geode-light" title="New folder">+ Folder</button>
+                        <button onClick={() => startUpload(null)} className="text-geode-overlay hover:text-geode-light" aria-label="Upload files" title="Upload sprites, sounds, fonts or C++ files">
+                            <UploadIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                </div>
+                {error && (
+                    <p className="text-xs text-geode-red px-2 mb-2">{error}</p>
+                )}
+                <FileTree tree={fileTree} folderPath="" actions={actions} />
             </div>
+            <input
+                ref={uploadInputRef}
+                type="file"
+                multiple
+                accept={UPLOADABLE_FILE_EXTENSIONS.join(',')}
+                className="hidden"
+                onChange={(e) => {
+                    if (e.target.files) uploadFiles(e.target.files, uploadFolderRef.current);
+                    e.target.value = '';
+                }}
+            />
+            {contextMenu && (
+                <ul
+                    role="menu"
+                    className="fixed z-50 min-w-[10rem] py-1 bg-geode-mantle border border-geode-surface rounded-md shadow-xl text-sm"
+                    style={{ left: contextMenu.x, top: contextMenu.y }}
+                    onContextMenu={(e) => e.preventDefault()}
+                >
+                    {menuItems.map(item => (
+                        <li key={item.label}>
+                            <button
+                                role="menuitem"
+                                onClick={() => {
+                                    setContextMenu(null);
+                                    item.onClick();
+                                }}
+                                className={`w-full text-left px-3 py-1.5 hover:bg-geode-surface ${item.danger ? 'text-geode-red' : 'text-geode-light'}`}
+                            >
+                                {item.label}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
         </div>
     );
 };
 
-export default FileExplorer;
\ No newline at end of file
+export default FileExplorer;
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { importProjectFromZip, importProjectFromFiles } from '../services/modImporter';
+import type { ImportedProject } from '../services/modImporter';
+import { UploadIcon, FolderIcon, LoadingIcon, InfoIcon } from './IconComponents';
+
+interface ImportProjectModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImport: (project: ImportedProject) => Promise<void>; // rejects if the project couldn't be saved
+}
+
+type FolderEntry = { path: string; file: File };
+
+// Recursively walks a dropped directory using the (non-standard but widely supported) FileSystem entry API.
+const readDroppedEntry = async (entry: any, parentPath = ''): Promise<FolderEntry[]> => {
+    if (entry.isFile) {
+        const file: File = await new Promise((resolve, reject) => entry.file(resolve, reject));
+        return [{ path: `${parentPath}${entry.name}`, file }];
+    }
+    if (entry.isDirectory) {
+        const reader = entry.createReader();
+        const children: any[] = [];
+        // readEntries returns results in batches, so keep reading until it returns nothing.
+        while (true) {
+            const batch: any[] = await new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+            if (batch.length === 0) break;
+            children.push(...batch);
+        }
+        const nested = await Promise.all(children.map(child => readDroppedEntry(child, `${parentPath}${entry.name}/`)));
+        return nested.flat();
+    }
+    return [];
+};
+
+const ImportProjectModal: React.FC<ImportProjectModalProps> = ({ isOpen, onClose, onImport }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [error, setError] = useState('');
+    const [warnings, setWarnings] = useState<string[]>([]);
+
+    useEffect(() => {
+        // Reset state if the modal is closed externally
+        if (!isOpen) {
+            setIsAnimatingOut(false);
+            setError('');
+            setWarnings([]);
+        }
+    }, [isOpen]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const runImport = async (loadProject: () => Promise<ImportedProject>) => {
+        setIsImporting(true);
+        setError('');
+        setWarnings([]);
+        try {
+            const project = await loadProject();
+            await onImport(project);
+            if (project.warnings.length > 0) {
+                setWarnings(project.warnings);
+            } else {
+                handleClose();
+            }
+        } catch (e) {
+            console.error("Failed to import project:", e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleZipSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) runImport(() => importProjectFromZip(file));
+    };
+
+    const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const entries = Array.from<File>(e.target.files ?? []).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+        e.target.value = '';
+        if (entries.length > 0) runImport(() => importProjectFromFiles(entries));
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+
+        const items = Array.from<DataTransferItem>(e.dataTransfer.items);
+        const entries = items.map(item => item.webkitGetAsEntry?.()).filter(Boolean);
+        const droppedFile = e.dataTransfer.files[0];
+
+        if (entries.length === 1 && entries[0]!.isFile && droppedFile?.name.endsWith('.zip')) {
+            runImport(() => importProjectFromZip(droppedFile));
+        } else if (entries.length > 0) {
+            runImport(async () => {
+                const files = (await Promise.all(entries.map(entry => readDroppedEntry(entry)))).flat();
+                return importProjectFromFiles(files);
+            });
+        }
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-xl transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <UploadIcon className="h-6 w-6 text-geode-teal" />
+                        Import Existing Mod
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 text-geode-light">
+                    <p className="text-sm text-geode-overlay">
+                        Load a project you exported earlier. The form is filled from its <code className="bg-geode-crust p-1 rounded-sm text-xs">mod.json</code>, and every other file is kept as-is.
+                    </p>
+                    <div
+                        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                        onDragLeave={() => setIsDragging(false)}
+                        onDrop={handleDrop}
+                        className={`border-2 border-dashed rounded-md p-8 text-center transition-colors ${isDragging ? 'border-geode-teal bg-geode-teal/10' : 'border-geode-surface'}`}
+                    >
+                        {isImporting ? (
+                            <div className="flex items-center justify-center gap-2 text-geode-overlay">
+                                <LoadingIcon className="animate-spin h-5 w-5" />
+                                Importing...
+                            </div>
+                        ) : (
+                            <p className="text-sm text-geode-overlay">Drop a <span className="text-geode-light">.zip</span> or a project folder here</p>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <input type="file" id="import-zip" accept=".zip,application/zip" onChange={handleZipSelect} className="hidden" />
+                        <label htmlFor="import-zip" className="cursor-pointer flex items-center justify-center gap-2 bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all">
+                            <UploadIcon className="h-5 w-5" />
+                            Choose .zip
+                        </label>
+                        <input
+                            type="file"
+                            id="import-folder"
+                            onChange={handleFolderSelect}
+                            className="hidden"
+                            {...({ webkitdirectory: '', directory: '' } as any)}
+                        />
+                        <label htmlFor="import-folder" className="cursor-pointer flex items-center justify-center gap-2 bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all">
+                            <FolderIcon className="h-5 w-5" />
+                            Choose Folder
+                        </label>
+                    </div>
+                    {error && <p className="text-sm text-center text-geode-red">{error}</p>}
+                    {warnings.length > 0 && (
+                        <div className="bg-geode-crust p-3 rounded-md space-y-1">
+                            <p className="text-sm font-semibold text-geode-teal flex items-center gap-2">
+                                <InfoIcon className="h-4 w-4" />
+                                Imported with warnings
+                            </p>
+                            <ul className="list-disc list-inside text-xs text-geode-overlay">
+                                {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface text-right">
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        {warnings.length > 0 ? 'Done' : 'Cancel'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImportProjectModal;
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { VirtualFileSystem } from '../types';
+import { getFenceLanguage, type EditorLanguage } from '../services/syntaxHighlighter';
+import { getPathError, normalizeFilePath } from '../services/fileOperations';
+import { FileIcon } from './IconComponents';
+
+type InsertMode = 'cursor' | 'selection' | 'new';
+
+interface InsertSnippetModalProps {
+    snippet: { code: string; language: string } | null; // the modal is open while set
+    files: VirtualFileSystem | null;
+    openFilePath: string;
+    getSelection: (path: string) => { start: number; end: number } | null;
+    onClose: () => void;
+    onInsert: (path: string, start: number, end: number) => void;
+    onCreateFile: (path: string) => void;
+}
+
+const NEW_FILE_EXTENSIONS: Partial<Record<EditorLanguage, string>> = {
+    cpp: 'cpp',
+    json: 'json',
+    cmake: 'cmake',
+    yaml: 'yml',
+    markdown: 'md',
+    plist: 'plist',
+};
+
+// A free path for the snippet, next to the project's sources for C++
+const suggestNewFilePath = (files: VirtualFileSystem, code: string, language: string): string => {
+    const editorLanguage = getFenceLanguage(language);
+    const extension = editorLanguage === 'cpp' && /#pragma once/.test(code) ? 'hpp' : NEW_FILE_EXTENSIONS[editorLanguage] ?? 'txt';
+    const folder = editorLanguage === 'cpp' ? 'src/' : '';
+    for (let i = 1; ; i++) {
+        const path = `${folder}snippet${i === 1 ? '' : i}.${extension}`;
+        if (getPathError(files, path) === null) return path;
+    }
+};
+
+const getLineNumber = (content: string, offset: number) => content.slice(0, offset).split('\n').length;
+
+/**
+ * Puts a code block from the chat into the project: at the caret of a file,
+ * over the text selected in it, or as a new file.
+ */
+const InsertSnippetModal: React.FC<InsertSnippetModalProps> = ({ snippet, files, openFilePath, getSelection, onClose, onInsert, onCreateFile }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [target, setTarget] = useState('');
+    const [mode, setMode] = useState<InsertMode>('cursor');
+    const [newPath, setNewPath] = useState('');
+
+    const textFiles = useMemo(
+        () => Object.keys(files ?? {}).filter(path => files![path].encoding === 'utf8').sort(),
+        [files]
+    );
+
+    useEffect(() => {
+        if (!snippet) return;
+        setIsAnimatingOut(false);
+        // Start on the file open in the editor, replacing its selection if it has one
+        const initialTarget = textFiles.includes(openFilePath) ? openFilePath : textFiles[0] ?? '';
+        const selection = initialTarget ? getSelection(initialTarget) : null;
+        setTarget(initialTarget);
+        setMode(!initialTarget ? 'new' : selection && selection.start !== selection.end ? 'selection' : 'cursor');
+        setNewPath(suggestNewFilePath(files ?? {}, snippet.code, snippet.language));
+    }, [snippet]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    if (!snippet) {
+        return null;
+    }
+
+    const content = files?.[target]?.content ?? '';
+    const selection = target ? getSelection(target) : null;
+    const hasSelection = selection !== null && selection.start !== selection.end;
+    const normalizedNewPath = normalizeFilePath(newPath);
+    const newPathError = mode === 'new' ? getPathError(files ?? {}, normalizedNewPath) : null;
+
+    const handleInsert = () => {
+        if (mode === 'new') {
+            if (newPathError) return;
+            onCreateFile(normalizedNewPath);
+        } else if (mode === 'selection' && selection) {
+            onInsert(target, selection.start, selection.end);
+        } else {
+            // Files never opened in the editor get the snippet at the end
+            const offset = selection?.end ?? content.length;
+            onInsert(target, offset, offset);
+        }
+        handleClose();
+    };
+
+    const selectTarget = (path: string) => {
+        setTarget(path);
+        const next = getSelection(path);
+        if (mode === 'selection' && (!next || next.start === next.end)) setMode('cursor');
+    };
+
+    const modes: { id: InsertMode; label: string; detail: string; disabled: boolean }[] = [
+        {
+            id: 'cursor',
+            label: 'Insert at cursor',
+            detail: !target ? '' : selection ? `Line ${getLineNumber(content, selection.end)}` : 'Not opened yet, so at the end of the file',
+            disabled: !target,
+        },
+        {
+            id: 'selection',
+            label: 'Replace selection',
+            detail: hasSelection ? `Lines ${getLineNumber(content, selection!.start)}-${getLineNumber(content, selection!.end)}` : 'Select some text in the editor first',
+            disabled: !hasSelection,
+        },
+        { id: 'new', label: 'Create a new file', detail: '', disabled: false },
+    ];
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-xl max-h-full flex flex-col transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <FileIcon className="h-6 w-6 text-geode-teal" />
+                        Insert into File
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 text-geode-light overflow-y-auto">
+                    <div className="space-y-2">
+                        {modes.map(option => (
+                            <label key={option.id} className={`flex items-start gap-3 text-sm ${option.disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                                <input
+                                    type="radio"
+                                    name="insert-mode"
+                                    checked={mode === option.id}
+                                    disabled={option.disabled}
+                                    onChange={() => setMode(option.id)}
+                                    className="mt-1 accent-geode-teal"
+                                />
+                                <span>
+                                    <span className="block font-semibold">{option.label}</span>
+                                    {option.detail && <span className="block text-xs text-geode-overlay">{option.detail}</span>}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    {mode === 'new' ? (
+                        <div>
+                            <label htmlFor="snippet-new-path" className="block text-sm font-semibold text-geode-teal mb-1">Path</label>
+                            <input
+                                id="snippet-new-path"
+                                type="text"
+                                value={newPath}
+                                onChange={(e) => setNewPath(e.target.value)}
+                                className="w-full bg-geode-crust border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                            />
+                            {newPathError && <p className="text-xs text-geode-red mt-1">{newPathError}</p>}
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="snippet-target" className="block text-sm font-semibold text-geode-teal mb-1">File</label>
+                            <select
+                                id="snippet-target"
+                                value={target}
+                                onChange={(e) => selectTarget(e.target.value)}
+                                className="w-full bg-geode-crust border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                            >
+                                {textFiles.map(path => <option key={path} value={path}>{path}</option>)}
+                            </select>
+                            {mode === 'selection' && hasSelection && (
+                                <pre className="mt-2 max-h-32 overflow-auto bg-geode-crust rounded-md p-2 text-xs font-mono text-geode-red line-through">
+                                    {content.slice(selection!.start, selection!.end)}
+                                </pre>
+                            )}
+                        </div>
+                    )}
+                    <pre className="max-h-48 overflow-auto bg-geode-crust rounded-md p-2 text-xs font-mono text-geode-green">{snippet.code}</pre>
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end gap-3">
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleInsert}
+                        disabled={newPathError !== null || (mode !== 'new' && !target)}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
+                    >
+                        {mode === 'new' ? 'Create File' : mode === 'selection' ? 'Replace' : 'Insert'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InsertSnippetModal;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { ModData } from '../types';
-import { PlayIcon, CogIcon, TerminalIcon, SkullIcon, CharacterIcon, ExpandIcon, ShrinkIcon } from './IconComponents';
+import type { ModData, ModFeature } from '../types';
+import { getModFeatures } from '../services/features';
+import { PlayIcon, CogIcon, TerminalIcon, SkullIcon, CharacterIcon, ExpandIcon, ShrinkIcon, InfoIcon, SparklesIcon } from './IconComponents';
 
 interface LivePreviewModalProps {
     isOpen: boolean;
@@ -26,23 +27,44 @@ const ToggleSwitch: React.FC<{ checked: boolean; onChange: () => void }> = ({ ch
 const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, modData, onShowHowTo }) => {
     const simulationContainerRef = useRef<HTMLElement>(null);
     const [isSettingEnabled, setIsSettingEnabled] = useState(true);
-    const [showDeathNotification, setShowDeathNotification] = useState(false);
+    const [showNotification, setShowNotification] = useState(false);
+    const [alertText, setAlertText] = useState<string | null>(null);
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [activeFeatureId, setActiveFeatureId] = useState<ModFeature | null>(null);
+
+    const features = getModFeatures(modData.features);
+    // Each feature has its own scene; the first one is shown until another tab is picked
+    const feature = features.find(f => f.id === activeFeatureId) ?? features[0];
+    const previewScene = feature?.previewScene ?? 'none';
 
     useEffect(() => {
-        // Reset state when modal is opened or template changes
+        // Reset state when modal is opened or the shown feature changes
         setIsSettingEnabled(true);
-        setShowDeathNotification(false);
+        setShowNotification(false);
+        setAlertText(null);
         if (!isOpen) {
             setIsAnimatingOut(false);
         }
-    }, [isOpen, modData.cppTemplate]);
+    }, [isOpen, feature?.id]);
 
-    const handleSimulateDeath = () => {
-        setShowDeathNotification(true);
+    // The keyboard feature reacts to F6 while its scene is shown
+    useEffect(() => {
+        if (!isOpen || previewScene !== 'keyboard') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'F6' && !e.repeat) {
+                e.preventDefault();
+                flashNotification();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, previewScene]);
+
+    const flashNotification = () => {
+        setShowNotification(true);
         setTimeout(() => {
-            setShowDeathNotification(false);
+            setShowNotification(false);
         }, 3000); // Must match animation duration
     };
     
@@ -97,8 +119,24 @@ const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, mo
             </div>
         );
 
-        switch (modData.cppTemplate) {
-            case 'menulayer':
+        const modButton = (icon: React.ReactNode, message: string) => (
+            <button onClick={() => setAlertText(message)} className="bg-gradient-to-b from-green-400 to-green-600 w-12 h-12 rounded-full shadow-lg border-2 border-black/30 flex items-center justify-center text-white ring-2 ring-yellow-300 animate-pulse" aria-label="Your mod's button">
+                {icon}
+            </button>
+        );
+
+        const alertPopup = alertText && (
+            <div className="absolute inset-0 bg-black/50 flex items-center justify-center" onClick={() => setAlertText(null)}>
+                <div className="bg-amber-900 border-4 border-amber-700 rounded-lg p-4 max-w-sm text-center text-white">
+                    <p className="font-bold text-lg mb-2">{modName}</p>
+                    <p className="text-sm whitespace-pre-line">{alertText}</p>
+                    <button className="mt-3 bg-green-600 px-4 py-1 rounded font-bold text-sm">OK</button>
+                </div>
+            </div>
+        );
+
+        switch (previewScene) {
+            case 'menu':
                 return (
                     <div className="relative w-full h-full">
                         {baseMenu}
@@ -108,18 +146,18 @@ const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, mo
                     </div>
                 );
             
-            case 'playlayer':
+            case 'level':
                 return (
                      <div className="relative w-full h-full bg-blue-900 overflow-hidden">
                         <div className="absolute top-0 left-0 w-full h-1/2 bg-blue-500"></div>
                         <div className="absolute bottom-0 left-0 w-full h-1/2 bg-gray-700"></div>
                          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-center">
                             <h2 className="text-white text-lg font-bold mb-4">In-Game Simulation</h2>
-                             <button onClick={handleSimulateDeath} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors">
+                             <button onClick={flashNotification} className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-4 rounded-lg shadow-md transition-colors">
                                 Simulate Death
                             </button>
                         </div>
-                         {showDeathNotification && (
+                         {showNotification && (
                             <div className="absolute top-8 left-1/2 -translate-x-1/2 bg-black/70 text-white p-3 rounded-lg flex items-center gap-3 animate-notification-slide">
                                 <SkullIcon className="h-6 w-6 text-red-500" />
                                 <span className="font-bold">You died!</span>
@@ -128,7 +166,7 @@ const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, mo
                     </div>
                 );
 
-            case 'settings':
+            case 'menu-settings':
                  return (
                     <div className="relative w-full h-full">
                         {baseMenu}
@@ -147,8 +185,95 @@ const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, mo
                     </div>
                 );
 
+            case 'editor':
+                return (
+                    <div className="relative w-full h-full bg-blue-950 overflow-hidden">
+                        <div className="absolute inset-0 opacity-20" style={{ backgroundImage: 'linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)', backgroundSize: '30px 30px' }}></div>
+                        <div className="absolute top-1/2 left-1/3 w-8 h-8 bg-gray-300 border-2 border-green-400"></div>
+                        <div className="absolute top-1/2 left-1/3 ml-8 w-8 h-8 bg-gray-300 border-2 border-green-400"></div>
+                        <div className="absolute bottom-0 left-0 w-full h-1/4 bg-gray-800/90 border-t-2 border-black"></div>
+                        <div className="absolute top-3 right-3 flex gap-2">
+                            {modButton(<SparklesIcon className="h-6 w-6" />, 'Moved 2 object(s)')}
+                            <div className="w-12 h-12 rounded-full bg-gray-600 border-2 border-black/30 flex items-center justify-center text-white"><CogIcon className="h-6 w-6" /></div>
+                        </div>
+                        {alertPopup}
+                    </div>
+                );
+
+            case 'garage':
+                return (
+                    <div className="relative w-full h-full bg-gradient-to-b from-indigo-500 to-indigo-800 overflow-hidden">
+                        <div className="absolute top-1/4 left-1/2 -translate-x-1/2 w-20 h-20 bg-yellow-400 border-4 border-black rounded-md"></div>
+                        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 grid grid-cols-6 gap-2">
+                            {Array.from({ length: 12 }, (_, i) => <div key={i} className="w-8 h-8 bg-black/30 rounded"></div>)}
+                        </div>
+                        <div className="absolute top-1/3 left-4 flex flex-col gap-2">
+                            {modButton(<CharacterIcon className="h-6 w-6" />, 'Your cosmetics go here!')}
+                        </div>
+                        {alertPopup}
+                    </div>
+                );
+
+            case 'pause':
+                return (
+                    <div className="relative w-full h-full bg-blue-900 overflow-hidden">
+                        <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-6">
+                            <h2 className="text-white text-3xl font-bold">Paused</h2>
+                            <div className="flex gap-4">
+                                <GDButton icon={<PlayIcon className="h-10 w-10" />} />
+                            </div>
+                        </div>
+                        <div className="absolute top-1/3 right-4 flex flex-col gap-2">
+                            {modButton(<InfoIcon className="h-6 w-6" />, 'You are playing Stereo Madness.')}
+                        </div>
+                        {alertPopup}
+                    </div>
+                );
+
+            case 'level-info':
+                return (
+                    <div className="relative w-full h-full bg-gradient-to-b from-blue-500 to-blue-800 overflow-hidden">
+                        <div className="absolute top-6 left-1/2 -translate-x-1/2 text-center text-white">
+                            <p className="text-3xl font-bold" style={{ textShadow: '2px 2px 0 #000' }}>Stereo Madness</p>
+                            <p className="text-sm text-yellow-300">By RobTop</p>
+                        </div>
+                        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2">
+                            <GDButton icon={<PlayIcon className="h-10 w-10" />} />
+                        </div>
+                        <div className="absolute top-1/3 left-4 flex flex-col gap-2">
+                            {modButton(<InfoIcon className="h-6 w-6" />, 'Stereo Madness\nID: 1\nAttempts: 42\nJumps: 1337')}
+                        </div>
+                        {alertPopup}
+                    </div>
+                );
+
+            case 'keyboard':
+                return (
+                    <div className="relative w-full h-full">
+                        {baseMenu}
+                        <div className="absolute top-6 left-1/2 -translate-x-1/2 text-center text-white">
+                            <p className="text-sm font-bold bg-black/50 px-3 py-1.5 rounded-lg">Press <kbd className="font-mono bg-white/20 px-1.5 rounded">F6</kbd> to trigger the shortcut</p>
+                        </div>
+                        {showNotification && (
+                            <div className="absolute top-8 left-1/2 -translate-x-1/2 bg-black/70 text-white p-3 rounded-lg flex items-center gap-3 animate-notification-slide">
+                                <SparklesIcon className="h-6 w-6 text-green-400" />
+                                <span className="font-bold">{modName}: F6 pressed!</span>
+                            </div>
+                        )}
+                    </div>
+                );
+
+            case 'none':
             default:
-                return <p className="text-white">No preview available for this template.</p>;
+                return (
+                    <div className="absolute inset-0 flex items-center justify-center p-8">
+                        <p className="text-white text-center bg-black/50 p-4 rounded-lg max-w-md">
+                            {feature
+                                ? `${feature.label} has nothing to show in-game: ${feature.description}`
+                                : 'No features are checked, so the mod does nothing in-game yet.'}
+                        </p>
+                    </div>
+                );
         }
     };
     
@@ -189,6 +314,19 @@ const LivePreviewModal: React.FC<LivePreviewModalProps> = ({ isOpen, onClose, mo
                         </button>
                     </div>
                 </header>
+                {features.length > 1 && (
+                    <nav className="flex gap-1 px-3 py-2 border-b border-geode-surface bg-geode-crust/80 overflow-x-auto z-10" aria-label="Previewed feature">
+                        {features.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => setActiveFeatureId(f.id)}
+                                className={`text-xs font-semibold px-3 py-1 rounded-md whitespace-nowrap transition-colors ${f.id === feature?.id ? 'bg-geode-teal text-geode-crust' : 'text-geode-overlay hover:text-geode-light hover:bg-geode-surface'}`}
+                            >
+                                {f.label}
+                            </button>
+                        ))}
+                    </nav>
+                )}
                 <main 
                     ref={simulationContainerRef}
                     className="flex-1 relative bg-gradient-to-b from-blue-400 to-blue-600"
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import type { Rect } from '../services/spritePacker';
+import { loadImage } from '../services/imageUtils';
+import {
+    LOGO_SIZE, LOGO_BACKGROUNDS, LOGO_OUTLINES, getCenteredCrop, getContentCrop, renderLogo, checkLogo,
+    type LogoSettings, type LogoCheck,
+} from '../services/logoEditor';
+import { ImageIcon, LoadingIcon } from './IconComponents';
+
+interface LogoEditorModalProps {
+    source: string | null; // data URL of the image being edited; the modal is open while set
+    modName: string;
+    developer: string;
+    onClose: () => void;
+    onSave: (logo: string) => void;
+}
+
+// Sizes the logo is drawn at in Geode's mod list and on a mod's page
+const MOD_LIST_PREVIEWS = [
+    { label: 'Mod list', size: 40 },
+    { label: 'Mod page', size: 96 },
+];
+
+const DEFAULT_SETTINGS: Omit<LogoSettings, 'crop'> = {
+    padding: 16,
+    background: 'none',
+    backgroundColor: '#313244',
+    outline: 'none',
+};
+
+const SliderField: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void }> = ({ label, value, min, max, onChange }) => (
+    <label className="grid grid-cols-[4rem_1fr_3rem] items-center gap-2 text-sm">
+        {label}
+        <input type="range" min={min} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} className="accent-geode-teal" />
+        <span className="text-xs font-mono text-geode-overlay text-right">{value}</span>
+    </label>
+);
+
+/**
+ * Turns an uploaded or generated image into a Geode logo: a square crop,
+ * padding, an optional background and outline, exported at 336x336 and
+ * previewed the way the mod list shows it.
+ */
+const LogoEditorModal: React.FC<LogoEditorModalProps> = ({ source, modName, developer, onClose, onSave }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+    const [settings, setSettings] = useState<LogoSettings | null>(null);
+    const [preview, setPreview] = useState<string | null>(null);
+    const [checks, setChecks] = useState<LogoCheck[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setIsAnimatingOut(false);
+        setImage(null);
+        setSettings(null);
+        setPreview(null);
+        setError('');
+        if (!source) return;
+        let cancelled = false;
+        loadImage(source)
+            .then(loaded => {
+                if (cancelled) return;
+                setImage(loaded);
+                setSettings({ ...DEFAULT_SETTINGS, crop: getCenteredCrop(loaded.naturalWidth, loaded.naturalHeight) });
+            })
+            .catch(e => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+        return () => { cancelled = true; };
+    }, [source]);
+
+    useEffect(() => {
+        if (!image || !settings) return;
+        const canvas = renderLogo(image, settings);
+        setPreview(canvas.toDataURL('image/png'));
+        setChecks(checkLogo(canvas));
+    }, [image, settings]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const handleSave = () => {
+        if (!preview) return;
+        onSave(preview);
+        handleClose();
+    };
+
+    if (!source) {
+        return null;
+    }
+
+    const update = (change: Partial<LogoSettings>) => setSettings(prev => (prev ? { ...prev, ...change } : prev));
+    const updateCrop = (change: Partial<Rect>) => {
+        if (!settings || !image) return;
+        const crop = { ...settings.crop, ...change };
+        // The crop stays square and, where the image allows, inside it
+        const size = change.width ?? crop.width;
+        const clamp = (start: number, limit: number) => Math.max(Math.min(start, limit - size), Math.min(0, limit - size));
+        update({ crop: { x: clamp(crop.x, image.naturalWidth), y: clamp(crop.y, image.naturalHeight), width: size, height: size } });
+    };
+
+    const width = image?.naturalWidth ?? 0;
+    const height = image?.naturalHeight ?? 0;
+    const maxCrop = Math.max(width, height);
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-3xl max-h-full flex flex-col transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <ImageIcon className="h-6 w-6 text-geode-teal" />
+                        Logo Editor
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                {!settings ? (
+                    <div className="p-6 flex items-center justify-center min-h-[12rem]">
+                        {error ? <p className="text-sm text-geode-red">{error}</p> : <LoadingIcon className="animate-spin h-6 w-6 text-geode-overlay" />}
+                    </div>
+                ) : (
+                    <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-geode-light overflow-y-auto">
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <h3 className="text-sm font-semibold text-geode-teal">Crop</h3>
+                                    <div className="flex gap-3 text-xs">
+                                        <button onClick={() => image && update({ crop: getContentCrop(image, width, height) })} className="text-geode-overlay hover:text-geode-light">Fit Content</button>
+                                        <button onClick={() => update({ crop: getCenteredCrop(width, height) })} className="text-geode-overlay hover:text-geode-light">Reset</button>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-geode-overlay">Source {width}x{height}</p>
+                                <SliderField label="Size" value={settings.crop.width} min={1} max={maxCrop} onChange={(size) => updateCrop({ width: size, height: size })} />
+                                <SliderField label="X" value={settings.crop.x} min={Math.min(0, width - settings.crop.width)} max={Math.max(0, width - settings.crop.width)} onChange={(x) => updateCrop({ x })} />
+                                <SliderField label="Y" value={settings.crop.y} min={Math.min(0, height - settings.crop.height)} max={Math.max(0, height - settings.crop.height)} onChange={(y) => updateCrop({ y })} />
+                            </div>
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-semibold text-geode-teal">Style</h3>
+                                <SliderField label="Padding" value={settings.padding} min={0} max={LOGO_SIZE / 4} onChange={(padding) => update({ padding })} />
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="w-16">Fill</span>
+                                    {LOGO_BACKGROUNDS.map(preset => (
+                                        <button
+                                            key={preset.id}
+                                            onClick={() => update({ background: preset.id })}
+                                            className={`px-2 py-0.5 rounded-md text-xs font-bold transition-colors ${settings.background === preset.id ? 'bg-geode-surface text-geode-light' : 'text-geode-overlay hover:text-geode-light'}`}
+                                        >
+                                            {preset.label}
+                                        </button>
+                                    ))}
+                                    <input
+                                        type="color"
+                                        value={settings.backgroundColor}
+                                        onChange={(e) => update({ backgroundColor: e.target.value })}
+                                        disabled={settings.background === 'none'}
+                                        aria-label="Background colour"
+                                        className="h-6 w-8 bg-transparent cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                                    />
+                                </div>
+                                <div className="flex items-center gap-2 text-sm">
+                                    <span className="w-16">Outline</span>
+                                    {LOGO_OUTLINES.map(preset => (
+                                        <button
+                                            key={preset.id}
+                                            onClick={() => update({ outline: preset.id })}
+                                            className={`px-2 py-0.5 rounded-md text-xs font-bold transition-colors ${settings.outline === preset.id ? 'bg-geode-surface text-geode-light' : 'text-geode-overlay hover:text-geode-light'}`}
+                                        >
+                                            {preset.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <ul className="space-y-1 text-xs">
+                                {checks.map(check => (
+                                    <li key={check.message} className={check.level === 'warning' ? 'text-geode-yellow' : 'text-geode-overlay'}>{check.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                        <div className="flex flex-col gap-3">
+                            <h3 className="text-sm font-semibold text-geode-teal">Preview</h3>
+                            <div className="bg-geode-crust rounded-md flex items-center justify-center p-2">
+                                {preview && <img src={preview} alt="Logo preview" className="w-48 h-48 object-contain border border-geode-surface" />}
+                            </div>
+                            <p className="text-xs text-geode-overlay">Exported as logo.png, {LOGO_SIZE}x{LOGO_SIZE}.</p>
+                            {MOD_LIST_PREVIEWS.map(({ label, size }) => (
+                                <div key={label}>
+                                    <p className="text-xs text-geode-overlay mb-1">{label}</p>
+                                    <div className="flex items-center gap-3 bg-geode-crust rounded-md p-2">
+                                        {preview && <img src={preview} alt="" style={{ width: size, height: size }} className="shrink-0" />}
+                                        <div className="min-w-0">
+                                            <p className="font-bold truncate">{modName || 'My Mod'}</p>
+                                            <p className="text-xs text-geode-overlay truncate">By {developer || 'Developer'}</p>
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end gap-3">
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!preview}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
+                    >
+                        Use Logo
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LogoEditorModal;
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../services/markdown';
+import { tokenize, getFenceLanguage } from '../services/syntaxHighlighter';
+import { TOKEN_CLASSES } from './CodeEditor';
+
+interface MarkdownViewProps {
+    text: string;
+    onInsertCode?: (code: string, language: string) => void;
+}
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold', 'text-sm font-semibold', 'text-sm font-semibold', 'text-sm font-semibold'];
+
+const InlineContent: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+    <>
+        {nodes.map((node, i) => {
+            switch (node.type) {
+                case 'text':
+                    return <React.Fragment key={i}>{node.text}</React.Fragment>;
+                case 'code':
+                    return <code key={i} className="font-mono text-[0.85em] bg-geode-crust text-geode-peach rounded px-1 py-0.5">{node.text}</code>;
+                case 'strong':
+                    return <strong key={i} className="font-bold"><InlineContent nodes={node.children} /></strong>;
+                case 'em':
+                    return <em key={i}><InlineContent nodes={node.children} /></em>;
+                case 'link':
+                    return <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-geode-blue underline hover:text-geode-teal"><InlineContent nodes={node.children} /></a>;
+            }
+        })}
+    </>
+);
+
+const CodeBlock: React.FC<{ language: string; code: string; onInsert?: () => void }> = ({ language, code, onInsert }) => {
+    const [copied, setCopied] = useState(false);
+    const lines = useMemo(() => tokenize(code, getFenceLanguage(language)), [code, language]);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(code);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <div className="rounded-md border border-geode-surface bg-geode-crust overflow-hidden">
+            <div className="flex items-center gap-3 px-2 py-1 border-b border-geode-surface text-xs text-geode-overlay">
+                <span className="font-mono mr-auto">{language || 'text'}</span>
+                <button onClick={handleCopy} className="hover:text-geode-light">{copied ? 'Copied' : 'Copy'}</button>
+                {onInsert && <button onClick={onInsert} className="font-bold text-geode-blue hover:text-geode-teal">Insert into file…</button>}
+            </div>
+            <pre className="m-0 p-2 overflow-x-auto font-mono text-xs leading-relaxed text-geode-light" style={{ tabSize: 4 }}>
+                {lines.map((tokens, i) => (
+                    <React.Fragment key={i}>
+                        {tokens.map(token => (TOKEN_CLASSES[token.type]
+                            ? <span key={token.start} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+                            : <React.Fragment key={token.start}>{token.text}</React.Fragment>))}
+                        {i < lines.length - 1 && '\n'}
+                    </React.Fragment>
+                ))}
+            </pre>
+        </div>
+    );
+};
+
+const Blocks: React.FC<{ blocks: MarkdownBlock[]; onInsertCode?: (code: string, language: string) => void }> = ({ blocks, onInsertCode }) => (
+    <>
+        {blocks.map((block, i) => {
+            switch (block.type) {
+                case 'paragraph':
+                    return <p key={i} className="whitespace-pre-wrap"><InlineContent nodes={block.content} /></p>;
+                case 'heading':
+                    return <p key={i} className={HEADING_CLASSES[block.level - 1]}><InlineContent nodes={block.content} /></p>;
+                case 'code':
+                    // A block still streaming in can't be inserted yet
+                    return <CodeBlock key={i} language={block.language} code={block.code} onInsert={onInsertCode && block.closed ? () => onInsertCode(block.code, block.language) : undefined} />;
+                case 'list': {
+                    const List = block.ordered ? 'ol' : 'ul';
+                    return (
+                        <List key={i} start={block.ordered ? block.start : undefined} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                            {block.items.map((item, j) => (
+                                <li key={j} className="space-y-2"><Blocks blocks={item} onInsertCode={onInsertCode} /></li>
+                            ))}
+                        </List>
+                    );
+                }
+                case 'quote':
+                    return <blockquote key={i} className="border-l-2 border-geode-overlay pl-3 text-geode-overlay space-y-2"><Blocks blocks={block.children} onInsertCode={onInsertCode} /></blockquote>;
+                case 'table':
+                    return (
+                        <div key={i} className="overflow-x-auto">
+                            <table className="text-xs border-collapse">
+                                <thead>
+                                    <tr>{block.header.map((cell, j) => <th key={j} className="border border-geode-overlay px-2 py-1 text-left font-bold"><InlineContent nodes={cell} /></th>)}</tr>
+                                </thead>
+                                <tbody>
+                                    {block.rows.map((row, j) => (
+                                        <tr key={j}>{row.map((cell, k) => <td key={k} className="border border-geode-overlay px-2 py-1"><InlineContent nodes={cell} /></td>)}</tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    );
+                case 'rule':
+                    return <hr key={i} className="border-geode-overlay" />;
+            }
+        })}
+    </>
+);
+
+/**
+ * Renders one of Gigi's replies: Markdown text with highlighted code blocks
+ * that can be copied or inserted into a project file.
+ */
+const MarkdownView: React.FC<MarkdownViewProps> = ({ text, onInsertCode }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    return (
+        <div className="space-y-2 break-words">
+            <Blocks blocks={blocks} onInsertCode={onInsertCode} />
+        </div>
+    );
+};
+
+export default MarkdownView;
@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import type { ModData, ModSetting, ModSettingType } from '../types';
+import type { ModFeature, ModData, ModSetting, ModSettingType, ModSettingFileFilter, ModDependency, ModIncompatibility, DependencyImportance, IncompatibilityImportance, ModPlatform, ModBuildOptions, CpmPackage } from '../types';
+import { getDefaultSettingValue, getSettingRangeError } from '../services/modGenerator';
+import { getVersionRangeError } from '../services/modJsonValidator';
+import { MOD_FEATURES } from '../services/features';
+import { getModIndexProvider, matchVersionRange, type ModIndexEntry } from '../services/modIndex';
+import ModIdInput from './ModIdInput';
 import { DownloadIcon, LoadingIcon, InfoIcon, SparklesIcon, ImageIcon, UploadIcon, TrashIcon, CogIcon } from './IconComponents';
 
 interface ModFormProps {
@@ -19,6 +24,7 @@ interface ModFormProps {
     isGeneratingTags: boolean;
     onGenerateLogo: () => void;
     isGeneratingLogo: boolean;
+    onEditLogo: (source: string) => void;
     onGenerateSettings: () => void;
     isGeneratingSettings: boolean;
     aiError: string;
@@ -74,6 +80,34 @@ const SelectField: React.FC<{ label: string; id: string; value: string; onChange
 );
 
 
+const splitList = (value: string): string[] => value.split(',').map(entry => entry.trim()).filter(entry => entry);
+
+// A comma-separated text field backed by a list. The raw text is kept locally
+// so a trailing comma or space isn't stripped while the user is still typing.
+const ListInput: React.FC<{ id?: string; value: string[]; onChange: (values: string[]) => void; placeholder: string; className: string; }> = ({ id, value, onChange, placeholder, className }) => {
+    const [text, setText] = useState(value.join(', '));
+
+    useEffect(() => {
+        if (splitList(text).join('\n') !== value.join('\n')) {
+            setText(value.join(', '));
+        }
+    }, [value]);
+
+    return (
+        <input
+            type="text"
+            id={id}
+            value={text}
+            onChange={(e) => {
+                setText(e.target.value);
+                onChange(splitList(e.target.value));
+            }}
+            placeholder={placeholder}
+            className={className}
+        />
+    );
+};
+
 const CheckboxField: React.FC<{ label: string; id: string; checked: boolean; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void; hint?: string; tooltip?: string; }> = ({ label, id, checked, onChange, hint, tooltip }) => (
     <div className="flex items-center gap-3">
         <input
@@ -96,8 +130,46 @@ const CheckboxField: React.FC<{ label: string; id: string; checked: boolean; onC
 );
 
 
-const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, isDownloading, aiEnabled, modIdea, onModIdeaChange, onGenerateNameAndId, isGeneratingName, onGenerateDescription, isGeneratingDesc, onSuggestTags, isGeneratingTags, onGenerateLogo, isGeneratingLogo, onGenerateSettings, isGeneratingSettings, aiError }) => {
+const PLATFORM_LABELS: Record<ModPlatform, string> = {
+    win: 'Windows',
+    mac: 'macOS',
+    android: 'Android',
+    ios: 'iOS',
+};
+
+const DEPENDENCY_IMPORTANCE_LABELS: Record<DependencyImportance, string> = {
+    required: 'Required',
+    recommended: 'Recommended',
+    suggested: 'Suggested',
+};
+
+const INCOMPATIBILITY_IMPORTANCE_LABELS: Record<IncompatibilityImportance, string> = {
+    breaking: 'Breaking',
+    conflicting: 'Conflicting',
+    superseded: 'Superseded',
+};
+
+const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, isDownloading, aiEnabled, modIdea, onModIdeaChange, onGenerateNameAndId, isGeneratingName, onGenerateDescription, isGeneratingDesc, onSuggestTags, isGeneratingTags, onGenerateLogo, isGeneratingLogo, onEditLogo, onGenerateSettings, isGeneratingSettings, aiError }) => {
     const [idError, setIdError] = useState('');
+    const [indexedMods, setIndexedMods] = useState<Record<string, ModIndexEntry | null>>({});
+
+    // Look up every referenced mod in the mod index to show its versions
+    const referencedModIds = [...modData.dependencies, ...modData.incompatibilities].map(ref => ref.modId.trim()).filter(id => id);
+    const referencedModIdsKey = referencedModIds.join('\n');
+    useEffect(() => {
+        const missing = referencedModIds.filter(id => !(id in indexedMods));
+        if (missing.length === 0) return;
+        let cancelled = false;
+        const provider = getModIndexProvider();
+        Promise.all(missing.map(async id => [id, await provider.getMod(id)] as const)).then(entries => {
+            if (cancelled) return;
+            setIndexedMods(current => ({ ...current, ...Object.fromEntries(entries) }));
+        }).catch(error => {
+            // Left out of indexedMods, so the lookup is tried again when the references change
+            console.error("Failed to look up mods in the mod index:", error);
+        });
+        return () => { cancelled = true; };
+    }, [referencedModIdsKey]);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
@@ -122,14 +194,16 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
 
     const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
-        if (file && file.type === "image/png") {
+        e.target.value = '';
+        if (file && file.type.startsWith("image/")) {
+            // Uploads go through the logo editor, which exports a 336x336 PNG
             const reader = new FileReader();
             reader.onloadend = () => {
-                onFormChange({ ...modData, logo: reader.result as string });
+                onEditLogo(reader.result as string);
             };
             reader.readAsDataURL(file);
         } else if (file) {
-            alert("Please upload a PNG file.");
+            alert("Please upload an image file.");
         }
     };
     
@@ -157,12 +231,7 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                 const updatedSetting = { ...s, [field]: value };
                 // When type changes, reset default value
                 if (field === 'type') {
-                    switch (value as ModSettingType) {
-                        case 'bool': updatedSetting.default = false; break;
-                        case 'int': updatedSetting.default = 0; break;
-                        case 'float': updatedSetting.default = 0.0; break;
-                        case 'string': updatedSetting.default = ''; break;
-                    }
+                    updatedSetting.default = getDefaultSettingValue(value as ModSettingType);
                 }
                 return updatedSetting;
             }
@@ -171,6 +240,157 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
         onFormChange({ ...modData, settings: newSettings });
     };
 
+    const updateFileFilter = (setting: ModSetting, index: number, changes: Partial<ModSettingFileFilter>) => {
+        const filters = (setting.fileFilters ?? []).map((filter, i) => i === index ? { ...filter, ...changes } : filter);
+        handleSettingChange(setting.id, 'fileFilters', filters);
+    };
+
+    // --- Feature Handlers ---
+
+    // Checking a feature also adds whatever the feature's code relies on; unchecking leaves them in place
+    const toggleFeature = (id: ModFeature) => {
+        if (modData.features.includes(id)) {
+            onFormChange({ ...modData, features: modData.features.filter(feature => feature !== id) });
+            return;
+        }
+        const feature = MOD_FEATURES.find(f => f.id === id);
+        if (!feature) return;
+        const now = Date.now();
+        const missingSettings = (feature.requiredSettings ?? [])
+            .filter(required => !modData.settings.some(setting => setting.key === required.key))
+            .map((required, i): ModSetting => ({ ...required, id: `setting-${now}-${i}` }));
+        const missingDependencies = (feature.requiredDependencies ?? [])
+            .filter(modId => !modData.dependencies.some(dep => dep.modId === modId))
+            .map((modId, i): ModDependency => ({ id: `dependency-${now}-${i}`, modId, version: '*', importance: 'required', platforms: [] }));
+        onFormChange({
+            ...modData,
+            features: MOD_FEATURES.filter(f => f.id === id || modData.features.includes(f.id)).map(f => f.id),
+            settings: [...modData.settings, ...missingSettings],
+            dependencies: [...modData.dependencies, ...missingDependencies],
+            providesApi: modData.providesApi || !!feature.providesApi,
+        });
+    };
+
+    // --- Dependency Handlers ---
+
+    const addDependency = () => {
+        const newDependency: ModDependency = {
+            id: `dependency-${Date.now()}`,
+            modId: '',
+            version: '*',
+            importance: 'required',
+            platforms: [],
+        };
+        onFormChange({ ...modData, dependencies: [...modData.dependencies, newDependency] });
+    };
+
+    const addIncompatibility = () => {
+        const newIncompatibility: ModIncompatibility = {
+            id: `incompatibility-${Date.now()}`,
+            modId: '',
+            version: '*',
+            importance: 'breaking',
+            platforms: [],
+        };
+        onFormChange({ ...modData, incompatibilities: [...modData.incompatibilities, newIncompatibility] });
+    };
+
+    const updateModReference = (field: 'dependencies' | 'incompatibilities', id: string, changes: Partial<ModDependency> | Partial<ModIncompatibility>) => {
+        const references = (modData[field] as (ModDependency | ModIncompatibility)[]).map(ref => ref.id === id ? { ...ref, ...changes } : ref);
+        onFormChange({ ...modData, [field]: references });
+    };
+
+    const removeModReference = (field: 'dependencies' | 'incompatibilities', id: string) => {
+        const references = (modData[field] as (ModDependency | ModIncompatibility)[]).filter(ref => ref.id !== id);
+        onFormChange({ ...modData, [field]: references });
+    };
+
+    const toggleReferencePlatform = (field: 'dependencies' | 'incompatibilities', ref: ModDependency | ModIncompatibility, platform: ModPlatform) => {
+        const platforms = ref.platforms.includes(platform)
+            ? ref.platforms.filter(p => p !== platform)
+            : [...ref.platforms, platform];
+        updateModReference(field, ref.id, { platforms });
+    };
+
+    const renderModReference = (field: 'dependencies' | 'incompatibilities', ref: ModDependency | ModIncompatibility) => {
+        const importanceOptions = Object.entries(field === 'dependencies' ? DEPENDENCY_IMPORTANCE_LABELS : INCOMPATIBILITY_IMPORTANCE_LABELS);
+        const versionError = getVersionRangeError(ref.version);
+        const indexEntry = indexedMods[ref.modId.trim()];
+        const matchingVersions = indexEntry && !versionError ? matchVersionRange(ref.version, indexEntry.versions) : null;
+        return (
+            <div key={ref.id} className="bg-geode-crust/50 p-3 rounded-md border border-geode-surface space-y-2">
+                <div className="flex items-center gap-2">
+                    <ModIdInput
+                        value={ref.modId}
+                        onChange={(modId) => updateModReference(field, ref.id, { modId })}
+                        placeholder="geode.node-ids"
+                    />
+                    <button type="button" onClick={() => removeModReference(field, ref.id)} className="text-geode-red hover:text-opacity-80 p-1 rounded-full">
+                        <TrashIcon className="h-5 w-5" />
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="block text-xs text-geode-blue mb-1">Version</label>
+                        <input
+                            type="text"
+                            value={ref.version}
+                            onChange={(e) => updateModReference(field, ref.id, { version: e.target.value })}
+                            placeholder=">=1.0.0"
+                            className="w-full bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-geode-blue mb-1">Importance</label>
+                        <select
+                            value={ref.importance}
+                            onChange={(e) => (field === 'dependencies'
+                                ? updateModReference(field, ref.id, { importance: e.target.value as DependencyImportance })
+                                : updateModReference(field, ref.id, { importance: e.target.value as IncompatibilityImportance }))}
+                            className="w-full bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        >
+                            {importanceOptions.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-geode-light">
+                    <span className="text-geode-blue">Only on:</span>
+                    {(['win', 'mac', 'android', 'ios'] as ModPlatform[]).map(platform => (
+                        <label key={platform} className="flex items-center gap-1.5">
+                            <input
+                                type="checkbox"
+                                checked={ref.platforms.includes(platform)}
+                                onChange={() => toggleReferencePlatform(field, ref, platform)}
+                                className="h-4 w-4 rounded border-geode-surface bg-geode-crust text-geode-teal focus:ring-geode-teal"
+                            />
+                            {PLATFORM_LABELS[platform]}
+                        </label>
+                    ))}
+                    {ref.platforms.length === 0 && <span className="text-geode-overlay">(all platforms)</span>}
+                </div>
+                {versionError && <p className="text-xs text-geode-red">{versionError}</p>}
+                {indexEntry && (
+                    <p className="text-xs text-geode-overlay">
+                        {indexEntry.name} by {indexEntry.developer}. Available: {indexEntry.versions.slice(0, 6).map(v => `v${v}`).join(', ')}{indexEntry.versions.length > 6 && ', ...'}
+                    </p>
+                )}
+                {matchingVersions && matchingVersions.length === 0 && (
+                    <p className="text-xs text-geode-yellow">No published version of {ref.modId} matches "{ref.version}".</p>
+                )}
+            </div>
+        );
+    };
+
+    // --- Build Option Handlers ---
+
+    const updateBuildOptions = (changes: Partial<ModBuildOptions>) => {
+        onFormChange({ ...modData, build: { ...modData.build, ...changes } });
+    };
+
+    const updateCpmPackage = (id: string, changes: Partial<CpmPackage>) => {
+        updateBuildOptions({ cpmPackages: modData.build.cpmPackages.map(pkg => pkg.id === id ? { ...pkg, ...changes } : pkg) });
+    };
+
     const renderDefaultValueInput = (setting: ModSetting) => {
         switch (setting.type) {
             case 'bool':
@@ -188,12 +408,26 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                     <input
                         type="number"
                         value={setting.default as number}
-                        step={setting.type === 'float' ? '0.1' : '1'}
+                        step={setting.step ?? (setting.type === 'float' ? '0.1' : '1')}
+                        min={setting.min}
+                        max={setting.max}
                         onChange={(e) => handleSettingChange(setting.id, 'default', e.target.value)}
                         className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
                     />
                 );
             case 'string':
+                if (setting.oneOf && setting.oneOf.length > 0) {
+                    return (
+                        <select
+                            value={setting.default as string}
+                            onChange={(e) => handleSettingChange(setting.id, 'default', e.target.value)}
+                            className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        >
+                            {!setting.oneOf.includes(setting.default as string) && <option value={setting.default as string}>Choose a default...</option>}
+                            {setting.oneOf.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                        </select>
+                    );
+                }
                 return (
                     <input
                         type="text"
@@ -202,6 +436,161 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                         className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
                     />
                 );
+            case 'file':
+            case 'folder':
+            case 'path':
+                return (
+                    <input
+                        type="text"
+                        value={setting.default as string}
+                        onChange={(e) => handleSettingChange(setting.id, 'default', e.target.value)}
+                        placeholder={setting.type === 'folder' ? '{gd_dir}/Resources' : '{mod_save_dir}/data.txt'}
+                        className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                    />
+                );
+            case 'color':
+            case 'rgba': {
+                const hex = String(setting.default || '#ffffff');
+                const rgb = hex.slice(0, 7);
+                const alpha = setting.type === 'rgba' ? parseInt(hex.slice(7, 9) || 'ff', 16) : 255;
+                return (
+                    <div className="flex items-center gap-3 w-full">
+                        <input
+                            type="color"
+                            value={rgb}
+                            onChange={(e) => handleSettingChange(setting.id, 'default', setting.type === 'rgba' ? `${e.target.value}${hex.slice(7, 9) || 'ff'}` : e.target.value)}
+                            className="h-8 w-12 bg-transparent border border-geode-surface rounded cursor-pointer"
+                        />
+                        {setting.type === 'rgba' && (
+                            <input
+                                type="range"
+                                min={0}
+                                max={255}
+                                value={alpha}
+                                onChange={(e) => handleSettingChange(setting.id, 'default', `${rgb}${Number(e.target.value).toString(16).padStart(2, '0')}`)}
+                                className="flex-1"
+                                aria-label="Alpha"
+                            />
+                        )}
+                        <span className="text-xs font-mono text-geode-overlay">{hex}</span>
+                    </div>
+                );
+            }
+            default:
+                return null;
+        }
+    };
+
+    const parseOptionalNumber = (value: string): number | undefined => {
+        if (value.trim() === '') return undefined;
+        const parsed = Number(value);
+        return Number.isNaN(parsed) ? undefined : parsed;
+    };
+
+    const renderTypeSpecificFields = (setting: ModSetting) => {
+        switch (setting.type) {
+            case 'int':
+            case 'float': {
+                const rangeError = getSettingRangeError(setting);
+                const numberStep = setting.type === 'float' ? '0.1' : '1';
+                const numberFieldClass = "w-full bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal";
+                return (
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className="block text-xs text-geode-blue mb-1">Min</label>
+                                <input type="number" step={numberStep} value={setting.min ?? ''} placeholder="None" onChange={(e) => handleSettingChange(setting.id, 'min', parseOptionalNumber(e.target.value))} className={numberFieldClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-geode-blue mb-1">Max</label>
+                                <input type="number" step={numberStep} value={setting.max ?? ''} placeholder="None" onChange={(e) => handleSettingChange(setting.id, 'max', parseOptionalNumber(e.target.value))} className={numberFieldClass} />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-geode-blue mb-1">Step</label>
+                                <input type="number" step={numberStep} min={0} value={setting.step ?? ''} placeholder={numberStep} onChange={(e) => handleSettingChange(setting.id, 'step', parseOptionalNumber(e.target.value))} className={numberFieldClass} />
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-4 text-xs text-geode-light">
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={!!setting.slider} onChange={(e) => handleSettingChange(setting.id, 'slider', e.target.checked)} className="h-4 w-4 rounded border-geode-surface bg-geode-crust text-geode-teal focus:ring-geode-teal" />
+                                Slider
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={!!setting.arrows} onChange={(e) => handleSettingChange(setting.id, 'arrows', e.target.checked)} className="h-4 w-4 rounded border-geode-surface bg-geode-crust text-geode-teal focus:ring-geode-teal" />
+                                Arrows
+                            </label>
+                        </div>
+                        {rangeError && <p className="text-xs text-geode-red">{rangeError}</p>}
+                    </div>
+                );
+            }
+            case 'string':
+                return (
+                    <div>
+                        <label className="block text-xs text-geode-blue mb-1">Choices (optional)</label>
+                        <ListInput
+                            value={setting.oneOf ?? []}
+                            onChange={(choices) => handleSettingChange(setting.id, 'oneOf', choices)}
+                            placeholder="easy, normal, hard"
+                            className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        />
+                        <p className="mt-1 text-xs text-geode-overlay">Comma-separated. Restricts the value to one of these options.</p>
+                    </div>
+                );
+            case 'file':
+                return (
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-3">
+                            <label className="text-xs text-geode-blue">Dialog:</label>
+                            <select
+                                value={setting.fileDialog ?? 'open'}
+                                onChange={(e) => handleSettingChange(setting.id, 'fileDialog', e.target.value)}
+                                className="bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                            >
+                                <option value="open">Open file</option>
+                                <option value="save">Save file</option>
+                            </select>
+                        </div>
+                        <label className="block text-xs text-geode-blue">File filters</label>
+                        {(setting.fileFilters ?? []).map((filter, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={filter.description}
+                                    onChange={(e) => updateFileFilter(setting, i, { description: e.target.value })}
+                                    placeholder="Text files"
+                                    className="flex-1 bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                />
+                                <ListInput
+                                    value={filter.files}
+                                    onChange={(files) => updateFileFilter(setting, i, { files })}
+                                    placeholder="*.txt, *.json"
+                                    className="flex-1 bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-xs font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                />
+                                <button type="button" onClick={() => handleSettingChange(setting.id, 'fileFilters', (setting.fileFilters ?? []).filter((_, j) => j !== i))} className="text-geode-red hover:text-opacity-80 p-1 rounded-full">
+                                    <TrashIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={() => handleSettingChange(setting.id, 'fileFilters', [...(setting.fileFilters ?? []), { description: '', files: [] }])} className="text-xs text-geode-blue hover:text-geode-teal">
+                            + Add Filter
+                        </button>
+                    </div>
+                );
+            case 'custom':
+                return (
+                    <div>
+                        <label className="block text-xs text-geode-blue mb-1">Custom type name</label>
+                        <input
+                            type="text"
+                            value={setting.customType ?? ''}
+                            onChange={(e) => handleSettingChange(setting.id, 'customType', e.target.value)}
+                            placeholder="my-setting-type"
+                            className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                        />
+                        <p className="mt-1 text-xs text-geode-overlay">Written as <code>custom:{setting.customType || setting.key}</code>. Your mod must register this type in C++.</p>
+                    </div>
+                );
             default:
                 return null;
         }
@@ -209,15 +598,17 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
 
 
     useEffect(() => {
-        const regex = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+        const regex = /^[a-z0-9_-]+\.[a-z0-9_-]+$/;
         if (modData.id && !regex.test(modData.id)) {
-            setIdError('Mod ID must be in reverse domain format, e.g., com.yourname.modname');
+            setIdError('Mod ID must be in the format developer.mod-name, e.g., yourname.modname');
         } else {
             setIdError('');
         }
     }, [modData.id]);
     
-    const isFormValid = modData.id && modData.name && modData.developer && !idError;
+    const hasSettingErrors = modData.settings.some(setting => getSettingRangeError(setting) !== null);
+    const hasReferenceErrors = [...modData.dependencies, ...modData.incompatibilities].some(ref => getVersionRangeError(ref.version) !== null);
+    const isFormValid = modData.id && modData.name && modData.developer && !idError && !hasSettingErrors && !hasReferenceErrors;
     const isAnyAiRunning = isGeneratingName || isGeneratingDesc || isGeneratingTags || isGeneratingLogo || isGeneratingSettings;
 
     const AITooltip = !aiEnabled ? "To use AI features, please set the API_KEY environment variable." : undefined;
@@ -243,7 +634,7 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
 
                 <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
                     <legend className="text-lg font-semibold text-geode-light mb-2">Core Info</legend>
-                    <InputField label="Mod ID" id="id" value={modData.id} onChange={handleChange} placeholder="com.yourname.modname" hint="A unique identifier. Lowercase, numbers, hyphens, and periods only." required />
+                    <InputField label="Mod ID" id="id" value={modData.id} onChange={handleChange} placeholder="yourname.modname" hint="A unique identifier: developer.mod-name. Lowercase letters, numbers, hyphens, and underscores, with exactly one period." required />
                     {idError && <p className="text-sm text-geode-red -mt-2">{idError}</p>}
                     <InputField label="Mod Name" id="name" value={modData.name} onChange={handleChange} placeholder="My Awesome Mod" required />
                     <InputField label="Developer" id="developer" value={modData.developer} onChange={handleChange} placeholder="Your Name" required />
@@ -280,10 +671,10 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                             )}
                         </div>
                         <div className="flex-1 space-y-2">
-                             <input type="file" id="logo-upload" accept="image/png" onChange={handleLogoUpload} className="hidden" />
+                             <input type="file" id="logo-upload" accept="image/png,image/jpeg,image/webp" onChange={handleLogoUpload} className="hidden" />
                             <label htmlFor="logo-upload" className="w-full cursor-pointer flex items-center justify-center gap-2 bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all">
                                 <UploadIcon className="h-5 w-5" />
-                                Upload logo.png
+                                Upload Image
                             </label>
 
                             <button type="button" onClick={onGenerateLogo} disabled={!aiEnabled || !modData.name || isAnyAiRunning} className="w-full flex items-center justify-center gap-2 bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed">
@@ -291,7 +682,10 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                                 {isGeneratingLogo ? 'Generating...' : 'Generate with AI'}
                             </button>
                              {modData.logo && (
-                                <button type="button" onClick={() => onFormChange({...modData, logo: undefined})} className="text-xs text-geode-red hover:underline">Remove Logo</button>
+                                <div className="flex gap-3">
+                                    <button type="button" onClick={() => onEditLogo(modData.logo!)} className="text-xs text-geode-blue hover:underline">Edit Logo</button>
+                                    <button type="button" onClick={() => onFormChange({...modData, logo: undefined})} className="text-xs text-geode-red hover:underline">Remove Logo</button>
+                                </div>
                             )}
                         </div>
                     </div>
@@ -321,20 +715,60 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                 <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
                     <legend className="text-lg font-semibold text-geode-light mb-2">Features & Templates</legend>
                     <div>
-                        <label htmlFor="cppTemplate" className="block text-sm font-medium text-geode-blue mb-1">C++ Template</label>
-                        <select id="cppTemplate" name="cppTemplate" value={modData.cppTemplate} onChange={handleChange} className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-2 text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal">
-                            <option value="menulayer">"Hello World" on MenuLayer</option>
-                            <option value="playlayer">Hook Player Death in PlayLayer</option>
-                            <option value="settings">Functional Settings Page</option>
-                        </select>
-                        <p className="mt-1 text-xs text-geode-teal">
-                            Note: The 'Settings' template will automatically generate C++ code for the custom settings you define below.
-                        </p>
+                        <p className="block text-sm font-medium text-geode-blue mb-1">Features</p>
+                        <p className="text-xs text-geode-overlay mb-2">Each checked feature gets its own file: hooks in src/hooks, the API in src/api.cpp.</p>
+                        <div className="space-y-2">
+                            {MOD_FEATURES.map(feature => (
+                                <label key={feature.id} className="flex items-start gap-3 bg-geode-crust/50 p-3 rounded-md border border-geode-surface cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={modData.features.includes(feature.id)}
+                                        onChange={() => toggleFeature(feature.id)}
+                                        className="mt-0.5 h-4 w-4 rounded border-geode-surface bg-geode-crust text-geode-teal focus:ring-geode-teal"
+                                    />
+                                    <div>
+                                        <span className="text-sm text-geode-light">{feature.label}</span>
+                                        <p className="text-xs text-geode-teal">{feature.description}</p>
+                                        {feature.hooks.length > 0 && (
+                                            <p className="text-xs text-geode-overlay">Hooks: <span className="font-mono">{feature.hooks.join(', ')}</span></p>
+                                        )}
+                                        {(feature.requiredDependencies?.length || feature.requiredSettings?.length) ? (
+                                            <p className="text-xs text-geode-overlay">
+                                                Adds {[
+                                                    ...(feature.requiredDependencies ?? []).map(id => `the ${id} dependency`),
+                                                    ...(feature.requiredSettings ?? []).map(setting => `the "${setting.key}" setting`),
+                                                ].join(' and ')}.
+                                            </p>
+                                        ) : null}
+                                    </div>
+                                </label>
+                            ))}
+                        </div>
                     </div>
-                    <InputField label="Dependencies" id="dependencies" value={modData.dependencies} onChange={handleChange} placeholder="geode.node-ids@^1.2.0, other.mod-id" hint="Comma-separated. Use `mod-id@version` to specify a version (defaults to `*`)." />
                     <InputField label="GitHub Repository" id="repository" value={modData.repository} onChange={handleChange} placeholder="https://github.com/yourname/modname" hint="Optional URL for your mod's source code." />
                 </fieldset>
 
+                <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
+                    <legend className="text-lg font-semibold text-geode-light mb-2">Dependencies</legend>
+                    <div className="space-y-3">
+                        {modData.dependencies.length > 0
+                            ? modData.dependencies.map(dep => renderModReference('dependencies', dep))
+                            : <p className="text-sm text-geode-overlay text-center py-2">No dependencies. Add mods yours needs, such as geode.node-ids.</p>}
+                        <button type="button" onClick={addDependency} className="w-full text-sm flex items-center justify-center gap-2 bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all">
+                            + Add Dependency
+                        </button>
+                    </div>
+                    <div className="space-y-3">
+                        <label className="block text-sm font-medium text-geode-blue">Incompatibilities</label>
+                        {modData.incompatibilities.length > 0
+                            ? modData.incompatibilities.map(inc => renderModReference('incompatibilities', inc))
+                            : <p className="text-sm text-geode-overlay text-center py-2">No incompatibilities. Add mods that break or conflict with yours.</p>}
+                        <button type="button" onClick={addIncompatibility} className="w-full text-sm flex items-center justify-center gap-2 bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all">
+                            + Add Incompatibility
+                        </button>
+                    </div>
+                </fieldset>
+
                 <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
                     <legend className="text-lg font-semibold text-geode-light mb-2 flex items-center justify-between w-full">
                         <div className="flex items-center gap-2">
@@ -379,6 +813,13 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                                         <option value="int">Integer</option>
                                         <option value="float">Float</option>
                                         <option value="string">String</option>
+                                        <option value="color">Color (RGB)</option>
+                                        <option value="rgba">Color (RGBA)</option>
+                                        <option value="file">File</option>
+                                        <option value="folder">Folder</option>
+                                        <option value="path">Path</option>
+                                        <option value="title">Title (section header)</option>
+                                        <option value="custom">Custom</option>
                                     </select>
                                 </div>
                                 <input
@@ -395,10 +836,13 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                                     rows={2}
                                     className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
                                 />
-                                <div className="flex items-center gap-3">
-                                    <label className="text-sm text-geode-blue">Default Value:</label>
-                                    {renderDefaultValueInput(setting)}
-                                </div>
+                                {renderTypeSpecificFields(setting)}
+                                {setting.type !== 'title' && setting.type !== 'custom' && (
+                                    <div className="flex items-center gap-3">
+                                        <label className="text-sm text-geode-blue">Default Value:</label>
+                                        {renderDefaultValueInput(setting)}
+                                    </div>
+                                )}
                             </div>
                         )) : (
                             <p className="text-sm text-geode-overlay text-center py-4">No custom settings defined. Click "Add Setting" or "Generate with AI" to add some!</p>
@@ -409,6 +853,59 @@ const ModForm: React.FC<ModFormProps> = ({ modData, onFormChange, onDownload, is
                     </div>
                 </fieldset>
 
+                <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
+                    <legend className="text-lg font-semibold text-geode-light mb-2">Build</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <SelectField label="C++ Standard" id="cppStandard" value={modData.build.cppStandard} onChange={(e) => updateBuildOptions({ cppStandard: e.target.value as ModBuildOptions['cppStandard'] })}>
+                            <option value="17">C++17</option>
+                            <option value="20">C++20</option>
+                            <option value="23">C++23</option>
+                        </SelectField>
+                        <SelectField label="Source Files" id="sourceListing" value={modData.build.sourceListing} onChange={(e) => updateBuildOptions({ sourceListing: e.target.value as ModBuildOptions['sourceListing'] })}>
+                            <option value="glob">Every .cpp in src/ (glob)</option>
+                            <option value="explicit">Explicit list</option>
+                        </SelectField>
+                    </div>
+                    <div>
+                        <label htmlFor="includeDirs" className="block text-sm font-medium text-geode-blue mb-1">Include Directories</label>
+                        <ListInput id="includeDirs" value={modData.build.includeDirs} onChange={(includeDirs) => updateBuildOptions({ includeDirs })} placeholder="include, src/vendor" className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-2 text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal" />
+                        <p className="mt-1 text-xs text-geode-overlay">Comma-separated, relative to the project root.</p>
+                    </div>
+                    <div>
+                        <label htmlFor="compileDefinitions" className="block text-sm font-medium text-geode-blue mb-1">Compile Definitions</label>
+                        <ListInput id="compileDefinitions" value={modData.build.compileDefinitions} onChange={(compileDefinitions) => updateBuildOptions({ compileDefinitions })} placeholder="MY_FLAG, LOG_LEVEL=2" className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-2 text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal" />
+                        <p className="mt-1 text-xs text-geode-overlay">Comma-separated preprocessor definitions.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-geode-blue">CPM Packages</label>
+                        {modData.build.cpmPackages.map(pkg => (
+                            <div key={pkg.id} className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={pkg.source}
+                                    onChange={(e) => updateCpmPackage(pkg.id, { source: e.target.value })}
+                                    placeholder="gh:fmtlib/fmt#10.2.1"
+                                    className="flex-[2] bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                />
+                                <input
+                                    type="text"
+                                    value={pkg.target}
+                                    onChange={(e) => updateCpmPackage(pkg.id, { target: e.target.value })}
+                                    placeholder="fmt"
+                                    className="flex-1 bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                />
+                                <button type="button" onClick={() => updateBuildOptions({ cpmPackages: modData.build.cpmPackages.filter(p => p.id !== pkg.id) })} className="text-geode-red hover:text-opacity-80 p-1 rounded-full">
+                                    <TrashIcon className="h-5 w-5" />
+                                </button>
+                            </div>
+                        ))}
+                        <button type="button" onClick={() => updateBuildOptions({ cpmPackages: [...modData.build.cpmPackages, { id: `cpm-${Date.now()}`, source: '', target: '' }] })} className="text-xs text-geode-blue hover:text-geode-teal">
+                            + Add Package
+                        </button>
+                        <p className="text-xs text-geode-overlay">Fetched with CPM and linked to your mod. The second field is the CMake target to link.</p>
+                    </div>
+                </fieldset>
+
                 <fieldset className="space-y-4 border-b border-geode-surface pb-6 pt-4">
                     <legend className="text-lg font-semibold text-geode-light mb-2">Advanced Options</legend>
                     <div className="space-y-3">
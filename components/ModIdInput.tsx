@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { getModIndexProvider, type ModIndexEntry } from '../services/modIndex';
+
+interface ModIdInputProps {
+    value: string;
+    onChange: (modId: string) => void;
+    placeholder?: string;
+}
+
+/**
+ * A mod ID text field that suggests mods from the mod index as you type.
+ */
+const ModIdInput: React.FC<ModIdInputProps> = ({ value, onChange, placeholder }) => {
+    const [suggestions, setSuggestions] = useState<ModIndexEntry[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        getModIndexProvider().search(value).then(results => {
+            if (cancelled) return;
+            // Hide the list once the value is exactly the only suggestion
+            setSuggestions(results.length === 1 && results[0].id === value ? [] : results);
+            setHighlighted(0);
+        }).catch(error => {
+            console.error("Failed to search the mod index:", error);
+            if (!cancelled) setSuggestions([]);
+        });
+        return () => { cancelled = true; };
+    }, [value, isOpen]);
+
+    const choose = (entry: ModIndexEntry) => {
+        onChange(entry.id);
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!isOpen || suggestions.length === 0) return;
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlighted(i => (i + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            choose(suggestions[highlighted]);
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+        }
+    };
+
+    return (
+        <div className="relative flex-1">
+            <input
+                type="text"
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setIsOpen(true);
+                }}
+                onFocus={() => setIsOpen(true)}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={handleKeyDown}
+                placeholder={placeholder}
+                role="combobox"
+                aria-expanded={isOpen && suggestions.length > 0}
+                aria-autocomplete="list"
+                className="w-full bg-geode-mantle border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal"
+            />
+            {isOpen && suggestions.length > 0 && (
+                <ul role="listbox" className="absolute left-0 right-0 top-full mt-1 max-h-60 overflow-y-auto bg-geode-mantle border border-geode-surface rounded-md shadow-xl z-20">
+                    {suggestions.map((entry, i) => (
+                        <li
+                            key={entry.id}
+                            role="option"
+                            aria-selected={i === highlighted}
+                            // mousedown fires before the input's blur closes the list
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                choose(entry);
+                            }}
+                            onMouseEnter={() => setHighlighted(i)}
+                            className={`px-3 py-2 cursor-pointer ${i === highlighted ? 'bg-geode-surface' : ''}`}
+                        >
+                            <div className="flex justify-between gap-2">
+                                <span className="text-sm text-geode-light">{entry.name}</span>
+                                <span className="text-xs text-geode-overlay">{entry.versions[0] && `v${entry.versions[0]}`}</span>
+                            </div>
+                            <p className="text-xs font-mono text-geode-teal">{entry.id}</p>
+                            <p className="text-xs text-geode-overlay truncate">{entry.description}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ModIdInput;
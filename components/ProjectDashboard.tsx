@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { ProjectSummary } from '../types';
+import { listProjects } from '../services/projectStore';
+import { FolderIcon, LoadingIcon, TrashIcon } from './IconComponents';
+
+interface ProjectDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+    currentProjectId: string | null;
+    onCreateProject: () => Promise<void>;
+    onOpenProject: (id: string) => Promise<void>;
+    onDuplicateProject: (id: string) => Promise<void>;
+    onRenameProject: (id: string, name: string) => Promise<void>;
+    onDeleteProject: (id: string) => Promise<void>;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const ProjectDashboard: React.FC<ProjectDashboardProps> = ({ isOpen, onClose, currentProjectId, onCreateProject, onOpenProject, onDuplicateProject, onRenameProject, onDeleteProject }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [projects, setProjects] = useState<ProjectSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setProjects(await listProjects());
+            setError('');
+        } catch (e) {
+            console.error("Failed to list projects:", e);
+            setError("Could not load saved projects. Your browser may be blocking local storage.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) {
+            refresh();
+        } else {
+            // Reset state if the modal is closed externally
+            setIsAnimatingOut(false);
+            setRenamingId(null);
+        }
+    }, [isOpen, refresh]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const runAction = async (action: () => Promise<void>, closeAfter = false) => {
+        try {
+            await action();
+        } catch (e) {
+            console.error("Project action failed:", e);
+            setError(e instanceof Error ? e.message : String(e));
+        }
+        if (closeAfter) {
+            handleClose();
+        } else {
+            await refresh();
+        }
+    };
+
+    const startRename = (project: ProjectSummary) => {
+        setRenamingId(project.id);
+        setRenameValue(project.name);
+    };
+
+    const submitRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = renamingId;
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (id && name) {
+            runAction(() => onRenameProject(id, name));
+        }
+    };
+
+    const handleDelete = (project: ProjectSummary) => {
+        if (window.confirm(`Delete "${project.name}"? Its files and chat history will be lost.`)) {
+            runAction(() => onDeleteProject(project.id));
+        }
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-2xl transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <FolderIcon className="h-6 w-6 text-geode-teal" />
+                        Your Projects
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 space-y-3 text-geode-light max-h-[60vh] overflow-y-auto">
+                    {isLoading && projects.length === 0 && (
+                        <div className="flex items-center justify-center gap-2 text-geode-overlay">
+                            <LoadingIcon className="animate-spin h-5 w-5" />
+                            Loading projects...
+                        </div>
+                    )}
+                    {!isLoading && projects.length === 0 && (
+                        <p className="text-sm text-geode-overlay text-center py-4">No saved projects yet.</p>
+                    )}
+                    {projects.map(project => {
+                        const isCurrent = project.id === currentProjectId;
+                        return (
+                            <div key={project.id} className={`p-3 rounded-md border ${isCurrent ? 'border-geode-teal bg-geode-teal/5' : 'border-geode-surface bg-geode-crust/50'}`}>
+                                <div className="flex justify-between items-start gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        {renamingId === project.id ? (
+                                            <form onSubmit={submitRename}>
+                                                <input
+                                                    type="text"
+                                                    value={renameValue}
+                                                    onChange={(e) => setRenameValue(e.target.value)}
+                                                    onBlur={submitRename}
+                                                    autoFocus
+                                                    className="w-full bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-sm text-geode-light focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                                />
+                                            </form>
+                                        ) : (
+                                            <p className="font-semibold truncate">
+                                                {project.name}
+                                                {isCurrent && <span className="ml-2 text-xs text-geode-teal">(open)</span>}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-geode-overlay font-mono truncate">{project.modId || 'No mod ID yet'}</p>
+                                        <p className="text-xs text-geode-overlay">Last edited {formatDate(project.updatedAt)}</p>
+                                    </div>
+                                    <div className="flex items-center gap-3 text-xs">
+                                        {!isCurrent && (
+                                            <button onClick={() => runAction(() => onOpenProject(project.id), true)} className="text-geode-green hover:underline">Open</button>
+                                        )}
+                                        <button onClick={() => startRename(project)} className="text-geode-blue hover:underline">Rename</button>
+                                        <button onClick={() => runAction(() => onDuplicateProject(project.id))} className="text-geode-blue hover:underline">Duplicate</button>
+                                        <button onClick={() => handleDelete(project)} className="text-geode-red hover:text-opacity-80 p-1 rounded-full" aria-label={`Delete ${project.name}`}>
+                                            <TrashIcon className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {error && <p className="text-sm text-center text-geode-red">{error}</p>}
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-between">
+                    <button
+                        onClick={() => runAction(onCreateProject, true)}
+                        className="bg-geode-green text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        + New Project
+                    </button>
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProjectDashboard;
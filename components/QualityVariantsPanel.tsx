@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+import { QUALITY_TIERS, parseQualityPath, getQualityPath, generateQualityVariants, type QualityTierId } from '../services/assetPipeline';
+import { formatFileSize } from '../services/vfs';
+import { LoadingIcon } from './IconComponents';
+
+interface QualityVariantsPanelProps {
+    path: string; // the image open in the editor, in any tier
+    files: VirtualFileSystem;
+    onAddFiles: (files: GeneratedFiles) => void;
+}
+
+/**
+ * Previews an asset's UHD, HD and SD images in tabs and makes the lower
+ * tiers from the UHD one.
+ */
+const QualityVariantsPanel: React.FC<QualityVariantsPanelProps> = ({ path, files, onAddFiles }) => {
+    const { basePath, tier: openTier } = parseQualityPath(path);
+    const [activeTier, setActiveTier] = useState<QualityTierId>(openTier.id);
+    const [dimensions, setDimensions] = useState<Record<string, string>>({});
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setActiveTier(openTier.id);
+        setError('');
+    }, [path]);
+
+    const variants = QUALITY_TIERS.map(tier => ({ tier, path: getQualityPath(basePath, tier), file: files[getQualityPath(basePath, tier)] }));
+    const active = variants.find(variant => variant.tier.id === activeTier) ?? variants[0];
+    const uhd = variants[0];
+    // Without a UHD file, the open image is taken as the UHD source
+    const source = uhd.file ? uhd : variants.find(variant => variant.path === path)!;
+
+    const handleGenerate = async () => {
+        if (!source.file) return;
+        const overwritten = variants.filter(variant => variant.file && variant.tier.id !== 'uhd').map(variant => variant.path);
+        if (overwritten.length > 0 && !window.confirm(`This replaces ${overwritten.join(', ')} with scaled-down copies of ${source.path}. Continue?`)) return;
+        setIsGenerating(true);
+        setError('');
+        try {
+            onAddFiles(await generateQualityVariants(basePath, source.file.content));
+            setDimensions({});
+            setActiveTier('uhd');
+        } catch (e) {
+            console.error("Failed to generate quality variants:", e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <div className="flex-1 flex flex-col min-h-0 bg-geode-crust">
+            <div className="flex items-center gap-1 px-3 py-2 border-b border-geode-surface">
+                {variants.map(({ tier, path: variantPath, file }) => (
+                    <button
+                        key={tier.id}
+                        onClick={() => setActiveTier(tier.id)}
+                        title={variantPath}
+                        className={`px-2 py-0.5 rounded-md text-xs font-bold transition-colors ${activeTier === tier.id ? 'bg-geode-surface text-geode-light' : 'text-geode-overlay hover:text-geode-light'} ${file ? '' : 'line-through'}`}
+                    >
+                        {tier.label}
+                    </button>
+                ))}
+                <span className="ml-2 text-xs font-mono text-geode-overlay truncate">
+                    {active.file ? `${active.path}${dimensions[active.path] ? `, ${dimensions[active.path]}` : ''}, ${formatFileSize(active.file.size)}` : `${active.path} is missing`}
+                </span>
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || !source.file}
+                    className="ml-auto flex items-center gap-1.5 text-xs font-bold text-geode-blue hover:text-geode-teal disabled:text-geode-overlay disabled:cursor-not-allowed"
+                >
+                    {isGenerating && <LoadingIcon className="animate-spin h-4 w-4" />}
+                    {uhd.file ? 'Regenerate HD & SD from UHD' : 'Use as UHD & Generate Tiers'}
+                </button>
+            </div>
+            <div className="flex-1 overflow-auto p-4 flex items-center justify-center">
+                {active.file ? (
+                    <img
+                        src={`data:${active.file.mimeType};base64,${active.file.content}`}
+                        alt={active.path}
+                        onLoad={(e) => {
+                            const { naturalWidth, naturalHeight } = e.currentTarget;
+                            setDimensions(prev => ({ ...prev, [active.path]: `${naturalWidth}x${naturalHeight}` }));
+                        }}
+                        className="max-w-full max-h-full object-contain border border-geode-surface rounded-md"
+                    />
+                ) : (
+                    <p className="text-sm text-geode-overlay">No {active.tier.label} version yet. Geode falls back to another tier, scaled.</p>
+                )}
+            </div>
+            {error && <p className="px-3 pb-2 text-xs text-geode-red">{error}</p>}
+        </div>
+    );
+};
+
+export default QualityVariantsPanel;
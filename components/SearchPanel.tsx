@@ -0,0 +1,137 @@
+import React, { useState, useMemo } from 'react';
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+import { findInFiles, replaceInFiles, buildSearchPattern, type SearchMatch, type SearchOptions } from '../services/fileSearch';
+
+interface SearchPanelProps {
+    files: VirtualFileSystem;
+    query: string;
+    onQueryChange: (query: string) => void;
+    onOpenMatch: (match: SearchMatch) => void;
+    onReplace: (changedFiles: GeneratedFiles) => void;
+}
+
+const OptionToggle: React.FC<{ label: string; title: string; active: boolean; onToggle: () => void }> = ({ label, title, active, onToggle }) => (
+    <button
+        onClick={onToggle}
+        title={title}
+        aria-pressed={active}
+        className={`px-1.5 py-0.5 rounded text-xs font-mono transition-colors ${active ? 'bg-geode-teal text-geode-crust' : 'text-geode-overlay hover:text-geode-light hover:bg-geode-surface'}`}
+    >
+        {label}
+    </button>
+);
+
+/**
+ * Find and replace across every text file in the project.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ files, query, onQueryChange, onOpenMatch, onReplace }) => {
+    const [replacement, setReplacement] = useState('');
+    const [options, setOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+
+    const matches = useMemo(() => findInFiles(files, query, options), [files, query, options]);
+    const isInvalidRegex = options.regex && query !== '' && buildSearchPattern(query, options) === null;
+
+    const matchesByFile = useMemo(() => {
+        const grouped: Record<string, SearchMatch[]> = {};
+        matches.forEach(match => {
+            (grouped[match.path] ??= []).push(match);
+        });
+        return grouped;
+    }, [matches]);
+    const paths = Object.keys(matchesByFile);
+
+    const toggleOption = (option: keyof SearchOptions) => setOptions(prev => ({ ...prev, [option]: !prev[option] }));
+
+    const replace = (onlyPaths?: string[]) => {
+        const changed = replaceInFiles(files, query, replacement, options, onlyPaths);
+        if (Object.keys(changed).length > 0) onReplace(changed);
+    };
+
+    const renderPreview = (match: SearchMatch) => {
+        // Drop leading indentation so the match stays visible in the narrow panel
+        const indent = match.lineText.length - match.lineText.trimStart().length;
+        const column = match.column - indent;
+        const text = match.lineText.slice(indent);
+        const length = match.end - match.start;
+        return (
+            <>
+                {text.slice(0, column)}
+                <span className="bg-geode-yellow/30 text-geode-light rounded-sm">{text.slice(column, column + length)}</span>
+                {text.slice(column + length)}
+            </>
+        );
+    };
+
+    const inputClassName = 'flex-1 min-w-0 bg-geode-mantle border border-geode-surface rounded-md px-2 py-1 text-sm font-mono text-geode-light placeholder-geode-overlay focus:outline-none focus:ring-2 focus:ring-geode-teal';
+
+    return (
+        <div className="bg-geode-crust h-full flex flex-col">
+            <div className="p-3 space-y-2 border-b border-geode-surface">
+                <div className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => onQueryChange(e.target.value)}
+                        placeholder="Search"
+                        autoFocus
+                        className={inputClassName}
+                    />
+                    <OptionToggle label="Aa" title="Match case" active={options.caseSensitive} onToggle={() => toggleOption('caseSensitive')} />
+                    <OptionToggle label="ab" title="Match whole word" active={options.wholeWord} onToggle={() => toggleOption('wholeWord')} />
+                    <OptionToggle label=".*" title="Use regular expression" active={options.regex} onToggle={() => toggleOption('regex')} />
+                </div>
+                <div className="flex items-center gap-1">
+                    <input
+                        type="text"
+                        value={replacement}
+                        onChange={(e) => setReplacement(e.target.value)}
+                        placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                        className={inputClassName}
+                    />
+                    <button
+                        onClick={() => replace()}
+                        disabled={matches.length === 0}
+                        className="px-2 py-1 rounded-md text-xs font-bold text-geode-blue hover:bg-geode-surface disabled:text-geode-overlay disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                    >
+                        Replace All
+                    </button>
+                </div>
+                <p className={`text-xs ${isInvalidRegex ? 'text-geode-red' : 'text-geode-overlay'}`}>
+                    {isInvalidRegex
+                        ? 'Invalid regular expression.'
+                        : query && `${matches.length} result${matches.length === 1 ? '' : 's'} in ${paths.length} file${paths.length === 1 ? '' : 's'}`}
+                </p>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2">
+                {paths.map(path => (
+                    <div key={path} className="mb-2">
+                        <div className="group flex items-center justify-between px-2 py-1">
+                            <span className="text-xs font-mono font-semibold text-geode-teal truncate" title={path}>{path}</span>
+                            <button
+                                onClick={() => replace([path])}
+                                className="text-xs text-geode-overlay hover:text-geode-blue opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                Replace
+                            </button>
+                        </div>
+                        <ul>
+                            {matchesByFile[path].map(match => (
+                                <li key={match.start}>
+                                    <button
+                                        onClick={() => onOpenMatch(match)}
+                                        className="w-full flex gap-2 px-2 py-0.5 text-left rounded-md text-xs font-mono text-geode-overlay hover:bg-geode-surface/50 transition-colors"
+                                    >
+                                        <span className="shrink-0 w-8 text-right">{match.line}</span>
+                                        <span className="truncate whitespace-pre">{renderPreview(match)}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SearchPanel;
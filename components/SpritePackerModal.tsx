@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+import { buildSpriteSheet, getFrameName, DEFAULT_PACK_OPTIONS, type PackOptions } from '../services/spritePacker';
+import { QUALITY_TIERS } from '../services/assetPipeline';
+import { readFileAsBase64 } from '../services/fileUtils';
+import { normalizeFilePath } from '../services/fileOperations';
+import { formatFileSize, getContentSize } from '../services/vfs';
+import { ImageIcon, UploadIcon, LoadingIcon } from './IconComponents';
+
+interface SpritePackerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    files: VirtualFileSystem | null;
+    onAddFiles: (files: GeneratedFiles) => void;
+}
+
+// PNGs in the project that aren't already the texture of a sheet
+const getSpriteCandidates = (files: VirtualFileSystem): string[] => {
+    return Object.keys(files)
+        .filter(path => files[path].mimeType === 'image/png' && files[path].encoding === 'base64')
+        .filter(path => files[path.replace(/\.png$/, '.plist')] === undefined)
+        .sort();
+};
+
+/**
+ * Packs individual sprites into a Cocos2d sprite sheet with exact frame
+ * rects, for every texture quality.
+ */
+const SpritePackerModal: React.FC<SpritePackerModalProps> = ({ isOpen, onClose, files, onAddFiles }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [selected, setSelected] = useState<string[]>([]);
+    // Sprites uploaded just for this sheet, keyed by frame name
+    const [uploads, setUploads] = useState<Record<string, string>>({});
+    const [sheetName, setSheetName] = useState('assets/MySheet');
+    const [options, setOptions] = useState<PackOptions>(DEFAULT_PACK_OPTIONS);
+    const [result, setResult] = useState<GeneratedFiles | null>(null);
+    const [isPacking, setIsPacking] = useState(false);
+    const [error, setError] = useState('');
+
+    const candidates = useMemo(() => (files ? getSpriteCandidates(files) : []), [files]);
+
+    useEffect(() => {
+        // Reset state if the modal is closed externally
+        if (!isOpen) {
+            setIsAnimatingOut(false);
+            setSelected([]);
+            setUploads({});
+            setResult(null);
+            setError('');
+        }
+    }, [isOpen]);
+
+    // Any change to the input makes the last result stale
+    useEffect(() => {
+        setResult(null);
+        setError('');
+    }, [selected, uploads, sheetName, options]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const toggleSprite = (path: string) => {
+        setSelected(prev => (prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]));
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const pngs = Array.from<File>(e.target.files ?? []).filter(file => file.name.toLowerCase().endsWith('.png'));
+        e.target.value = '';
+        const added = await Promise.all(pngs.map(async file => [file.name, await readFileAsBase64(file)] as const));
+        setUploads(prev => ({ ...prev, ...Object.fromEntries(added) }));
+    };
+
+    const sheetPath = normalizeFilePath(sheetName).replace(/\.(png|plist)$/i, '');
+
+    const handlePack = async () => {
+        if (!files) return;
+        const sprites: Record<string, string> = { ...uploads };
+        for (const path of selected) {
+            const name = getFrameName(path);
+            if (sprites[name] !== undefined) {
+                setError(`Two sprites are named ${name}. Frame names must be unique within a sheet.`);
+                return;
+            }
+            sprites[name] = files[path].content;
+        }
+        if (Object.keys(sprites).length === 0) {
+            setError('Pick at least one sprite.');
+            return;
+        }
+        if (!sheetPath) {
+            setError('Enter a name for the sheet.');
+            return;
+        }
+        setIsPacking(true);
+        setError('');
+        try {
+            setResult(await buildSpriteSheet(sheetPath, sprites, options));
+        } catch (e) {
+            console.error("Failed to pack sprites:", e);
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsPacking(false);
+        }
+    };
+
+    const handleAdd = () => {
+        if (!result) return;
+        const existing = Object.keys(result).filter(path => files?.[path] !== undefined);
+        if (existing.length > 0 && !window.confirm(`Replace ${existing.join(', ')}?`)) return;
+        onAddFiles(result);
+        handleClose();
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const uhdTexture = result?.[`${sheetPath}-uhd.png`];
+    const spriteCount = selected.length + Object.keys(uploads).length;
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-3xl max-h-full flex flex-col transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <ImageIcon className="h-6 w-6 text-geode-teal" />
+                        Sprite Sheet Packer
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6 text-geode-light overflow-y-auto">
+                    <div className="space-y-4">
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-sm font-semibold text-geode-teal">Sprites</h3>
+                                <input type="file" id="sprite-packer-upload" accept=".png,image/png" multiple onChange={handleUpload} className="hidden" />
+                                <label htmlFor="sprite-packer-upload" className="cursor-pointer flex items-center gap-1 text-xs text-geode-overlay hover:text-geode-light">
+                                    <UploadIcon className="h-4 w-4" />
+                                    Upload PNGs
+                                </label>
+                            </div>
+                            <ul className="max-h-56 overflow-y-auto bg-geode-crust rounded-md p-2 space-y-1">
+                                {candidates.map(path => (
+                                    <li key={path}>
+                                        <label className="flex items-center gap-2 text-sm font-mono cursor-pointer">
+                                            <input type="checkbox" checked={selected.includes(path)} onChange={() => toggleSprite(path)} className="accent-geode-teal" />
+                                            <img src={`data:image/png;base64,${files?.[path].content}`} alt="" className="h-5 w-5 object-contain" />
+                                            <span className="truncate">{path}</span>
+                                        </label>
+                                    </li>
+                                ))}
+                                {Object.keys(uploads).map(name => (
+                                    <li key={`upload:${name}`} className="flex items-center gap-2 text-sm font-mono">
+                                        <img src={`data:image/png;base64,${uploads[name]}`} alt="" className="h-5 w-5 object-contain" />
+                                        <span className="truncate flex-1">{name}</span>
+                                        <button
+                                            onClick={() => setUploads(({ [name]: _, ...rest }) => rest)}
+                                            className="text-geode-overlay hover:text-geode-red"
+                                            aria-label={`Remove ${name}`}
+                                        >
+                                            &times;
+                                        </button>
+                                    </li>
+                                ))}
+                                {candidates.length === 0 && Object.keys(uploads).length === 0 && (
+                                    <li className="text-xs text-geode-overlay">No PNG sprites in the project yet. Upload some to get started.</li>
+                                )}
+                            </ul>
+                        </div>
+                        <div>
+                            <label htmlFor="sprite-sheet-name" className="block text-sm font-semibold text-geode-teal mb-1">Sheet</label>
+                            <input
+                                id="sprite-sheet-name"
+                                type="text"
+                                value={sheetName}
+                                onChange={(e) => setSheetName(e.target.value)}
+                                className="w-full bg-geode-crust border border-geode-surface rounded-md px-3 py-1.5 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                            />
+                            <p className="text-xs text-geode-overlay mt-1">
+                                Writes {QUALITY_TIERS.map(tier => `${getFrameName(sheetPath || 'sheet')}${tier.suffix}`).join(', ')} as .png and .plist.
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 text-sm">
+                            <label className="flex items-center gap-2">
+                                Padding
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={16}
+                                    value={options.padding}
+                                    onChange={(e) => setOptions(prev => ({ ...prev, padding: Math.max(0, Math.min(16, Number(e.target.value) || 0)) }))}
+                                    className="w-16 bg-geode-crust border border-geode-surface rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-geode-teal"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={options.trim} onChange={(e) => setOptions(prev => ({ ...prev, trim: e.target.checked }))} className="accent-geode-teal" />
+                                Trim transparency
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={options.allowRotation} onChange={(e) => setOptions(prev => ({ ...prev, allowRotation: e.target.checked }))} className="accent-geode-teal" />
+                                Allow rotation
+                            </label>
+                        </div>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <h3 className="text-sm font-semibold text-geode-teal">Preview</h3>
+                        <div className="flex-1 min-h-[12rem] bg-geode-crust rounded-md flex items-center justify-center p-2">
+                            {isPacking ? (
+                                <LoadingIcon className="animate-spin h-6 w-6 text-geode-overlay" />
+                            ) : uhdTexture ? (
+                                <img src={`data:image/png;base64,${uhdTexture}`} alt="Packed sheet" className="max-w-full max-h-64 object-contain" />
+                            ) : (
+                                <p className="text-xs text-geode-overlay">{spriteCount > 0 ? `${spriteCount} sprite${spriteCount === 1 ? '' : 's'} ready to pack` : 'Pick sprites to pack'}</p>
+                            )}
+                        </div>
+                        {result && (
+                            <ul className="text-xs font-mono text-geode-overlay">
+                                {Object.keys(result).filter(path => path.endsWith('.png')).map(path => (
+                                    <li key={path}>{getFrameName(path)}: {formatFileSize(getContentSize(result[path] ?? '', 'base64'))}</li>
+                                ))}
+                            </ul>
+                        )}
+                        {error && <p className="text-sm text-geode-red">{error}</p>}
+                    </div>
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end gap-3">
+                    <button
+                        onClick={handlePack}
+                        disabled={isPacking || spriteCount === 0}
+                        className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:text-geode-overlay disabled:cursor-not-allowed"
+                    >
+                        Pack
+                    </button>
+                    <button
+                        onClick={handleAdd}
+                        disabled={!result}
+                        className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
+                    >
+                        Add to Project
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SpritePackerModal;
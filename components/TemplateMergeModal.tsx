@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { mergeThreeWay } from '../services/diff';
+import DiffView from './DiffView';
+import { InfoIcon } from './IconComponents';
+
+interface TemplateMergeModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    path: string;
+    base: string; // template output the edited file was derived from
+    ours: string; // the file as it is now
+    theirs: string; // the template's new output
+    onResolve: (content: string | null) => void; // null keeps the current content
+}
+
+type MergeTab = 'template' | 'yours' | 'merged';
+
+const TemplateMergeModal: React.FC<TemplateMergeModalProps> = ({ isOpen, onClose, path, base, ours, theirs, onResolve }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+    const [activeTab, setActiveTab] = useState<MergeTab>('template');
+    const autoMerge = useMemo(() => mergeThreeWay(base, ours, theirs), [base, ours, theirs]);
+    const [merged, setMerged] = useState(autoMerge.merged);
+
+    useEffect(() => {
+        setMerged(autoMerge.merged);
+    }, [autoMerge]);
+
+    useEffect(() => {
+        // Reset state if the modal is closed externally
+        if (!isOpen) {
+            setIsAnimatingOut(false);
+            setActiveTab('template');
+        }
+    }, [isOpen]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    const resolve = (content: string | null) => {
+        onResolve(content);
+        handleClose();
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const hasConflictMarkers = /^(<<<<<<<|>>>>>>>) /m.test(merged);
+    const tabs: { key: MergeTab; label: string }[] = [
+        { key: 'template', label: 'Template changes' },
+        { key: 'yours', label: 'Your changes' },
+        { key: 'merged', label: autoMerge.conflicts > 0 ? `Merged (${autoMerge.conflicts} conflict${autoMerge.conflicts === 1 ? '' : 's'})` : 'Merged' },
+    ];
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-4xl transform transition-all flex flex-col max-h-[90vh] ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light">
+                        Template update for <span className="font-mono text-geode-teal">{path}</span>
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <p className="px-4 pt-3 text-sm text-geode-overlay flex items-center gap-2">
+                    <InfoIcon className="h-4 w-4 shrink-0" />
+                    You edited this file, and a change in the form would now generate it differently. Your edits have been kept until you decide.
+                </p>
+                <div className="flex border-b border-geode-surface px-4 mt-3">
+                    {tabs.map(tab => (
+                        <button
+                            key={tab.key}
+                            onClick={() => setActiveTab(tab.key)}
+                            className={`px-4 py-2 text-sm font-medium transition-colors ${
+                                activeTab === tab.key
+                                    ? 'text-geode-teal border-b-2 border-geode-teal'
+                                    : 'text-geode-overlay hover:text-geode-light'
+                            }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex-1 overflow-auto bg-geode-crust min-h-[300px]">
+                    {activeTab === 'template' && <DiffView oldText={base} newText={theirs} className="p-3" />}
+                    {activeTab === 'yours' && <DiffView oldText={base} newText={ours} className="p-3" />}
+                    {activeTab === 'merged' && (
+                        <textarea
+                            value={merged}
+                            onChange={(e) => setMerged(e.target.value)}
+                            className="w-full h-full min-h-[300px] p-4 bg-transparent text-sm text-geode-light font-mono resize-none border-none outline-none leading-relaxed"
+                            spellCheck="false"
+                        />
+                    )}
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex flex-wrap justify-between items-center gap-3">
+                    <p className="text-xs text-geode-red">
+                        {hasConflictMarkers && 'Resolve the conflict markers in the Merged tab before applying the merge.'}
+                    </p>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => resolve(null)}
+                            className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                        >
+                            Keep Mine
+                        </button>
+                        <button
+                            onClick={() => resolve(theirs)}
+                            className="bg-geode-blue text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                        >
+                            Use Template
+                        </button>
+                        <button
+                            onClick={() => resolve(merged)}
+                            disabled={hasConflictMarkers}
+                            className="bg-geode-green text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all disabled:bg-geode-surface disabled:text-geode-overlay disabled:cursor-not-allowed"
+                        >
+                            Apply Merge
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TemplateMergeModal;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import type { Diagnostic } from '../services/modJsonValidator';
+import { InfoIcon } from './IconComponents';
+
+interface ValidationSummaryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    diagnostics: Diagnostic[];
+    onDownloadAnyway: () => void;
+}
+
+const ValidationSummaryModal: React.FC<ValidationSummaryModalProps> = ({ isOpen, onClose, diagnostics, onDownloadAnyway }) => {
+    const [isAnimatingOut, setIsAnimatingOut] = useState(false);
+
+    useEffect(() => {
+        // Reset animation state if the modal is closed externally
+        if (!isOpen) {
+            setIsAnimatingOut(false);
+        }
+    }, [isOpen]);
+
+    const handleClose = () => {
+        setIsAnimatingOut(true);
+        setTimeout(onClose, 200); // Must match animation duration
+    };
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const hasErrors = errorCount > 0;
+
+    return (
+        <div
+            className={`fixed inset-0 bg-geode-crust bg-opacity-75 flex items-center justify-center z-50 p-4 ${isAnimatingOut ? 'animate-fade-out' : 'animate-fade-in'}`}
+            onClick={handleClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className={`bg-geode-mantle rounded-lg shadow-xl border border-geode-surface w-full max-w-2xl transform transition-all ${isAnimatingOut ? 'animate-modal-out' : 'animate-modal-in'}`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-4 border-b border-geode-surface">
+                    <h2 className="text-xl font-bold text-geode-light flex items-center gap-3">
+                        <InfoIcon className={`h-6 w-6 ${hasErrors ? 'text-geode-red' : 'text-geode-yellow'}`} />
+                        {hasErrors ? 'mod.json has errors' : 'mod.json has warnings'}
+                    </h2>
+                    <button
+                        onClick={handleClose}
+                        className="text-geode-overlay hover:text-geode-light text-2xl"
+                        aria-label="Close"
+                    >
+                        &times;
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 text-geode-light max-h-[60vh] overflow-y-auto">
+                    <p className="text-sm">
+                        {hasErrors
+                            ? 'Geode would refuse to load this mod. Fix the errors below in the form or in mod.json, then download again.'
+                            : 'Geode can load this mod, but you may want to look at these first.'}
+                    </p>
+                    <ul className="space-y-1 font-mono text-xs">
+                        {diagnostics.map((diagnostic, i) => (
+                            <li key={i} className={diagnostic.severity === 'error' ? 'text-geode-red' : 'text-geode-yellow'}>
+                                <span className="text-geode-overlay">Line {diagnostic.line}:</span> {diagnostic.message}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <div className="p-4 bg-geode-crust border-t border-geode-surface flex justify-end gap-3">
+                    <button
+                        onClick={handleClose}
+                        className="bg-geode-surface text-geode-light font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                    >
+                        {hasErrors ? 'Close' : 'Cancel'}
+                    </button>
+                    {!hasErrors && (
+                        <button
+                            onClick={() => {
+                                onDownloadAnyway();
+                                handleClose();
+                            }}
+                            className="bg-geode-green text-geode-crust font-bold py-2 px-4 rounded-md hover:bg-opacity-90 transition-all"
+                        >
+                            Download Anyway
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ValidationSummaryModal;
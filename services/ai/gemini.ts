@@ -0,0 +1,70 @@
+import { GoogleGenAI, FunctionCallingConfigMode, type GenerateContentConfig, type SendMessageParameters } from '@google/genai';
+import type { AiProvider, AiTask } from '../../types';
+
+// Deep Think uses the max budget for gemini-2.5-flash for more complex reasoning
+const DEEP_THINK_BUDGET = 24576;
+
+export const createGeminiProvider = (apiKey: string, models: Record<AiTask, string>): AiProvider => {
+    const client = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        createChat: ({ systemInstruction, tools, history = [] }) => {
+            const config: GenerateContentConfig = {
+                systemInstruction,
+                tools: tools.length > 0
+                    ? [{ functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+                    : undefined,
+            };
+            const chat = client.chats.create({
+                model: models.chat,
+                config,
+                history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+            });
+            return {
+                async *sendStream(message, options = {}) {
+                    const request: SendMessageParameters = {
+                        message: typeof message === 'string'
+                            ? message
+                            : message.map(result => ({ functionResponse: { id: result.id, name: result.name, response: result.response } })),
+                        // Per-message configs replace the chat's, so this one repeats it
+                        config: {
+                            ...config,
+                            ...(options.deepThink ? { thinkingConfig: { thinkingBudget: DEEP_THINK_BUDGET } } : {}),
+                            ...(options.noToolCalls ? { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } } : {}),
+                        },
+                    };
+                    for await (const chunk of await chat.sendMessageStream(request)) {
+                        const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+                        yield {
+                            text: parts.filter(part => part.text && !part.thought).map(part => part.text).join(''),
+                            toolCalls: (chunk.functionCalls ?? []).map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} })),
+                        };
+                    }
+                },
+            };
+        },
+        generateText: async (prompt) => {
+            const response = await client.models.generateContent({ model: models.text, contents: prompt });
+            return (response.text ?? '').trim();
+        },
+        generateJson: async (prompt, schema) => {
+            const response = await client.models.generateContent({
+                model: models.json,
+                contents: prompt,
+                config: { responseMimeType: 'application/json', responseJsonSchema: schema },
+            });
+            return JSON.parse((response.text ?? '').trim());
+        },
+        generateImage: async (prompt) => {
+            const response = await client.models.generateImages({
+                model: models.image,
+                prompt,
+                config: { numberOfImages: 1, aspectRatio: '1:1' },
+            });
+            const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+            if (!imageBytes) throw new Error("AI did not return an image.");
+            return imageBytes;
+        },
+    };
+};
@@ -0,0 +1,83 @@
+import type { AiProvider, AiProviderId, AiSettings, AiTask } from '../../types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAiCompatibleProvider } from './openAiCompatible';
+import { createMockProvider } from './mock';
+
+const AI_SETTINGS_KEY = 'geode-mod-creator:ai-settings';
+
+export interface AiProviderOption {
+    id: AiProviderId;
+    label: string;
+    description: string;
+    defaultModels: Record<AiTask, string>;
+}
+
+export const AI_PROVIDERS: AiProviderOption[] = [
+    {
+        id: 'gemini',
+        label: 'Google Gemini',
+        description: 'Uses the GEMINI_API_KEY from .env.local.',
+        defaultModels: { chat: 'gemini-2.5-flash', text: 'gemini-2.5-flash', json: 'gemini-2.5-flash', image: 'imagen-4.0-generate-001' },
+    },
+    {
+        id: 'openai',
+        label: 'OpenAI-compatible',
+        description: 'OpenAI, or a local llama.cpp, Ollama or LM Studio server.',
+        defaultModels: { chat: 'llama3.1', text: 'llama3.1', json: 'llama3.1', image: '' },
+    },
+    {
+        id: 'mock',
+        label: 'Offline mock',
+        description: 'Canned, deterministic answers for tests and offline demos.',
+        defaultModels: { chat: 'mock', text: 'mock', json: 'mock', image: 'mock' },
+    },
+];
+
+export const AI_TASKS: { id: AiTask; label: string }[] = [
+    { id: 'chat', label: 'Chat (Gigi)' },
+    { id: 'text', label: 'Descriptions & tags' },
+    { id: 'json', label: 'Names & settings' },
+    { id: 'image', label: 'Images' },
+];
+
+export const getDefaultAiSettings = (): AiSettings => ({
+    provider: process.env.API_KEY ? 'gemini' : 'mock',
+    models: Object.fromEntries(AI_PROVIDERS.map(option => [option.id, { ...option.defaultModels }])) as AiSettings['models'],
+    openAiBaseUrl: 'http://localhost:11434/v1',
+    openAiApiKey: '',
+});
+
+export const loadAiSettings = (): AiSettings => {
+    const defaults = getDefaultAiSettings();
+    try {
+        const saved = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) ?? 'null') as Partial<AiSettings> | null;
+        if (!saved) return defaults;
+        const models = { ...defaults.models };
+        for (const option of AI_PROVIDERS) {
+            models[option.id] = { ...defaults.models[option.id], ...saved.models?.[option.id] };
+        }
+        return { ...defaults, ...saved, models };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveAiSettings = (settings: AiSettings): void => localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+
+/**
+ * The provider the settings pick. Throws when it can't be set up, e.g.
+ * Gemini without an API key.
+ */
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+    const models = settings.models[settings.provider];
+    switch (settings.provider) {
+        case 'gemini':
+            if (!process.env.API_KEY) throw new Error("Gemini needs an API key. Set GEMINI_API_KEY in .env.local, or pick another provider in AI Settings.");
+            return createGeminiProvider(process.env.API_KEY, models);
+        case 'openai':
+            if (!settings.openAiBaseUrl.trim()) throw new Error("Enter the server's base URL in AI Settings.");
+            return createOpenAiCompatibleProvider(settings.openAiBaseUrl, settings.openAiApiKey, models);
+        case 'mock':
+            return createMockProvider();
+    }
+};
@@ -0,0 +1,86 @@
+import type { AiProvider, AiSchema, AiChatChunk } from '../../types';
+import { createCanvas, canvasToBase64 } from '../imageUtils';
+
+// FNV-1a, so the same prompt always gets the same answer
+const hash = (text: string): number => {
+    let value = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        value ^= text.charCodeAt(i);
+        value = Math.imul(value, 0x01000193);
+    }
+    return value >>> 0;
+};
+
+// The message the user typed, without the project context appended to it
+const getRequestLine = (message: string): string => message.split('\n')[0].trim().slice(0, 120);
+
+// A value of the right shape for a JSON schema
+const sampleSchema = (schema: AiSchema, seed: number, key = 'value'): unknown => {
+    if (schema.enum?.length) return schema.enum[seed % schema.enum.length];
+    switch (schema.type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property], i) => [name, sampleSchema(property, seed + i, name)]));
+        case 'array':
+            return schema.items ? [0, 1].map(i => sampleSchema(schema.items!, seed + i, key)) : [];
+        case 'number':
+        case 'integer':
+            return seed % 10;
+        case 'boolean':
+            return seed % 2 === 0;
+        default:
+            return key === 'id' ? `mock.mod-${seed % 1000}` : `mock-${key}-${seed % 1000}`;
+    }
+};
+
+async function* streamWords(text: string): AsyncGenerator<AiChatChunk> {
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+        await new Promise(resolve => setTimeout(resolve, 15));
+        yield { text: word };
+    }
+}
+
+/**
+ * Answers without a network: deterministic text, JSON shaped by the schema,
+ * a generated placeholder image, and a chat that echoes the request. Asking
+ * the chat to "create some/path.ext" proposes that file, so the file-change
+ * flow can be demoed offline.
+ */
+export const createMockProvider = (): AiProvider => ({
+    id: 'mock',
+    createChat: ({ tools, history = [] }) => {
+        let turn = history.filter(previous => previous.role === 'user').length;
+        return {
+            async *sendStream(message) {
+                turn++;
+                if (typeof message !== 'string') {
+                    yield* streamWords('Done. Review the proposed change above.');
+                    return;
+                }
+                const request = getRequestLine(message);
+                const fileRequest = /\bcreate\s+([\w./-]+\.\w+)/i.exec(request);
+                if (fileRequest && tools.some(tool => tool.name === 'createFile')) {
+                    yield* streamWords(`Here's a starting point for ${fileRequest[1]}.`);
+                    yield { toolCalls: [{ id: `mock-call-${turn}`, name: 'createFile', args: { path: fileRequest[1], content: `// ${fileRequest[1]}, proposed by the offline mock provider\n` } }] };
+                    return;
+                }
+                yield* streamWords(`Mock reply #${turn} to "${request}". This is the offline mock provider; pick Gemini or an OpenAI-compatible server in AI Settings for real answers.`);
+            },
+        };
+    },
+    generateText: async (prompt) => `Mock text ${hash(prompt).toString(16)} from the offline provider.`,
+    generateJson: async <T,>(prompt: string, schema: AiSchema) => sampleSchema(schema, hash(prompt)) as T,
+    generateImage: async (prompt) => {
+        const seed = hash(prompt);
+        const canvas = createCanvas(256, 256);
+        const context = canvas.getContext('2d')!;
+        context.fillStyle = `hsl(${seed % 360}, 70%, 55%)`;
+        context.beginPath();
+        context.roundRect(32, 32, 192, 192, 32);
+        context.fill();
+        context.fillStyle = '#ffffff';
+        context.beginPath();
+        context.arc(128, 128, 40 + (seed % 30), 0, Math.PI * 2);
+        context.fill();
+        return canvasToBase64(canvas);
+    },
+});
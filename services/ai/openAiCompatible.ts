@@ -0,0 +1,139 @@
+import type { AiProvider, AiTask, AiToolCall } from '../../types';
+
+type OpenAiMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to
+const parseJsonContent = (content: string) => JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+
+const parseToolArguments = (text: string): Record<string, unknown> => {
+    try {
+        const args = JSON.parse(text || '{}');
+        return typeof args === 'object' && args !== null ? args : {};
+    } catch {
+        return {}; // the tool reports the missing arguments back to the model
+    }
+};
+
+// Yields the JSON payload of each "data:" line in a server-sent event stream
+async function* readEventStream(response: Response): AsyncGenerator<any> {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || !data) continue;
+            if (data === '[DONE]') return;
+            yield JSON.parse(data);
+        }
+    }
+}
+
+/**
+ * Talks to any server with OpenAI's chat completions API: OpenAI itself, or
+ * a local llama.cpp, Ollama or LM Studio server. Image generation needs a
+ * server with /images/generations.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string, models: Record<AiTask, string>): AiProvider => {
+    const root = baseUrl.trim().replace(/\/+$/, '');
+
+    const post = async (path: string, body: object): Promise<Response> => {
+        const response = await fetch(`${root}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            throw new Error(`${root}${path} responded with ${response.status}: ${(await response.text()).slice(0, 300)}`);
+        }
+        return response;
+    };
+
+    const complete = async (body: object): Promise<string> => {
+        const data = await (await post('/chat/completions', body)).json();
+        return data.choices?.[0]?.message?.content ?? '';
+    };
+
+    return {
+        id: 'openai',
+        createChat: ({ systemInstruction, tools, history = [] }) => {
+            const messages: OpenAiMessage[] = [
+                { role: 'system', content: systemInstruction },
+                ...history.map((turn): OpenAiMessage => (turn.role === 'user' ? { role: 'user', content: turn.text } : { role: 'assistant', content: turn.text })),
+            ];
+            return {
+                async *sendStream(message, options = {}) {
+                    if (typeof message === 'string') {
+                        messages.push({ role: 'user', content: message });
+                    } else {
+                        for (const result of message) {
+                            messages.push({ role: 'tool', tool_call_id: result.id ?? result.name, content: JSON.stringify(result.response) });
+                        }
+                    }
+                    const response = await post('/chat/completions', {
+                        model: models.chat,
+                        messages,
+                        stream: true,
+                        ...(tools.length > 0 ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {}),
+                        ...(tools.length > 0 && options.noToolCalls ? { tool_choice: 'none' } : {}),
+                    });
+
+                    // Tool calls arrive in pieces, keyed by their index
+                    let text = '';
+                    const calls: { id: string; name: string; arguments: string }[] = [];
+                    for await (const event of readEventStream(response)) {
+                        const delta = event.choices?.[0]?.delta ?? {};
+                        if (delta.content) {
+                            text += delta.content;
+                            yield { text: delta.content };
+                        }
+                        for (const piece of delta.tool_calls ?? []) {
+                            const index = piece.index ?? calls.length;
+                            calls[index] ??= { id: piece.id ?? `call_${index}`, name: '', arguments: '' };
+                            calls[index].name += piece.function?.name ?? '';
+                            calls[index].arguments += piece.function?.arguments ?? '';
+                        }
+                    }
+
+                    // Servers that ignore tool_choice could still call; those calls would never be answered
+                    if (options.noToolCalls) calls.length = 0;
+                    messages.push({
+                        role: 'assistant',
+                        content: text || null,
+                        ...(calls.length > 0 ? { tool_calls: calls.map(call => ({ id: call.id, type: 'function' as const, function: { name: call.name, arguments: call.arguments } })) } : {}),
+                    });
+                    if (calls.length > 0) {
+                        const toolCalls: AiToolCall[] = calls.map(call => ({ id: call.id, name: call.name, args: parseToolArguments(call.arguments) }));
+                        yield { toolCalls };
+                    }
+                },
+            };
+        },
+        generateText: async (prompt) => {
+            return (await complete({ model: models.text, messages: [{ role: 'user', content: prompt }] })).trim();
+        },
+        generateJson: async (prompt, schema) => {
+            const content = await complete({
+                model: models.json,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+            });
+            return parseJsonContent(content);
+        },
+        generateImage: async (prompt) => {
+            if (!models.image) throw new Error('No image model is set for the OpenAI-compatible provider. Add one in AI Settings.');
+            const response = await post('/images/generations', { model: models.image, prompt, n: 1, size: '1024x1024', response_format: 'b64_json' });
+            const imageBytes = (await response.json()).data?.[0]?.b64_json;
+            if (!imageBytes) throw new Error("AI did not return an image.");
+            return imageBytes;
+        },
+    };
+};
@@ -0,0 +1,89 @@
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+import { loadImage, createCanvas, canvasToBase64 } from './imageUtils';
+
+export type QualityTierId = 'uhd' | 'hd' | 'sd';
+
+export interface QualityTier {
+    id: QualityTierId;
+    label: string;
+    suffix: string; // added before the extension: "foo-uhd.png", "foo-hd.png", "foo.png"
+    scale: number; // relative to the UHD image
+}
+
+// Geode picks the file matching the player's texture quality. Images are
+// made at UHD size and scaled down for the lower tiers.
+export const QUALITY_TIERS: QualityTier[] = [
+    { id: 'uhd', label: 'UHD', suffix: '-uhd', scale: 1 },
+    { id: 'hd', label: 'HD', suffix: '-hd', scale: 0.5 },
+    { id: 'sd', label: 'SD', suffix: '', scale: 0.25 },
+];
+
+// Files under assets/ that aren't shipped as resources
+const NON_RESOURCE_FILES = ['assets/logo.png'];
+const NON_RESOURCE_EXTENSIONS = ['.gitkeep', '.md', '.txt'];
+
+// Splits "assets/foo-hd.png" into its base path "assets/foo.png" and its tier
+export const parseQualityPath = (path: string): { basePath: string; tier: QualityTier } => {
+    const match = /^(.*?)(-uhd|-hd)?(\.[^./]+)$/.exec(path);
+    if (!match) return { basePath: path, tier: QUALITY_TIERS[2] };
+    const tier = QUALITY_TIERS.find(candidate => candidate.suffix === (match[2] ?? '')) ?? QUALITY_TIERS[2];
+    return { basePath: `${match[1]}${match[3]}`, tier };
+};
+
+// "assets/foo.png" at HD quality -> "assets/foo-hd.png"
+export const getQualityPath = (basePath: string, tier: QualityTier): string => {
+    return basePath.replace(/(\.[^./]+)$/, `${tier.suffix}$1`);
+};
+
+// Halving repeatedly keeps downscaled sprites sharper than one big jump
+const downscale = (source: CanvasImageSource, width: number, height: number, targetWidth: number, targetHeight: number): HTMLCanvasElement => {
+    let canvas = createCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+    while (canvas.width / 2 >= targetWidth && canvas.height / 2 >= targetHeight) {
+        const half = createCanvas(Math.max(1, Math.round(canvas.width / 2)), Math.max(1, Math.round(canvas.height / 2)));
+        const context = half.getContext('2d')!;
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(canvas, 0, 0, half.width, half.height);
+        canvas = half;
+    }
+    if (canvas.width !== targetWidth || canvas.height !== targetHeight) {
+        const resized = createCanvas(targetWidth, targetHeight);
+        const context = resized.getContext('2d')!;
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(canvas, 0, 0, targetWidth, targetHeight);
+        canvas = resized;
+    }
+    return canvas;
+};
+
+/**
+ * Treats a PNG as the UHD version of `basePath` and returns it with its HD
+ * and SD versions, named the way Geode looks them up.
+ */
+export const generateQualityVariants = async (basePath: string, uhdContent: string): Promise<GeneratedFiles> => {
+    const image = await loadImage(`data:image/png;base64,${uhdContent}`);
+    const files: GeneratedFiles = {};
+    for (const tier of QUALITY_TIERS) {
+        const path = getQualityPath(basePath, tier);
+        if (tier.scale === 1) {
+            files[path] = uhdContent;
+            continue;
+        }
+        const width = Math.max(1, Math.round(image.naturalWidth * tier.scale));
+        const height = Math.max(1, Math.round(image.naturalHeight * tier.scale));
+        files[path] = canvasToBase64(downscale(image, image.naturalWidth, image.naturalHeight, width, height));
+    }
+    return files;
+};
+
+/**
+ * The assets mod.json has to list under `resources` so Geode ships them:
+ * sprites and sheets in every tier, plists, fonts and sounds. Sorted for
+ * stable output.
+ */
+export const getResourceFiles = (files: GeneratedFiles | VirtualFileSystem): string[] => {
+    return Object.keys(files)
+        .filter(path => path.startsWith('assets/') && !NON_RESOURCE_FILES.includes(path))
+        .filter(path => !NON_RESOURCE_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext)))
+        .sort();
+};
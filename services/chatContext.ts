@@ -0,0 +1,145 @@
+import type { AttachedContext, ContextItem, ContextReason, ModSetting, VirtualFileSystem } from '../types';
+
+export const CONTEXT_BUDGETS = [2000, 4000, 8000, 16000, 32000];
+export const DEFAULT_CONTEXT_BUDGET = 8000;
+
+// Below this many tokens left, a file isn't worth cutting down to fit
+const MIN_PARTIAL_TOKENS = 150;
+
+// Lines kept when a source file is summarised: includes, type and hook
+// declarations, and function signatures
+const OUTLINE_LINE = /^\s*(#include|#pragma|#define|using |namespace |class |struct |enum |template|\$modify|\$execute|\$on_mod|[\w:<>,*&~\s]+\([^;{}]*\)\s*(const\s*)?(override\s*)?\{?\s*$)/;
+
+export interface ChatContextInput {
+    message: string;
+    files: VirtualFileSystem | null;
+    openFile: string | null;
+    settings: ModSetting[];
+    budget: number;
+}
+
+// Roughly four characters per token, close enough for budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const getBaseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Files the message names by path, or by file name when that is unambiguous
+const findReferencedFiles = (message: string, files: VirtualFileSystem): string[] => {
+    const paths = Object.keys(files);
+    return paths.filter(path => {
+        if (message.includes(path)) return true;
+        const name = getBaseName(path);
+        if (paths.filter(other => getBaseName(other) === name).length > 1) return false;
+        return new RegExp(`(^|[^\\w./-])${escapeRegExp(name)}($|[^\\w/-])`).test(message);
+    });
+};
+
+// Project headers pulled in with #include "...", looked up next to the file and under src/
+const findIncludedFiles = (path: string, content: string, files: VirtualFileSystem): string[] => {
+    const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+    const included: string[] = [];
+    for (const match of content.matchAll(/^\s*#include\s+"([^"]+)"/gm)) {
+        const candidate = [`${folder}${match[1]}`, `src/${match[1]}`].find(p => files[p] !== undefined);
+        if (candidate && !included.includes(candidate)) included.push(candidate);
+    }
+    return included;
+};
+
+const summariseSource = (content: string): string => {
+    const lines = content.split('\n');
+    const outline = lines.filter(line => OUTLINE_LINE.test(line));
+    return `${outline.join('\n')}\n// ... ${lines.length - outline.length} of ${lines.length} lines omitted: bodies and comments`;
+};
+
+const truncateToTokens = (content: string, tokens: number): string => {
+    const kept = content.slice(0, tokens * 4);
+    const cut = kept.lastIndexOf('\n') > 0 ? kept.slice(0, kept.lastIndexOf('\n')) : kept;
+    const omitted = content.split('\n').length - cut.split('\n').length;
+    return `${cut}\n... (${omitted} more line${omitted === 1 ? '' : 's'} not shown)`;
+};
+
+const formatSettings = (settings: ModSetting[]): string => {
+    return settings.map(setting => {
+        const range = setting.min !== undefined || setting.max !== undefined ? `, ${setting.min ?? ''}..${setting.max ?? ''}` : '';
+        const choices = setting.oneOf?.length ? `, one of ${setting.oneOf.join('/')}` : '';
+        return `- ${setting.key} (${setting.type}${range}${choices}, default ${JSON.stringify(setting.default)}): ${setting.name}`;
+    }).join('\n');
+};
+
+const REASON_LABELS: Record<ContextReason, string> = {
+    manifest: 'the mod manifest',
+    open: 'open in the editor',
+    referenced: 'mentioned in the message',
+    included: 'included by another attached file',
+};
+
+/**
+ * Picks what Gigi gets to see with a message: the file list, the settings,
+ * and as much as fits the token budget of mod.json, the open file, the files
+ * the message names and the headers they include, in that order. Files too
+ * big for what's left are outlined or cut short; binary files are only
+ * listed. Returns the text to append and a record of what went into it.
+ */
+export const buildChatContext = ({ message, files, openFile, settings, budget }: ChatContextInput): { text: string; context: AttachedContext } => {
+    const projectFiles = files ?? {};
+    const paths = Object.keys(projectFiles).sort();
+    const sections: string[] = [];
+    const items: ContextItem[] = [];
+
+    if (paths.length > 0) {
+        const list = paths.map(path => (projectFiles[path].encoding === 'utf8' ? path : `${path} (binary)`)).join('\n');
+        sections.push(`Files in the project:\n${list}`);
+    }
+    if (settings.length > 0) {
+        sections.push(`Mod settings:\n${formatSettings(settings)}`);
+    }
+    let remaining = budget - estimateTokens(sections.join('\n\n'));
+
+    const candidates: { path: string; reason: ContextReason }[] = [];
+    const addCandidate = (path: string, reason: ContextReason) => {
+        if (projectFiles[path] !== undefined && !candidates.some(candidate => candidate.path === path)) candidates.push({ path, reason });
+    };
+    addCandidate('mod.json', 'manifest');
+    if (openFile) addCandidate(openFile, 'open');
+    findReferencedFiles(message, projectFiles).forEach(path => addCandidate(path, 'referenced'));
+    for (const { path } of [...candidates]) {
+        const file = projectFiles[path];
+        if (file.encoding === 'utf8') findIncludedFiles(path, file.content, projectFiles).forEach(included => addCandidate(included, 'included'));
+    }
+
+    for (const { path, reason } of candidates) {
+        const file = projectFiles[path];
+        if (file.encoding !== 'utf8') {
+            items.push({ path, reason, mode: 'binary', tokens: 0 });
+            continue;
+        }
+        let mode: ContextItem['mode'] = 'full';
+        let content = file.content;
+        if (estimateTokens(content) > remaining) {
+            const summary = /\.(c|cc|cpp|h|hpp)$/.test(path) ? summariseSource(content) : null;
+            if (remaining < MIN_PARTIAL_TOKENS) {
+                items.push({ path, reason, mode: 'omitted', tokens: 0 });
+                continue;
+            } else if (summary && estimateTokens(summary) <= remaining) {
+                mode = 'summary';
+                content = summary;
+            } else {
+                mode = 'truncated';
+                content = truncateToTokens(content, remaining - 20);
+            }
+        }
+        const note = mode === 'full' ? '' : mode === 'summary' ? ', outline only' : ', truncated';
+        const section = `File ${path} (${REASON_LABELS[reason]}${note}):\n\`\`\`\n${content}\n\`\`\``;
+        const tokens = estimateTokens(section);
+        remaining -= tokens;
+        sections.push(section);
+        items.push({ path, reason, mode, tokens });
+    }
+
+    const text = sections.length > 0 ? `--- Project context ---\n${sections.join('\n\n')}` : '';
+    return {
+        text,
+        context: { items, fileCount: paths.length, settingCount: settings.length, tokens: estimateTokens(text), budget },
+    };
+};
@@ -0,0 +1,157 @@
+import type { AiChatTurn, ChatMessage, ChatThread, ProposedFileChange } from '../types';
+
+export const DEFAULT_THREAD_NAME = 'New chat';
+
+// Characters shown either side of a search match
+const SNIPPET_RADIUS = 60;
+
+export interface ThreadSearchResult {
+    threadId: string;
+    threadName: string;
+    messageIndex: number;
+    role: ChatMessage['role'];
+    snippet: string;
+    // Where the first matched term sits in the snippet, for highlighting
+    matchStart: number;
+    matchLength: number;
+}
+
+export const createThreadId = (): string => `thread-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createThread = (name: string = DEFAULT_THREAD_NAME): ChatThread => {
+    const now = Date.now();
+    return { id: createThreadId(), name, createdAt: now, updatedAt: now, messages: [] };
+};
+
+// A name for a thread taken from its first message, for threads still called "New chat"
+export const getThreadNameFromMessage = (message: string): string => {
+    const line = message.trim().split('\n')[0].replace(/\s+/g, ' ');
+    return line.length > 40 ? `${line.slice(0, 40).trimEnd()}…` : line || DEFAULT_THREAD_NAME;
+};
+
+// --- Branches ---
+
+const withoutBranches = ({ branches, branchIndex, ...msg }: ChatMessage): ChatMessage => msg;
+
+// Every version of the conversation from `index` on, in order, and which one is shown
+const getVersions = (messages: ChatMessage[], index: number): { versions: ChatMessage[][]; shown: number } => {
+    const head = messages[index];
+    const versions = [...(head.branches ?? [])];
+    const shown = head.branchIndex ?? 0;
+    versions.splice(shown, 0, [withoutBranches(head), ...messages.slice(index + 1)]);
+    return { versions, shown };
+};
+
+// The messages with `versions[version]` shown from `index` on
+const showVersion = (messages: ChatMessage[], index: number, versions: ChatMessage[][], version: number): ChatMessage[] => {
+    const others = versions.filter((_, i) => i !== version);
+    const [head, ...rest] = versions[version];
+    const shownHead = others.length > 0 ? { ...head, branches: others, branchIndex: version } : head;
+    return [...messages.slice(0, index), shownHead, ...rest];
+};
+
+export const getBranchCount = (msg: ChatMessage): number => (msg.branches?.length ?? 0) + 1;
+
+/**
+ * Replaces the conversation from `index` on with a new version, e.g. a
+ * regenerated reply or an edited question. The old version is kept as a
+ * branch that can be switched back to.
+ */
+export const startBranch = (messages: ChatMessage[], index: number, replacement: ChatMessage[]): ChatMessage[] => {
+    const { versions } = getVersions(messages, index);
+    return showVersion(messages, index, [...versions, replacement], versions.length);
+};
+
+export const switchBranch = (messages: ChatMessage[], index: number, version: number): ChatMessage[] => {
+    const { versions } = getVersions(messages, index);
+    return showVersion(messages, index, versions, version);
+};
+
+// Drops the version shown from `index` on, e.g. a regenerated reply that never came, and shows the previous one
+export const discardBranch = (messages: ChatMessage[], index: number): ChatMessage[] => {
+    const { versions, shown } = getVersions(messages, index);
+    const remaining = versions.filter((_, i) => i !== shown);
+    return remaining.length > 0 ? showVersion(messages, index, remaining, Math.max(0, shown - 1)) : messages.slice(0, index);
+};
+
+// The file changes accepted in these messages, which the project's files currently include
+export const getAppliedFileChanges = (messages: ChatMessage[]): ProposedFileChange[] => {
+    return messages.flatMap(msg => msg.fileChanges ?? []).filter(change => change.status === 'accepted' && change.appliedEdit);
+};
+
+const describeFileChange = (change: ProposedFileChange): string => {
+    const outcome = change.status === 'pending' ? 'not reviewed yet' : change.status;
+    return `[Proposed to ${change.action} ${change.path}: ${outcome}]`;
+};
+
+/**
+ * The thread as earlier turns for a new chat session. Only the text survives;
+ * proposed file changes are described in a line each so Gigi knows what it
+ * suggested and what the user did with it.
+ */
+export const toChatTurns = (messages: ChatMessage[]): AiChatTurn[] => {
+    return messages
+        .map(msg => ({
+            role: msg.role,
+            text: [msg.parts[0].text, ...(msg.fileChanges ?? []).map(describeFileChange)].filter(Boolean).join('\n\n'),
+        }))
+        .filter(turn => turn.text);
+};
+
+/**
+ * Finds the messages containing every word of the query, ignoring case,
+ * newest thread first.
+ */
+export const searchThreads = (threads: ChatThread[], query: string): ThreadSearchResult[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    const results: ThreadSearchResult[] = [];
+    for (const thread of [...threads].sort((a, b) => b.updatedAt - a.updatedAt)) {
+        thread.messages.forEach((msg, messageIndex) => {
+            const text = msg.parts[0].text;
+            const lowerText = text.toLowerCase();
+            if (!terms.every(term => lowerText.includes(term))) return;
+            const index = lowerText.indexOf(terms[0]);
+            const start = Math.max(0, index - SNIPPET_RADIUS);
+            const end = Math.min(text.length, index + terms[0].length + SNIPPET_RADIUS);
+            const prefix = start > 0 ? '…' : '';
+            results.push({
+                threadId: thread.id,
+                threadName: thread.name,
+                messageIndex,
+                role: msg.role,
+                snippet: `${prefix}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`,
+                matchStart: prefix.length + text.slice(start, index).replace(/\s+/g, ' ').length,
+                matchLength: terms[0].length,
+            });
+        });
+    }
+    return results;
+};
+
+const formatDate = (time: number) => new Date(time).toISOString().replace('T', ' ').slice(0, 16);
+
+/**
+ * The thread as a Markdown transcript, with file changes and the context
+ * sent along with each message, for pasting into a bug report.
+ */
+export const exportThreadToMarkdown = (thread: ChatThread, projectName: string): string => {
+    const lines = [`# ${thread.name}`, '', `Project: ${projectName}  `, `Started: ${formatDate(thread.createdAt)}`, ''];
+    for (const msg of thread.messages) {
+        const time = msg.sentAt ? ` (${formatDate(msg.sentAt)})` : '';
+        lines.push(`## ${msg.role === 'user' ? 'You' : 'Gigi'}${time}`, '', msg.parts[0].text, '');
+        if (msg.context) {
+            const files = msg.context.items.filter(item => item.tokens > 0).map(item => `${item.path} (${item.mode})`);
+            lines.push(`> Context: ~${msg.context.tokens} of ${msg.context.budget} tokens${files.length > 0 ? `, ${files.join(', ')}` : ''}`, '');
+        }
+        for (const change of msg.fileChanges ?? []) {
+            lines.push(`- ${change.action} \`${change.path}\`: ${change.status}`);
+        }
+        if (msg.fileChanges?.length) lines.push('');
+    }
+    return `${lines.join('\n').trimEnd()}\n`;
+};
+
+export const exportThreadToJson = (thread: ChatThread, projectName: string): string => {
+    return JSON.stringify({ project: projectName, exportedAt: new Date().toISOString(), thread }, null, 2);
+};
@@ -0,0 +1,171 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+    oldLine?: number; // 1-based line number in the old text
+    newLine?: number; // 1-based line number in the new text
+}
+
+export interface MergeResult {
+    merged: string;
+    conflicts: number;
+}
+
+export const splitLines = (text: string): string[] => text.split('\n');
+
+// Numbers each distinct line so the matching below compares integers, not strings
+const internLines = (a: string[], b: string[]): [Int32Array, Int32Array] => {
+    const ids = new Map<string, number>();
+    const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+        let id = ids.get(line);
+        if (id === undefined) {
+            id = ids.size;
+            ids.set(line, id);
+        }
+        return id;
+    });
+    return [toIds(a), toIds(b)];
+};
+
+/**
+ * LCS lengths of a[aStart..aEnd) against every prefix of b[bStart..bEnd), or
+ * with `fromEnd`, against every suffix (indexed by its length). Only two rows
+ * are kept, so this needs memory for b alone.
+ */
+const lcsRow = (a: Int32Array, aStart: number, aEnd: number, b: Int32Array, bStart: number, bEnd: number, fromEnd: boolean): Int32Array => {
+    const m = bEnd - bStart;
+    let previous = new Int32Array(m + 1);
+    let row = new Int32Array(m + 1);
+    for (let step = 0; step < aEnd - aStart; step++) {
+        const line = a[fromEnd ? aEnd - 1 - step : aStart + step];
+        for (let k = 1; k <= m; k++) {
+            row[k] = line === b[fromEnd ? bEnd - k : bStart + k - 1] ? previous[k - 1] + 1 : Math.max(previous[k], row[k - 1]);
+        }
+        [previous, row] = [row, previous];
+    }
+    return previous;
+};
+
+/**
+ * Returns, for every line of `a`, the index of the line it is matched with in
+ * `b` according to their longest common subsequence (or -1 if unmatched).
+ * Uses Hirschberg's divide and conquer, so large files take linear memory
+ * rather than a table of every pair of lines.
+ */
+const matchLines = (aLines: string[], bLines: string[]): number[] => {
+    const [aIds, bIds] = internLines(aLines, bLines);
+    // Lines found on one side only can't match, so only the others are compared
+    const inA = new Set(aIds);
+    const inB = new Set(bIds);
+    const aIndexes = aLines.map((_, i) => i).filter(i => inB.has(aIds[i]));
+    const bIndexes = bLines.map((_, j) => j).filter(j => inA.has(bIds[j]));
+    const a = Int32Array.from(aIndexes, i => aIds[i]);
+    const b = Int32Array.from(bIndexes, j => bIds[j]);
+    const matches = new Array<number>(a.length).fill(-1);
+
+    const match = (aStart: number, aEnd: number, bStart: number, bEnd: number) => {
+        // Lines the two ranges start or end with alike always match
+        while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) matches[aStart++] = bStart++;
+        while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) matches[--aEnd] = --bEnd;
+        if (aStart === aEnd || bStart === bEnd) return;
+        if (aEnd - aStart === 1) {
+            const found = b.subarray(bStart, bEnd).indexOf(a[aStart]);
+            if (found !== -1) matches[aStart] = bStart + found;
+            return;
+        }
+
+        // Split a in half and b where the two halves' LCS lengths add up to the most
+        const middle = (aStart + aEnd) >> 1;
+        const m = bEnd - bStart;
+        const before = lcsRow(a, aStart, middle, b, bStart, bEnd, false);
+        const after = lcsRow(a, middle, aEnd, b, bStart, bEnd, true);
+        let split = 0;
+        for (let k = 1; k <= m; k++) {
+            if (before[k] + after[m - k] > before[split] + after[m - split]) split = k;
+        }
+        match(aStart, middle, bStart, bStart + split);
+        match(middle, aEnd, bStart + split, bEnd);
+    };
+
+    match(0, a.length, 0, b.length);
+    const result = new Array<number>(aLines.length).fill(-1);
+    matches.forEach((j, i) => {
+        if (j !== -1) result[aIndexes[i]] = bIndexes[j];
+    });
+    return result;
+};
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const oldLines = splitLines(oldText);
+    const newLines = splitLines(newText);
+    const matches = matchLines(oldLines, newLines);
+
+    const result: DiffLine[] = [];
+    let j = 0;
+    oldLines.forEach((line, i) => {
+        if (matches[i] === -1) {
+            result.push({ type: 'removed', text: line, oldLine: i + 1 });
+            return;
+        }
+        for (; j < matches[i]; j++) {
+            result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+        }
+        result.push({ type: 'equal', text: line, oldLine: i + 1, newLine: j + 1 });
+        j++;
+    });
+    for (; j < newLines.length; j++) {
+        result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+    }
+    return result;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Line-based three-way merge. Changes made on only one side are applied
+ * automatically; overlapping changes are written out with git-style conflict
+ * markers.
+ */
+export const mergeThreeWay = (base: string, ours: string, theirs: string, labels = { ours: 'yours', theirs: 'template' }): MergeResult => {
+    const baseLines = splitLines(base);
+    const ourLines = splitLines(ours);
+    const theirLines = splitLines(theirs);
+    const ourMatches = matchLines(baseLines, ourLines);
+    const theirMatches = matchLines(baseLines, theirLines);
+
+    const merged: string[] = [];
+    let conflicts = 0;
+    let i = 0;
+    let ourStart = 0;
+    let theirStart = 0;
+
+    while (true) {
+        // Find the next base line that both sides kept unchanged
+        let j = i;
+        while (j < baseLines.length && (ourMatches[j] === -1 || theirMatches[j] === -1)) j++;
+
+        const ourEnd = j < baseLines.length ? ourMatches[j] : ourLines.length;
+        const theirEnd = j < baseLines.length ? theirMatches[j] : theirLines.length;
+        const baseChunk = baseLines.slice(i, j);
+        const ourChunk = ourLines.slice(ourStart, ourEnd);
+        const theirChunk = theirLines.slice(theirStart, theirEnd);
+
+        if (sameLines(ourChunk, theirChunk) || sameLines(theirChunk, baseChunk)) {
+            merged.push(...ourChunk);
+        } else if (sameLines(ourChunk, baseChunk)) {
+            merged.push(...theirChunk);
+        } else {
+            conflicts++;
+            merged.push(`<<<<<<< ${labels.ours}`, ...ourChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+        }
+
+        if (j >= baseLines.length) break;
+        merged.push(baseLines[j]);
+        i = j + 1;
+        ourStart = ourEnd + 1;
+        theirStart = theirEnd + 1;
+    }
+
+    return { merged: merged.join('\n'), conflicts };
+};
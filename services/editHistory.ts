@@ -0,0 +1,57 @@
+export interface EditSnapshot {
+    content: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+/**
+ * Undo and redo stacks for one file. The editor keeps one per path so the
+ * history survives switching between files.
+ */
+export interface EditHistory {
+    undoStack: EditSnapshot[];
+    redoStack: EditSnapshot[];
+    lastEditAt: number;
+}
+
+const MAX_UNDO_STEPS = 200;
+// Keystrokes closer together than this are undone as one step
+const TYPING_GROUP_MS = 1000;
+
+export const createEditHistory = (): EditHistory => ({ undoStack: [], redoStack: [], lastEditAt: 0 });
+
+/**
+ * Records the state before an edit. Typing is grouped into one undo step;
+ * pass `group: false` for edits that should always be undone on their own,
+ * such as replacing or pasting text.
+ */
+export const recordEdit = (history: EditHistory, before: EditSnapshot, group: boolean, now = Date.now()): EditHistory => {
+    const last = history.undoStack[history.undoStack.length - 1];
+    const continuesTyping = group && last !== undefined && now - history.lastEditAt < TYPING_GROUP_MS;
+    return {
+        undoStack: continuesTyping ? history.undoStack : [...history.undoStack, before].slice(-MAX_UNDO_STEPS),
+        redoStack: [],
+        // Only typing extends a group, so a paste right after typing starts a new one
+        lastEditAt: group ? now : 0,
+    };
+};
+
+// Steps back one edit. Returns null when there's nothing to undo.
+export const undoEdit = (history: EditHistory, current: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+    const snapshot = history.undoStack[history.undoStack.length - 1];
+    if (!snapshot) return null;
+    return {
+        history: { undoStack: history.undoStack.slice(0, -1), redoStack: [...history.redoStack, current], lastEditAt: 0 },
+        snapshot,
+    };
+};
+
+// Re-applies the last undone edit. Returns null when there's nothing to redo.
+export const redoEdit = (history: EditHistory, current: EditSnapshot): { history: EditHistory; snapshot: EditSnapshot } | null => {
+    const snapshot = history.redoStack[history.redoStack.length - 1];
+    if (!snapshot) return null;
+    return {
+        history: { undoStack: [...history.undoStack, current], redoStack: history.redoStack.slice(0, -1), lastEditAt: 0 },
+        snapshot,
+    };
+};
@@ -0,0 +1,65 @@
+import type { ModFeatureDefinition, ModData } from '../../types';
+import { toCppIdentifier } from './cppHelpers';
+
+const API_HEADER_PATH = 'include/api.hpp';
+
+// developer.mod-name -> developer::mod_name
+const getApiNamespace = (data: ModData): string => {
+    return (data.id || 'developer.modname').split('.').map(toCppIdentifier).join('::');
+};
+
+const getExportMacro = (data: ModData): string => {
+    return `${toCppIdentifier(data.id || 'developer.modname').toUpperCase()}_DLL`;
+};
+
+const generateApiHeader = (data: ModData): string => {
+    const macro = getExportMacro(data);
+    const exportingFlag = macro.replace(/_DLL$/, '_EXPORTING');
+    return `#pragma once
+
+#include <Geode/Geode.hpp>
+
+// Other mods include this header to call your API. Functions marked with
+// ${macro} are exported from your mod's binary.
+#ifdef GEODE_IS_WINDOWS
+	#ifdef ${exportingFlag}
+		#define ${macro} __declspec(dllexport)
+	#else
+		#define ${macro} __declspec(dllimport)
+	#endif
+#else
+	#define ${macro} __attribute__((visibility("default")))
+#endif
+
+namespace ${getApiNamespace(data)} {
+	// Returns a greeting for the given name
+	${macro} std::string greet(std::string const& name);
+}
+`;
+};
+
+const generateApiLibraryCpp = (data: ModData): string => {
+    const exportingFlag = getExportMacro(data).replace(/_DLL$/, '_EXPORTING');
+    const modName = data.name || "My Awesome Mod";
+    return `// Must be defined before the header so functions are exported rather than imported
+#define ${exportingFlag}
+#include "../${API_HEADER_PATH}"
+
+std::string ${getApiNamespace(data)}::greet(std::string const& name) {
+	return fmt::format("Hello, {}! Greetings from ${modName}.", name);
+}
+`;
+};
+
+export const apiFeature: ModFeatureDefinition = {
+    id: 'api',
+    label: 'API / Library',
+    description: `No hooks: exports functions from ${API_HEADER_PATH} for other mods to depend on and call.`,
+    hooks: [],
+    previewScene: 'none',
+    sourcePath: 'src/api.cpp',
+    includes: [],
+    providesApi: true,
+    generateSource: generateApiLibraryCpp,
+    generateExtraFiles: (data) => ({ [API_HEADER_PATH]: generateApiHeader(data) }),
+};
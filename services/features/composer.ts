@@ -0,0 +1,75 @@
+import type { GeneratedFiles, ModData, ModFeatureDefinition } from '../../types';
+import { getModFeatures } from './index';
+import { generateSettingReadsCpp } from './cppHelpers';
+
+const SHARED_HEADER_PATH = 'src/shared.hpp';
+
+// menu-label -> MenuLabel
+const toPascalCase = (id: string): string => {
+    return id.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+};
+
+// The path of src/shared.hpp relative to a source file, e.g. "../shared.hpp" from src/hooks/
+const getSharedHeaderInclude = (sourcePath: string): string => {
+    const depth = sourcePath.split('/').length - 2;
+    return `${'../'.repeat(depth)}shared.hpp`;
+};
+
+const generateSharedHeader = (features: ModFeatureDefinition[]): string => {
+    const includes = Array.from(new Set(features.flatMap(feature => feature.includes))).sort();
+    return `#pragma once
+
+// Included by every source file, so each header is listed once for the whole mod
+#include <Geode/Geode.hpp>
+${includes.map(include => `#include <${include}>`).join('\n')}${includes.length > 0 ? '\n' : ''}
+using namespace geode::prelude;
+`;
+};
+
+const generateComposedMainCpp = (data: ModData, features: ModFeatureDefinition[]): string => {
+    const modName = data.name || "My Awesome Mod";
+    const featureList = features.length > 0 ? features.map(feature => feature.label).join(', ') : 'none';
+    const settingReads = generateSettingReadsCpp(data);
+    return `#include "shared.hpp"
+
+// Each feature lives in its own file (hooks under src/hooks); this file only runs once the mod has loaded.
+$on_mod(Loaded) {
+	log::info("${modName} loaded with features: ${featureList}");
+${settingReads.length > 0 ? `
+	// Reads every setting with the C++ type Geode stores it as. Copy these lines wherever you need a value.
+${settingReads.join('\n')}
+` : ''}}
+`;
+};
+
+/**
+ * Builds the C++ sources for the selected features: src/main.cpp, a
+ * src/shared.hpp holding the union of every feature's includes, and one file
+ * per feature. Features that hook the same class get distinct $modify names.
+ */
+export const composeFeatureFiles = (data: ModData): GeneratedFiles => {
+    const features = getModFeatures(data.features);
+    const usedClassNames = new Set<string>();
+
+    const files: GeneratedFiles = {
+        [SHARED_HEADER_PATH]: generateSharedHeader(features),
+        'src/main.cpp': generateComposedMainCpp(data, features),
+    };
+
+    for (const feature of features) {
+        const className = (base: string): string => {
+            const name = `${toPascalCase(feature.id)}${base}`;
+            let unique = name;
+            for (let i = 2; usedClassNames.has(unique); i++) {
+                unique = `${name}${i}`;
+            }
+            usedClassNames.add(unique);
+            return unique;
+        };
+        const source = feature.generateSource(data, { className });
+        files[feature.sourcePath] = `#include "${getSharedHeaderInclude(feature.sourcePath)}"\n\n${source}`;
+        Object.assign(files, feature.generateExtraFiles?.(data));
+    }
+
+    return files;
+};
@@ -0,0 +1,70 @@
+import type { ModData, ModSetting, ModSettingType } from '../../types';
+
+export const isNumericSetting = (setting: ModSetting) => setting.type === 'int' || setting.type === 'float';
+
+/**
+ * The C++ type to pass to Mod::get()->getSettingValue<T>() for a setting type,
+ * or null for types that don't hold a value.
+ */
+export const getSettingCppType = (type: ModSettingType): string | null => {
+    switch (type) {
+        case 'bool': return 'bool';
+        case 'int': return 'int64_t';
+        case 'float': return 'double';
+        case 'string': return 'std::string';
+        case 'file':
+        case 'folder':
+        case 'path': return 'std::filesystem::path';
+        case 'color': return 'cocos2d::ccColor3B';
+        case 'rgba': return 'cocos2d::ccColor4B';
+        case 'title':
+        case 'custom':
+        default: return null;
+    }
+};
+
+export const toCppIdentifier = (key: string): string => {
+    const identifier = key.replace(/[^a-zA-Z0-9_]/g, '_');
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+export const formatCppNumber = (value: number, type: ModSettingType): string => {
+    if (type === 'int') return String(Math.trunc(value));
+    return Number.isInteger(value) ? `${value}.0` : String(value);
+};
+
+const generateSettingReadCpp = (setting: ModSetting): string => {
+    const cppType = getSettingCppType(setting.type);
+    const variable = toCppIdentifier(setting.key);
+
+    if (setting.type === 'custom') {
+        const customType = setting.customType || setting.key;
+        return `	// "${setting.key}" uses the custom setting type "${customType}", which must be registered before it can be read:
+	// (void)Mod::get()->registerCustomSettingType("${customType}", &MyCustomSetting::parse);`;
+    }
+    if (!cppType) return '';
+
+    let valueExpression = `Mod::get()->getSettingValue<${cppType}>("${setting.key}")`;
+    if (isNumericSetting(setting) && setting.min !== undefined && setting.max !== undefined) {
+        // Geode enforces the bounds in its own UI, but clamp anyway in case the save file was edited by hand
+        valueExpression = `std::clamp<${cppType}>(${valueExpression}, ${formatCppNumber(setting.min, setting.type)}, ${formatCppNumber(setting.max, setting.type)})`;
+    }
+    const read = `	auto ${variable} = ${valueExpression};`;
+    switch (setting.type) {
+        case 'file':
+        case 'folder':
+        case 'path':
+            return `${read}\n	log::info("${setting.key} = {}", ${variable}.string());`;
+        case 'color':
+            return `${read}\n	log::info("${setting.key} = {}, {}, {}", ${variable}.r, ${variable}.g, ${variable}.b);`;
+        case 'rgba':
+            return `${read}\n	log::info("${setting.key} = {}, {}, {}, {}", ${variable}.r, ${variable}.g, ${variable}.b, ${variable}.a);`;
+        default:
+            return `${read}\n	log::info("${setting.key} = {}", ${variable});`;
+    }
+};
+
+// One block per setting that reads it with the C++ type Geode stores it as
+export const generateSettingReadsCpp = (data: ModData): string[] => {
+    return data.settings.map(generateSettingReadCpp).filter(read => read);
+};
@@ -0,0 +1,57 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generateEditorToolCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('EditorUI');
+    const modName = data.name || "My Awesome Mod";
+    return `// Adds a tool button to the level editor that works on the selected objects
+class $modify(${className}, EditorUI) {
+	bool init(LevelEditorLayer* editorLayer) {
+		if (!EditorUI::init(editorLayer)) {
+			return false;
+		}
+
+		// "settings-menu" is the top-right menu; its ID comes from geode.node-ids
+		auto menu = this->getChildByID("settings-menu");
+		if (!menu) {
+			log::warn("${modName}: could not find the editor settings menu");
+			return true;
+		}
+
+		auto sprite = CCSprite::createWithSpriteFrameName("GJ_plusBtn_001.png");
+		sprite->setScale(0.6f);
+		auto button = CCMenuItemSpriteExtra::create(sprite, this, menu_selector(${className}::onMyTool));
+		button->setID("my-tool-button"_spr);
+		menu->addChild(button);
+		menu->updateLayout();
+
+		return true;
+	}
+
+	void onMyTool(CCObject*) {
+		auto selected = this->getSelectedObjects();
+		if (selected->count() == 0) {
+			Notification::create("Select some objects first", NotificationIcon::Warning)->show();
+			return;
+		}
+
+		// Do something with the selection, e.g. nudge every object up by one grid space
+		for (auto object : CCArrayExt<GameObject*>(selected)) {
+			object->setPositionY(object->getPositionY() + 30.f);
+		}
+		Notification::create(fmt::format("Moved {} object(s)", selected->count()), NotificationIcon::Success)->show();
+	}
+};
+`;
+};
+
+export const editorToolFeature: ModFeatureDefinition = {
+    id: 'editor-tool',
+    label: 'Level Editor Tool',
+    description: 'Adds a button to the editor that acts on the selected objects. A starting point for editor utilities.',
+    hooks: ['EditorUI'],
+    previewScene: 'editor',
+    sourcePath: 'src/hooks/editor-tool.cpp',
+    includes: ['Geode/modify/EditorUI.hpp'],
+    requiredDependencies: ['geode.node-ids'],
+    generateSource: generateEditorToolCpp,
+};
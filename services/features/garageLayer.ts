@@ -0,0 +1,48 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generateGarageLayerCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('GJGarageLayer');
+    const modName = data.name || "My Awesome Mod";
+    return `// Adds a button to the icon kit for your cosmetics
+class $modify(${className}, GJGarageLayer) {
+	bool init() {
+		if (!GJGarageLayer::init()) {
+			return false;
+		}
+
+		// "shards-menu" holds the buttons on the left of the icon kit; its ID comes from geode.node-ids
+		auto menu = this->getChildByID("shards-menu");
+		if (!menu) {
+			log::warn("${modName}: could not find the garage shards menu");
+			return true;
+		}
+
+		auto sprite = CircleButtonSprite::createWithSpriteFrameName("GJ_paintBtn_001.png");
+		sprite->setScale(0.8f);
+		auto button = CCMenuItemSpriteExtra::create(sprite, this, menu_selector(${className}::onMyCosmetics));
+		button->setID("my-cosmetics-button"_spr);
+		menu->addChild(button);
+		menu->updateLayout();
+
+		return true;
+	}
+
+	void onMyCosmetics(CCObject*) {
+		// Open your own cosmetics popup here
+		FLAlertLayer::create("${modName}", "Your cosmetics go here!", "OK")->show();
+	}
+};
+`;
+};
+
+export const garageButtonFeature: ModFeatureDefinition = {
+    id: 'garage-button',
+    label: 'Icon Kit Cosmetics (GJGarageLayer)',
+    description: 'Adds a button to the icon kit. A starting point for icon, color and trail mods.',
+    hooks: ['GJGarageLayer'],
+    previewScene: 'garage',
+    sourcePath: 'src/hooks/garage-button.cpp',
+    includes: ['Geode/modify/GJGarageLayer.hpp'],
+    requiredDependencies: ['geode.node-ids'],
+    generateSource: generateGarageLayerCpp,
+};
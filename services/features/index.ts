@@ -0,0 +1,43 @@
+import type { GeneratedFiles, ModFeature, ModFeatureDefinition } from '../../types';
+import { menuLabelFeature } from './menuLayer';
+import { deathNotificationFeature } from './playLayer';
+import { settingsPopupFeature } from './settingsPopup';
+import { settingsListenerFeature } from './settingsListener';
+import { editorToolFeature } from './editorTool';
+import { garageButtonFeature } from './garageLayer';
+import { pauseButtonFeature } from './pauseLayer';
+import { levelInfoButtonFeature } from './levelInfoLayer';
+import { keybindFeature } from './keybinds';
+import { apiFeature } from './apiLibrary';
+
+// Every feature, in the order the form's checklist lists them
+export const MOD_FEATURES: ModFeatureDefinition[] = [
+    menuLabelFeature,
+    deathNotificationFeature,
+    settingsPopupFeature,
+    settingsListenerFeature,
+    editorToolFeature,
+    garageButtonFeature,
+    pauseButtonFeature,
+    levelInfoButtonFeature,
+    keybindFeature,
+    apiFeature,
+];
+
+export const getModFeature = (id: ModFeature): ModFeatureDefinition | undefined => {
+    return MOD_FEATURES.find(feature => feature.id === id);
+};
+
+// The selected features' definitions, in checklist order
+export const getModFeatures = (ids: ModFeature[]): ModFeatureDefinition[] => {
+    return MOD_FEATURES.filter(feature => ids.includes(feature.id));
+};
+
+/**
+ * Works out which features an existing project uses from the source files it
+ * contains. Projects written before features existed keep all their code in
+ * src/main.cpp and get none.
+ */
+export const detectModFeatures = (files: GeneratedFiles): ModFeature[] => {
+    return MOD_FEATURES.filter(feature => feature.sourcePath in files).map(feature => feature.id);
+};
@@ -0,0 +1,36 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generateKeybindsCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('CCKeyboardDispatcher');
+    const modName = data.name || "My Awesome Mod";
+    return `// Reacts to a keyboard shortcut anywhere in the game
+class $modify(${className}, CCKeyboardDispatcher) {
+	bool dispatchKeyboardMSG(enumKeyCodes key, bool isKeyDown, bool isKeyRepeat) {
+		if (isKeyDown && !isKeyRepeat && key == KEY_F6 && Mod::get()->getSettingValue<bool>("shortcut-enabled")) {
+			Notification::create("${modName}: F6 pressed!", NotificationIcon::Success)->show();
+			// Returning true stops the game from also handling the key
+			return true;
+		}
+		return CCKeyboardDispatcher::dispatchKeyboardMSG(key, isKeyDown, isKeyRepeat);
+	}
+};
+`;
+};
+
+export const keybindFeature: ModFeatureDefinition = {
+    id: 'keybind',
+    label: 'Keyboard Shortcut (CCKeyboardDispatcher)',
+    description: 'Runs code when a key is pressed anywhere in the game, toggled by a setting. Desktop only.',
+    hooks: ['CCKeyboardDispatcher'],
+    previewScene: 'keyboard',
+    sourcePath: 'src/hooks/keybind.cpp',
+    includes: ['Geode/modify/CCKeyboardDispatcher.hpp'],
+    requiredSettings: [{
+        key: 'shortcut-enabled',
+        name: 'Enable Shortcut',
+        description: 'Press F6 to trigger the shortcut.',
+        type: 'bool',
+        default: true,
+    }],
+    generateSource: generateKeybindsCpp,
+};
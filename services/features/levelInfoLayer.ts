@@ -0,0 +1,58 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generateLevelInfoLayerCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('LevelInfoLayer');
+    const modName = data.name || "My Awesome Mod";
+    return `// Adds a button to a level's info page that shows extra stats
+class $modify(${className}, LevelInfoLayer) {
+	bool init(GJGameLevel* level, bool challenge) {
+		if (!LevelInfoLayer::init(level, challenge)) {
+			return false;
+		}
+
+		// "left-side-menu" holds the buttons on the left of the page; its ID comes from geode.node-ids
+		auto menu = this->getChildByID("left-side-menu");
+		if (!menu) {
+			log::warn("${modName}: could not find the level info left side menu");
+			return true;
+		}
+
+		auto sprite = CircleButtonSprite::createWithSpriteFrameName("GJ_infoIcon_001.png");
+		sprite->setScale(0.8f);
+		auto button = CCMenuItemSpriteExtra::create(sprite, this, menu_selector(${className}::onLevelStats));
+		button->setID("level-stats-button"_spr);
+		menu->addChild(button);
+		menu->updateLayout();
+
+		return true;
+	}
+
+	void onLevelStats(CCObject*) {
+		auto level = this->m_level;
+		FLAlertLayer::create(
+			"${modName}",
+			fmt::format(
+				"<cy>{}</c>\\nID: {}\\nAttempts: {}\\nJumps: {}",
+				std::string(level->m_levelName),
+				level->m_levelID.value(),
+				level->m_attempts.value(),
+				level->m_jumps.value()
+			),
+			"OK"
+		)->show();
+	}
+};
+`;
+};
+
+export const levelInfoButtonFeature: ModFeatureDefinition = {
+    id: 'level-info-button',
+    label: 'Level Info Page (LevelInfoLayer)',
+    description: "Adds a button to a level's page that shows details about the level. A starting point for level stats and tools.",
+    hooks: ['LevelInfoLayer'],
+    previewScene: 'level-info',
+    sourcePath: 'src/hooks/level-info-button.cpp',
+    includes: ['Geode/modify/LevelInfoLayer.hpp'],
+    requiredDependencies: ['geode.node-ids'],
+    generateSource: generateLevelInfoLayerCpp,
+};
@@ -0,0 +1,42 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generateMenuLayerCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('MenuLayer');
+    const modName = data.name || "My Awesome Mod";
+    return `// Adds a label to the main menu
+class $modify(${className}, MenuLayer) {
+	bool init() {
+		if (!MenuLayer::init()) {
+			return false;
+		}
+
+		try {
+			// Log that the mod is initializing
+			log::info("Initializing ${modName}");
+
+			auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
+
+			auto winSize = CCDirector::sharedDirector()->getWinSize();
+			myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
+			myLabel->setScale(0.7f);
+			this->addChild(myLabel);
+		} catch (const std::exception& e) {
+			geode::log::error("An error occurred during ${modName} initialization: {}", e.what());
+		}
+
+		return true;
+	}
+};
+`;
+};
+
+export const menuLabelFeature: ModFeatureDefinition = {
+    id: 'menu-label',
+    label: 'Main Menu Label',
+    description: 'Adds a "Hello" label to the main menu. The simplest possible starting point.',
+    hooks: ['MenuLayer'],
+    previewScene: 'menu',
+    sourcePath: 'src/hooks/menu-label.cpp',
+    includes: ['Geode/modify/MenuLayer.hpp'],
+    generateSource: generateMenuLayerCpp,
+};
@@ -0,0 +1,49 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generatePauseLayerCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('PauseLayer');
+    const modName = data.name || "My Awesome Mod";
+    return `// Adds a button to the pause menu
+class $modify(${className}, PauseLayer) {
+	void customSetup() {
+		PauseLayer::customSetup();
+
+		// "right-button-menu" is the column of small buttons on the right; its ID comes from geode.node-ids
+		auto menu = this->getChildByID("right-button-menu");
+		if (!menu) {
+			log::warn("${modName}: could not find the pause menu's right button menu");
+			return;
+		}
+
+		auto sprite = CircleButtonSprite::createWithSpriteFrameName("GJ_infoIcon_001.png");
+		sprite->setScale(0.7f);
+		auto button = CCMenuItemSpriteExtra::create(sprite, this, menu_selector(${className}::onMyButton));
+		button->setID("my-pause-button"_spr);
+		menu->addChild(button);
+		menu->updateLayout();
+	}
+
+	void onMyButton(CCObject*) {
+		auto playLayer = PlayLayer::get();
+		if (!playLayer) return;
+		FLAlertLayer::create(
+			"${modName}",
+			fmt::format("You are playing <cy>{}</c>.", std::string(playLayer->m_level->m_levelName)),
+			"OK"
+		)->show();
+	}
+};
+`;
+};
+
+export const pauseButtonFeature: ModFeatureDefinition = {
+    id: 'pause-button',
+    label: 'Pause Menu Button',
+    description: 'Adds a button to the pause menu that knows which level is being played.',
+    hooks: ['PauseLayer'],
+    previewScene: 'pause',
+    sourcePath: 'src/hooks/pause-button.cpp',
+    includes: ['Geode/modify/PauseLayer.hpp'],
+    requiredDependencies: ['geode.node-ids'],
+    generateSource: generatePauseLayerCpp,
+};
@@ -0,0 +1,32 @@
+import type { ModFeatureDefinition, FeatureContext, ModData } from '../../types';
+
+const generatePlayLayerCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('PlayLayer');
+    return `// Shows a notification when the player dies
+class $modify(${className}, PlayLayer) {
+    void onQuit() {
+        // Call the original function so the game doesn't crash
+        PlayLayer::onQuit();
+
+        try {
+            // Log to the console and show a notification
+            log::info("Player quit level, showing notification.");
+            Notification::create("You died!", CCSprite::create("GJ_deleteBtn_001.png"))->show();
+        } catch (const std::exception& e) {
+            geode::log::error("An error occurred in PlayLayer::onQuit hook: {}", e.what());
+        }
+    }
+};
+`;
+};
+
+export const deathNotificationFeature: ModFeatureDefinition = {
+    id: 'death-notification',
+    label: 'Death Notification (PlayLayer)',
+    description: 'Shows a notification when you leave a level. A starting point for gameplay mods.',
+    hooks: ['PlayLayer'],
+    previewScene: 'level',
+    sourcePath: 'src/hooks/death-notification.cpp',
+    includes: ['Geode/modify/PlayLayer.hpp'],
+    generateSource: generatePlayLayerCpp,
+};
@@ -0,0 +1,33 @@
+import type { ModFeatureDefinition, ModData } from '../../types';
+import { getSettingCppType } from './cppHelpers';
+
+const LISTENABLE_TYPES = ['bool', 'int', 'float', 'string'];
+
+const generateSettingsListenerCpp = (data: ModData): string => {
+    const listeners = data.settings
+        .filter(setting => LISTENABLE_TYPES.includes(setting.type))
+        .map(setting => `	listenForSettingChanges("${setting.key}", +[](${getSettingCppType(setting.type)} value) {
+		log::info("${setting.key} changed to {}", value);
+	});`);
+
+    const body = listeners.length > 0
+        ? listeners.join('\n')
+        : `	// Add a bool, int, float or string setting in the form to listen for its changes here.`;
+
+    return `// Runs code whenever the player changes one of the mod's settings
+$execute {
+${body}
+}
+`;
+};
+
+export const settingsListenerFeature: ModFeatureDefinition = {
+    id: 'settings-listener',
+    label: 'Setting Change Listener',
+    description: 'No hooks: logs the new value whenever a bool, int, float or string setting is changed in-game.',
+    hooks: [],
+    previewScene: 'none',
+    sourcePath: 'src/hooks/settings-listener.cpp',
+    includes: ['Geode/loader/SettingEvent.hpp'],
+    generateSource: generateSettingsListenerCpp,
+};
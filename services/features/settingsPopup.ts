@@ -0,0 +1,193 @@
+import type { ModFeatureDefinition, FeatureContext, ModData, ModSetting } from '../../types';
+
+const getNumberInputAllowedChars = (setting: ModSetting): string => {
+    const allowsNegative = setting.min === undefined || setting.min < 0;
+    return `0123456789${setting.type === 'float' ? '.' : ''}${allowsNegative ? '-' : ''}`;
+};
+
+const getNumberInputMaxLength = (setting: ModSetting): number | null => {
+    if (setting.min === undefined || setting.max === undefined) return null;
+    const longestBound = Math.max(String(Math.trunc(setting.min)).length, String(Math.trunc(setting.max)).length);
+    // Leave room for a decimal point and a few decimals on floats
+    return setting.type === 'float' ? longestBound + 4 : longestBound;
+};
+
+const generateSettingsPopupCpp = (data: ModData, context: FeatureContext): string => {
+    const className = context.className('MenuLayer');
+    const modId = data.id || 'developer.modname';
+    const modName = data.name || 'My Mod';
+
+    const firstBoolSetting = data.settings.find(s => s.type === 'bool');
+
+    let menuLayerModification = `
+// This adds the "Hello World" label to the main menu, but only if a boolean setting is enabled.
+class $modify(${className}, MenuLayer) {
+	bool init() {
+		if (!MenuLayer::init()) {
+			return false;
+		}
+		
+		try {
+`;
+
+    if (firstBoolSetting) {
+        menuLayerModification += `			// Check if the setting is enabled
+			if (Mod::get()->getSettingValue<bool>("${firstBoolSetting.key}")) {
+				log::info("Setting '${firstBoolSetting.key}' is enabled, adding label.");
+				auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
+				auto winSize = CCDirector::sharedDirector()->getWinSize();
+				myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
+				myLabel->setScale(0.7f);
+				this->addChild(myLabel);
+			}
+`;
+    } else {
+        menuLayerModification += `			// You can add logic here that depends on your settings.
+			// For example, create a boolean setting in the form to toggle this label.
+			auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
+			auto winSize = CCDirector::sharedDirector()->getWinSize();
+			myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
+			myLabel->setScale(0.7f);
+			this->addChild(myLabel);
+`;
+    }
+
+    menuLayerModification += `		} catch (const std::exception& e) {
+			geode::log::error("An error occurred in ${className}::init: {}", e.what());
+		}
+
+		return true;
+	}
+};`;
+
+    let settingsUiGeneration = '';
+    if (data.settings.length > 0) {
+        data.settings.forEach((setting, index) => {
+            const yPos = `contentSize.height - 40.f - (40.f * ${index})`;
+            const maxLength = getNumberInputMaxLength(setting);
+            const numberInputLimits = maxLength !== null ? `
+                    input_${index}->getInput()->setMaxLabelLength(${maxLength}); // ${setting.min} to ${setting.max}` : '';
+            switch (setting.type) {
+                case 'bool':
+                    settingsUiGeneration += `
+                    auto toggle_${index} = geode::Checkbox::create("${setting.name}", nullptr);
+                    popup->addToggle(toggle_${index}, "${modId}", "${setting.key}");
+                    toggle_${index}->setPosition(contentSize.width / 2, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(toggle_${index});
+                    `;
+                    break;
+                case 'int':
+                    settingsUiGeneration += `
+                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
+                    input_label_${index}->setScale(0.5f);
+                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
+
+                    auto input_${index} = geode::InputNode::create(100.f, "Number");
+                    input_${index}->getInput()->setAllowedChars("${getNumberInputAllowedChars(setting)}");${numberInputLimits}
+                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
+                    input_${index}->setPosition(contentSize.width / 2 + 30.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
+                    `;
+                    break;
+                case 'float':
+                     settingsUiGeneration += `
+                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
+                    input_label_${index}->setScale(0.5f);
+                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
+
+                    auto input_${index} = geode::InputNode::create(100.f, "Number");
+                    input_${index}->getInput()->setAllowedChars("${getNumberInputAllowedChars(setting)}");${numberInputLimits}
+                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
+                    input_${index}->setPosition(contentSize.width / 2 + 30.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
+                    `;
+                    break;
+                case 'string':
+                     settingsUiGeneration += `
+                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
+                    input_label_${index}->setScale(0.5f);
+                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
+
+                    auto input_${index} = geode::InputNode::create(150.f, "Text");
+                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
+                    input_${index}->setPosition(contentSize.width / 2 + 55.f, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
+                    `;
+                    break;
+                case 'title':
+                    settingsUiGeneration += `
+                    auto title_${index} = CCLabelBMFont::create("${setting.name}", "goldFont.fnt");
+                    title_${index}->setScale(0.6f);
+                    title_${index}->setPosition(contentSize.width / 2, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(title_${index});
+                    `;
+                    break;
+                default:
+                    // Colors, files and custom settings use Geode's own setting nodes,
+                    // so only a label is added here.
+                    settingsUiGeneration += `
+                    auto setting_label_${index} = CCLabelBMFont::create("${setting.name} (${setting.type})", "bigFont.fnt");
+                    setting_label_${index}->setScale(0.5f);
+                    setting_label_${index}->setPosition(contentSize.width / 2, ${yPos});
+                    popup->getBJSPopup()->m_mainLayer->addChild(setting_label_${index});
+                    `;
+                    break;
+            }
+        });
+    } else {
+        settingsUiGeneration = `
+                    auto label = CCLabelBMFont::create("This mod has no settings.", "bigFont.fnt");
+                    label->setPosition(contentSize.width / 2, contentSize.height / 2);
+                    label->setScale(0.6f);
+                    popup->getBJSPopup()->m_mainLayer->addChild(label);
+        `;
+    }
+
+
+    return `${menuLayerModification.trimStart()}
+
+// This function is called when the mod is loaded.
+// It is used to create the settings UI.
+$execute {
+    // We use onModsLoaded instead of just running the code to make sure
+    // the mod list is ready and the settings button can be created.
+    geode::ui::onModsLoaded([] {
+        geode::ui::createSettingsPopup(
+            "${modId}",
+            [](auto popup) {
+                // This is the function that creates the UI.
+                // It is called every time the user opens your settings.
+                try {
+                    log::info("Creating settings UI for ${modId}");
+                    // First, we get the content size of the popup.
+                    // This is used to position our elements.
+                    auto contentSize = popup->getBJSPopup()->m_mainLayer->getContentSize();
+                    
+                    // The following UI is generated automatically based on your settings.
+                    ${settingsUiGeneration}
+
+                    return true;
+                } catch (const std::exception& e) {
+                    geode::log::error("Failed to create settings UI for ${modId}: {}", e.what());
+                    return false; // Indicate failure
+                }
+            }
+        );
+    });
+}
+`;
+};
+
+export const settingsPopupFeature: ModFeatureDefinition = {
+    id: 'settings-popup',
+    label: 'Settings Popup',
+    description: 'Builds a settings popup from the custom settings you define below, and shows a main menu label toggled by the first boolean setting.',
+    hooks: ['MenuLayer'],
+    previewScene: 'menu-settings',
+    sourcePath: 'src/hooks/settings-popup.cpp',
+    includes: ['Geode/modify/MenuLayer.hpp', 'Geode/ui/GeodeUI.hpp', 'Geode/ui/InputNode.hpp', 'Geode/ui/Checkbox.hpp'],
+    generateSource: generateSettingsPopupCpp,
+};
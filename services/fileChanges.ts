@@ -0,0 +1,179 @@
+import type { AiSchema, AiToolDeclaration, FileChangeAction, ProposedFileChange, VirtualFile, VirtualFileSystem } from '../types';
+import { writeFile } from './vfs';
+import { normalizeFilePath } from './fileOperations';
+import { parseUnifiedDiff, createPatch, applyHunks, type PatchHunk } from './patch';
+
+const PATH_PARAMETER: AiSchema = {
+    type: 'string',
+    description: 'The full, relative path of the file, e.g. "src/MyAwesomeHook.cpp".',
+};
+
+// Gigi's file operations. Each call becomes a card in the chat that the user
+// accepts or rejects; the model only ever proposes.
+export const FILE_TOOL_DECLARATIONS: AiToolDeclaration[] = [
+    {
+        name: 'createFile',
+        description: 'Proposes a new text file for the project.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: PATH_PARAMETER,
+                content: { type: 'string', description: 'The complete content of the file.' },
+            },
+            required: ['path', 'content'],
+        },
+    },
+    {
+        name: 'updateFile',
+        description: 'Proposes replacing the whole content of an existing text file. Prefer patchFile for small changes to large files.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: PATH_PARAMETER,
+                content: { type: 'string', description: 'The complete new content of the file.' },
+            },
+            required: ['path', 'content'],
+        },
+    },
+    {
+        name: 'patchFile',
+        description: 'Proposes changing part of an existing text file with a unified diff.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: PATH_PARAMETER,
+                patch: { type: 'string', description: 'A unified diff against the current file: "@@ -start,count +start,count @@" hunks with three lines of context, lines prefixed by " ", "-" or "+".' },
+            },
+            required: ['path', 'patch'],
+        },
+    },
+    {
+        name: 'deleteFile',
+        description: 'Proposes deleting a file from the project.',
+        parameters: {
+            type: 'object',
+            properties: {
+                path: PATH_PARAMETER,
+            },
+            required: ['path'],
+        },
+    },
+];
+
+const FILE_TOOL_ACTIONS: Record<string, FileChangeAction> = {
+    createFile: 'create',
+    updateFile: 'update',
+    patchFile: 'patch',
+    deleteFile: 'delete',
+};
+
+export const isFileToolCall = (name: string | undefined): boolean => name !== undefined && name in FILE_TOOL_ACTIONS;
+
+/**
+ * Turns one of the file tool calls into a pending change, remembering the
+ * file as Gigi saw it. Throws when the arguments are missing or the patch
+ * can't be read, so the error can be sent back to the model.
+ */
+export const parseFileChangeCall = (name: string, args: Record<string, unknown>, id: string, files: VirtualFileSystem): ProposedFileChange => {
+    const action = FILE_TOOL_ACTIONS[name];
+    const path = typeof args.path === 'string' ? normalizeFilePath(args.path) : '';
+    if (!path) throw new Error(`${name} needs a path.`);
+    const existing = files[path];
+    // Binary files are left out of the chat history; Gigi can only replace those
+    const baseContent = !existing ? null : existing.encoding === 'utf8' ? existing.content : undefined;
+    const change: ProposedFileChange = { id, action, path, baseContent, status: 'pending' };
+    if (action === 'create' || action === 'update') {
+        if (typeof args.content !== 'string') throw new Error(`${name} needs the file's content.`);
+        change.content = args.content;
+    } else if (action === 'patch') {
+        if (typeof args.patch !== 'string') throw new Error('patchFile needs a patch.');
+        change.patch = args.patch;
+        parseUnifiedDiff(change.patch); // so a malformed patch goes back to the model
+    }
+    return change;
+};
+
+/**
+ * A text change as hunks: the patch Gigi sent, or for a whole-file update,
+ * the difference from the file Gigi saw to the content it wrote. Either way
+ * they apply to the file as it is now without undoing edits made elsewhere
+ * in it.
+ */
+export const getFileChangeHunks = (change: ProposedFileChange, currentContent: string): PatchHunk[] => {
+    if (change.action === 'patch') return parseUnifiedDiff(change.patch ?? '');
+    if (change.action === 'update') return createPatch(change.baseContent ?? currentContent, change.content ?? '');
+    return [];
+};
+
+export interface FileChangeResult {
+    content: string | null; // null when the change deletes the file
+    applied: number[]; // hunks applied, for update and patch
+    conflicts: number[]; // selected hunks that don't match the file any more
+    total: number; // hunks in the change
+}
+
+/**
+ * What a change, or the selected hunks of it, leaves at its path. Throws
+ * when the change can't be applied to the project as it is now.
+ */
+export const applyFileChange = (change: ProposedFileChange, files: VirtualFileSystem, selectedHunks?: number[]): FileChangeResult => {
+    const file = files[change.path];
+    if (change.action === 'create') return { content: change.content ?? '', applied: [], conflicts: [], total: 0 };
+    if (!file) throw new Error(`${change.path} isn't in the project any more.`);
+    if (change.action === 'delete') return { content: null, applied: [], conflicts: [], total: 0 };
+    if (file.encoding !== 'utf8') {
+        // Gigi can replace a binary file with text, but not patch it
+        if (change.action === 'update') return { content: change.content ?? '', applied: [], conflicts: [], total: 0 };
+        throw new Error(`${change.path} is a binary file and can't be patched.`);
+    }
+    const hunks = getFileChangeHunks(change, file.content);
+    return { ...applyHunks(file.content, hunks, selectedHunks), total: hunks.length };
+};
+
+// Whether the file is no longer what Gigi saw when it proposed the change
+export const hasFileChangedSince = (change: ProposedFileChange, files: VirtualFileSystem): boolean => {
+    if (change.baseContent === undefined) return false;
+    return (files[change.path]?.content ?? null) !== change.baseContent;
+};
+
+const isFile = (file: VirtualFile | undefined, expected: VirtualFile | null) => {
+    return expected === null ? file === undefined : file?.encoding === expected.encoding && file.content === expected.content;
+};
+
+const isText = (file: VirtualFile | undefined, expected: string | null) => {
+    return expected === null ? file === undefined : file?.encoding === 'utf8' && file.content === expected;
+};
+
+/**
+ * Undoes accepted changes, newest first, then redoes others, oldest first,
+ * as when switching between branches of a chat. A change whose file has
+ * been edited since is skipped rather than overwriting that edit; the paths
+ * skipped are returned.
+ */
+export const rollFileChanges = (files: VirtualFileSystem, undo: ProposedFileChange[], redo: ProposedFileChange[]): { files: VirtualFileSystem; skipped: string[] } => {
+    const next = { ...files };
+    const skipped: string[] = [];
+    for (const change of [...undo].reverse()) {
+        const { before, after } = change.appliedEdit!;
+        if (!isText(next[change.path], after)) {
+            skipped.push(change.path);
+        } else if (before === null) {
+            delete next[change.path];
+        } else {
+            next[change.path] = before;
+        }
+    }
+    let result = next;
+    for (const change of redo) {
+        const { before, after } = change.appliedEdit!;
+        if (!isFile(result[change.path], before)) {
+            skipped.push(change.path);
+        } else if (after === null) {
+            result = { ...result };
+            delete result[change.path];
+        } else {
+            result = writeFile(result, change.path, after, 'ai', 'utf8');
+        }
+    }
+    return { files: result, skipped: [...new Set(skipped)] };
+};
@@ -0,0 +1,102 @@
+import type { VirtualFileSystem, TemplateFileStates } from '../types';
+import { renameVirtualFile } from './vfs';
+
+export interface FileTreeChange {
+    files: VirtualFileSystem;
+    templateFiles: TemplateFileStates;
+}
+
+// Everything needed to put deleted files back exactly as they were
+export interface DeletedFiles {
+    path: string; // the file or folder the user deleted
+    files: VirtualFileSystem;
+    templateFiles: TemplateFileStates; // the deleted paths' tracking state before the delete
+}
+
+// A folder only exists while it has files, so new folders get a placeholder like assets/ does
+export const FOLDER_PLACEHOLDER = '.gitkeep';
+
+// "/src//hooks/" -> "src/hooks"
+export const normalizeFilePath = (path: string): string => {
+    return path.trim().replace(/\\/g, '/').split('/').filter(part => part && part !== '.').join('/');
+};
+
+export const isFolder = (files: VirtualFileSystem, path: string): boolean => {
+    return Object.keys(files).some(filePath => filePath.startsWith(`${path}/`));
+};
+
+// The file itself, or every file inside the folder
+export const getPathsUnder = (files: VirtualFileSystem, path: string): string[] => {
+    return Object.keys(files).filter(filePath => filePath === path || filePath.startsWith(`${path}/`));
+};
+
+/**
+ * Explains why a new file or folder can't be created at `path`, or returns
+ * null when it can. `ignore` is the path being renamed, which may keep its
+ * own name.
+ */
+export const getPathError = (files: VirtualFileSystem, path: string, ignore?: string): string | null => {
+    if (!path) return 'Enter a name.';
+    const parts = path.split('/');
+    if (parts.includes('..')) return "Paths can't point outside the project.";
+    if (/[<>:"|?*\u0000-\u001f]/.test(path)) return 'Names can\'t contain < > : " | ? or *.';
+    if (path === ignore) return null;
+    if (files[path] !== undefined) return `${path} already exists.`;
+    if (isFolder(files, path)) return `A folder named ${path} already exists.`;
+    for (let i = 1; i < parts.length; i++) {
+        const parent = parts.slice(0, i).join('/');
+        if (files[parent] !== undefined && parent !== ignore) return `${parent} is a file, not a folder.`;
+    }
+    if (ignore && path.startsWith(`${ignore}/`)) return "A folder can't be moved into itself.";
+    return null;
+};
+
+/**
+ * Renames or moves a file or folder. Template files that move are marked as
+ * removed at their old path, so regenerating doesn't recreate them there.
+ */
+export const movePath = (files: VirtualFileSystem, templateFiles: TemplateFileStates, from: string, to: string): FileTreeChange => {
+    const nextFiles = { ...files };
+    const nextTemplateFiles = { ...templateFiles };
+    for (const oldPath of getPathsUnder(files, from)) {
+        const newPath = to + oldPath.slice(from.length);
+        nextFiles[newPath] = renameVirtualFile(files[oldPath], newPath);
+        delete nextFiles[oldPath];
+        if (templateFiles[oldPath]) {
+            nextTemplateFiles[oldPath] = { ...templateFiles[oldPath], removed: true };
+        }
+    }
+    return { files: nextFiles, templateFiles: nextTemplateFiles };
+};
+
+export const deletePath = (files: VirtualFileSystem, templateFiles: TemplateFileStates, path: string): FileTreeChange & { deleted: DeletedFiles } => {
+    const nextFiles = { ...files };
+    const nextTemplateFiles = { ...templateFiles };
+    const deleted: DeletedFiles = { path, files: {}, templateFiles: {} };
+    for (const filePath of getPathsUnder(files, path)) {
+        deleted.files[filePath] = files[filePath];
+        delete nextFiles[filePath];
+        if (templateFiles[filePath]) {
+            deleted.templateFiles[filePath] = templateFiles[filePath];
+            nextTemplateFiles[filePath] = { ...templateFiles[filePath], removed: true };
+        }
+    }
+    return { files: nextFiles, templateFiles: nextTemplateFiles, deleted };
+};
+
+export const restoreDeletedFiles = (files: VirtualFileSystem, templateFiles: TemplateFileStates, deleted: DeletedFiles): FileTreeChange => {
+    const nextTemplateFiles = { ...templateFiles };
+    for (const filePath in deleted.files) {
+        if (deleted.templateFiles[filePath]) {
+            nextTemplateFiles[filePath] = deleted.templateFiles[filePath];
+        } else {
+            delete nextTemplateFiles[filePath];
+        }
+    }
+    return { files: { ...files, ...deleted.files }, templateFiles: nextTemplateFiles };
+};
+
+// Where a dropped file goes when it isn't dropped onto a folder
+export const getDefaultUploadFolder = (fileName: string): string => {
+    return /\.(cpp|hpp|h)$/i.test(fileName) ? 'src' : 'assets';
+};
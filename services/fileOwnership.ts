@@ -0,0 +1,83 @@
+import type { GeneratedFiles, VirtualFileSystem, TemplateFileStates } from '../types';
+
+export type FileOwnership = 'template' | 'edited' | 'custom';
+
+export interface ReconcileResult {
+    files: GeneratedFiles;
+    templateFiles: TemplateFileStates;
+}
+
+/**
+ * Tells whether a file is still owned by the templates, has been edited by
+ * hand or by Gigi, or was never produced by a template at all.
+ */
+export const getFileOwnership = (path: string, files: VirtualFileSystem, templateFiles: TemplateFileStates): FileOwnership => {
+    const state = templateFiles[path];
+    if (!state) return 'custom';
+    return files[path]?.content === state.base ? 'template' : 'edited';
+};
+
+/**
+ * Merges freshly generated template output into the current project files.
+ * Template-owned files are replaced, edited files are never overwritten: if the
+ * template changed underneath them, the new output is parked as a pending update
+ * for the user to review.
+ */
+export const reconcileTemplateFiles = (current: GeneratedFiles | null, templateFiles: TemplateFileStates, generated: GeneratedFiles): ReconcileResult => {
+    const files: GeneratedFiles = {};
+    const nextTemplateFiles: TemplateFileStates = {};
+
+    for (const path in generated) {
+        const output = generated[path] ?? '';
+        const state = templateFiles[path];
+        const content = current?.[path];
+
+        if (state?.removed) {
+            // Deleted or moved by the user: stay gone, unless something new was put at the path since
+            if (content === undefined) {
+                nextTemplateFiles[path] = { base: output, removed: true };
+            } else {
+                files[path] = content;
+                nextTemplateFiles[path] = { base: output };
+            }
+            continue;
+        }
+
+        if (content === undefined || content === output || (state && content === state.base)) {
+            // Unchanged since the template last wrote it (or missing): take the new output
+            files[path] = output;
+            nextTemplateFiles[path] = { base: output };
+        } else if (!state) {
+            // The file exists but was never tracked (imported or from an older save): keep it
+            files[path] = content;
+            nextTemplateFiles[path] = { base: output };
+        } else {
+            files[path] = content;
+            // The form producing the base again means any earlier pending update no longer applies
+            nextTemplateFiles[path] = output === state.base ? { base: state.base } : { base: state.base, pendingUpdate: output };
+        }
+    }
+
+    if (current) {
+        for (const path in current) {
+            if (path in generated) continue;
+            // Template files the form no longer produces are dropped unless they were edited
+            const state = templateFiles[path];
+            if (state && current[path] === state.base) continue;
+            files[path] = current[path];
+        }
+    }
+
+    return { files, templateFiles: nextTemplateFiles };
+};
+
+/**
+ * Marks a pending template update as reviewed. Whether the user accepted,
+ * merged or rejected it, the new template output becomes the base so the same
+ * update isn't offered twice.
+ */
+export const settleTemplateUpdate = (templateFiles: TemplateFileStates, path: string): TemplateFileStates => {
+    const state = templateFiles[path];
+    if (!state?.pendingUpdate) return templateFiles;
+    return { ...templateFiles, [path]: { base: state.pendingUpdate } };
+};
@@ -0,0 +1,100 @@
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+}
+
+export interface SearchMatch {
+    path: string;
+    start: number; // offsets into the file's content
+    end: number;
+    line: number; // 1-based
+    lineText: string;
+    column: number; // 0-based, within lineText
+}
+
+const MAX_MATCHES = 1000;
+
+/**
+ * Turns the search box into a global RegExp, or returns null when the query
+ * is empty or isn't a valid regular expression.
+ */
+export const buildSearchPattern = (query: string, options: SearchOptions): RegExp | null => {
+    if (!query) return null;
+    let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (options.wholeWord) source = `\\b(?:${source})\\b`;
+    try {
+        return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+    } catch {
+        return null;
+    }
+};
+
+// Every non-empty match of the pattern in one file
+const findInContent = (path: string, content: string, pattern: RegExp, limit: number): SearchMatch[] => {
+    const matches: SearchMatch[] = [];
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    pattern.lastIndex = 0;
+    let line = 0;
+    for (let match = pattern.exec(content); match && matches.length < limit; match = pattern.exec(content)) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+        }
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= match.index) line++;
+        const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : content.length;
+        matches.push({
+            path,
+            start: match.index,
+            end: match.index + match[0].length,
+            line: line + 1,
+            lineText: content.slice(lineStarts[line], lineEnd),
+            column: match.index - lineStarts[line],
+        });
+    }
+    return matches;
+};
+
+// Binary files such as images are stored as base64 and never searched
+const isSearchable = (files: VirtualFileSystem, path: string): boolean => files[path]?.encoding === 'utf8';
+
+/**
+ * Searches every text file in the project, in path order.
+ */
+export const findInFiles = (files: VirtualFileSystem, query: string, options: SearchOptions): SearchMatch[] => {
+    const pattern = buildSearchPattern(query, options);
+    if (!pattern) return [];
+
+    const matches: SearchMatch[] = [];
+    for (const path of Object.keys(files).filter(path => isSearchable(files, path)).sort()) {
+        matches.push(...findInContent(path, files[path].content, pattern, MAX_MATCHES - matches.length));
+        if (matches.length >= MAX_MATCHES) break;
+    }
+    return matches;
+};
+
+/**
+ * Replaces every match in the given files (all text files by default) and
+ * returns only the files whose content changed. With the regex option the
+ * replacement can use $1-style groups; otherwise it's inserted as typed.
+ */
+export const replaceInFiles = (files: VirtualFileSystem, query: string, replacement: string, options: SearchOptions, paths?: string[]): GeneratedFiles => {
+    const pattern = buildSearchPattern(query, options);
+    if (!pattern) return {};
+
+    const changed: GeneratedFiles = {};
+    for (const path of (paths ?? Object.keys(files)).filter(path => isSearchable(files, path))) {
+        const content = files[path].content;
+        const updated = options.regex
+            ? content.replace(pattern, replacement)
+            : content.replace(pattern, () => replacement);
+        if (updated !== content) changed[path] = updated;
+    }
+    return changed;
+};
@@ -0,0 +1,47 @@
+import type { GeneratedFiles, VirtualFileSystem } from '../types';
+
+// Files whose content is stored as base64 unless written otherwise. Everything
+// else (sources, headers, manifests, .fnt and .plist sheets...) is plain text.
+const BINARY_FILE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.ogg', '.mp3', '.wav', '.ttf', '.otf', '.zip', '.geode', '.dll', '.so', '.dylib'];
+
+export const isBinaryFile = (path: string): boolean => {
+    const lowerPath = path.toLowerCase();
+    return BINARY_FILE_EXTENSIONS.some(ext => lowerPath.endsWith(ext));
+};
+
+export const isTextFile = (path: string): boolean => !isBinaryFile(path);
+
+// What can be dropped into the file explorer: sprites, sounds, fonts and C++ sources
+export const UPLOADABLE_FILE_EXTENSIONS = ['.png', '.ogg', '.mp3', '.wav', '.ttf', '.otf', '.fnt', '.cpp', '.hpp', '.h'];
+
+export const isUploadableFile = (name: string): boolean => {
+    const lowerName = name.toLowerCase();
+    return UPLOADABLE_FILE_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+};
+
+// Saves a blob through the browser's download prompt
+export const downloadFile = (content: Blob, fileName: string): void => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(content);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export const readFileAsBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(String(reader.result).split(',')[1] ?? '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+};
+
+// C++ files under src/ that CMake needs to compile, sorted for stable output
+export const getCppSourceFiles = (files: GeneratedFiles | VirtualFileSystem): string[] => {
+    return Object.keys(files)
+        .filter(path => path.startsWith('src/') && /\.(cpp|cc|cxx)$/.test(path))
+        .sort();
+};
@@ -0,0 +1,50 @@
+import type { Rect } from './spritePacker';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('The image could not be decoded.'));
+        image.src = src;
+    });
+};
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+// The canvas as a base64 PNG, the way the project stores images
+export const canvasToBase64 = (canvas: HTMLCanvasElement): string => canvas.toDataURL('image/png').split(',')[1] ?? '';
+
+/**
+ * The smallest rectangle holding every pixel that isn't fully transparent,
+ * or null for an empty image.
+ */
+export const getOpaqueBounds = (canvas: HTMLCanvasElement): Rect | null => {
+    const { width, height } = canvas;
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (pixels[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Shrinks a base64 PNG so neither side is over `maxSize`; smaller images are returned as-is
+export const resizeImageToFit = async (content: string, maxSize: number): Promise<string> => {
+    const image = await loadImage(`data:image/png;base64,${content}`);
+    const scale = maxSize / Math.max(image.naturalWidth, image.naturalHeight);
+    if (scale >= 1) return content;
+    const canvas = createCanvas(Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvasToBase64(canvas);
+};
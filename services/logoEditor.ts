@@ -0,0 +1,143 @@
+import type { Rect } from './spritePacker';
+import { createCanvas, getOpaqueBounds } from './imageUtils';
+
+// Geode shows logo.png in a square and expects it at 336x336
+export const LOGO_SIZE = 336;
+
+export type LogoBackgroundId = 'none' | 'circle' | 'rounded' | 'square';
+export type LogoOutlineId = 'none' | 'black' | 'white';
+
+export interface LogoPreset<T extends string> {
+    id: T;
+    label: string;
+}
+
+export const LOGO_BACKGROUNDS: LogoPreset<LogoBackgroundId>[] = [
+    { id: 'none', label: 'None' },
+    { id: 'circle', label: 'Circle' },
+    { id: 'rounded', label: 'Rounded' },
+    { id: 'square', label: 'Square' },
+];
+
+export const LOGO_OUTLINES: LogoPreset<LogoOutlineId>[] = [
+    { id: 'none', label: 'None' },
+    { id: 'black', label: 'Black' },
+    { id: 'white', label: 'White' },
+];
+
+export interface LogoSettings {
+    crop: Rect; // square, in source pixels
+    padding: number; // pixels of the exported logo left empty on each side
+    background: LogoBackgroundId;
+    backgroundColor: string;
+    outline: LogoOutlineId;
+}
+
+export interface LogoCheck {
+    level: 'warning' | 'info';
+    message: string;
+}
+
+const OUTLINE_WIDTH = 8;
+const OUTLINE_COLORS: Record<Exclude<LogoOutlineId, 'none'>, string> = { black: '#000000', white: '#ffffff' };
+
+// The largest square centred on the image
+export const getCenteredCrop = (width: number, height: number): Rect => {
+    const size = Math.min(width, height);
+    return { x: Math.floor((width - size) / 2), y: Math.floor((height - size) / 2), width: size, height: size };
+};
+
+/**
+ * The smallest square around the image's visible pixels, kept inside the
+ * image where it can be. Falls back to the centred crop for empty images.
+ */
+export const getContentCrop = (image: CanvasImageSource, width: number, height: number): Rect => {
+    const canvas = createCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+    const bounds = getOpaqueBounds(canvas);
+    if (!bounds) return getCenteredCrop(width, height);
+    const size = Math.min(Math.max(bounds.width, bounds.height), Math.max(width, height));
+    const clamp = (start: number, limit: number) => Math.max(Math.min(start, limit - size), Math.min(0, limit - size));
+    return {
+        x: clamp(Math.round(bounds.x + bounds.width / 2 - size / 2), width),
+        y: clamp(Math.round(bounds.y + bounds.height / 2 - size / 2), height),
+        width: size,
+        height: size,
+    };
+};
+
+const drawBackground = (context: CanvasRenderingContext2D, settings: LogoSettings) => {
+    if (settings.background === 'none') return;
+    context.fillStyle = settings.backgroundColor;
+    context.beginPath();
+    if (settings.background === 'circle') {
+        context.arc(LOGO_SIZE / 2, LOGO_SIZE / 2, LOGO_SIZE / 2, 0, Math.PI * 2);
+    } else {
+        context.roundRect(0, 0, LOGO_SIZE, LOGO_SIZE, settings.background === 'rounded' ? LOGO_SIZE / 6 : 0);
+    }
+    context.fill();
+};
+
+// The artwork's silhouette in one colour, stamped around it to make an outline
+const drawOutline = (context: CanvasRenderingContext2D, artwork: HTMLCanvasElement, color: string) => {
+    const silhouette = createCanvas(artwork.width, artwork.height);
+    const silhouetteContext = silhouette.getContext('2d')!;
+    silhouetteContext.drawImage(artwork, 0, 0);
+    silhouetteContext.globalCompositeOperation = 'source-in';
+    silhouetteContext.fillStyle = color;
+    silhouetteContext.fillRect(0, 0, silhouette.width, silhouette.height);
+    for (let step = 0; step < 16; step++) {
+        const angle = (step / 16) * Math.PI * 2;
+        context.drawImage(silhouette, Math.round(Math.cos(angle) * OUTLINE_WIDTH), Math.round(Math.sin(angle) * OUTLINE_WIDTH));
+    }
+};
+
+/**
+ * Draws the cropped image, inset by the padding, on the chosen background
+ * at Geode's logo size.
+ */
+export const renderLogo = (image: CanvasImageSource, settings: LogoSettings): HTMLCanvasElement => {
+    const canvas = createCanvas(LOGO_SIZE, LOGO_SIZE);
+    const context = canvas.getContext('2d')!;
+    context.imageSmoothingQuality = 'high';
+    drawBackground(context, settings);
+
+    const artwork = createCanvas(LOGO_SIZE, LOGO_SIZE);
+    const artworkContext = artwork.getContext('2d')!;
+    artworkContext.imageSmoothingQuality = 'high';
+    const inner = Math.max(1, LOGO_SIZE - settings.padding * 2);
+    const { crop } = settings;
+    artworkContext.drawImage(image, crop.x, crop.y, crop.width, crop.height, settings.padding, settings.padding, inner, inner);
+
+    if (settings.outline !== 'none') drawOutline(context, artwork, OUTLINE_COLORS[settings.outline]);
+    context.drawImage(artwork, 0, 0);
+    return canvas;
+};
+
+/**
+ * Looks over a rendered logo for the things that make icons look off in the
+ * mod list: no transparency at all, a blank image, or art touching the edges.
+ */
+export const checkLogo = (canvas: HTMLCanvasElement): LogoCheck[] => {
+    const { width, height } = canvas;
+    const pixels = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+    let transparent = 0;
+    for (let i = 3; i < pixels.length; i += 4) {
+        if (pixels[i] < 255) transparent++;
+    }
+    const bounds = getOpaqueBounds(canvas);
+    const checks: LogoCheck[] = [];
+    if (!bounds) {
+        checks.push({ level: 'warning', message: 'The logo is completely transparent.' });
+        return checks;
+    }
+    if (transparent === 0) {
+        checks.push({ level: 'warning', message: 'The logo has no transparency, so it shows as a solid square in the mod list. Crop closer or pick a round background.' });
+    } else {
+        checks.push({ level: 'info', message: `${Math.round((transparent / (width * height)) * 100)}% of the logo is transparent.` });
+    }
+    if (transparent > 0 && (bounds.x === 0 || bounds.y === 0 || bounds.x + bounds.width === width || bounds.y + bounds.height === height)) {
+        checks.push({ level: 'warning', message: 'The art touches the edge of the logo. Add some padding so it isn\'t clipped.' });
+    }
+    return checks;
+};
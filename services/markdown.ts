@@ -0,0 +1,181 @@
+// A small Markdown reader for Gigi's replies: the block and inline syntax
+// chat models actually use, not the whole CommonMark spec.
+
+export type MarkdownInline =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong' | 'em'; children: MarkdownInline[] }
+    | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; content: MarkdownInline[] }
+    | { type: 'heading'; level: number; content: MarkdownInline[] }
+    // `closed` is false while a reply is still streaming the block in
+    | { type: 'code'; language: string; code: string; closed: boolean }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+    | { type: 'quote'; children: MarkdownBlock[] }
+    | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+    | { type: 'rule' };
+
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Code spans, bold, italics and links, tried in that order at each position
+const INLINE_PATTERN = /(`+)([\s\S]*?[^`])\1(?!`)|\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__|\*(?=[^\s*])([\s\S]*?[^\s*])\*|(?<!\w)_(?=\S)([\s\S]*?\S)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Only links that can't run script are made clickable
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+    const nodes: MarkdownInline[] = [];
+    let last = 0;
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        const index = match.index!;
+        if (index > last) nodes.push({ type: 'text', text: text.slice(last, index) });
+        if (match[2] !== undefined) {
+            nodes.push({ type: 'code', text: match[2] });
+        } else if (match[3] !== undefined || match[4] !== undefined) {
+            nodes.push({ type: 'strong', children: parseInline(match[3] ?? match[4]) });
+        } else if (match[5] !== undefined || match[6] !== undefined) {
+            nodes.push({ type: 'em', children: parseInline(match[5] ?? match[6]) });
+        } else if (SAFE_LINK.test(match[8])) {
+            nodes.push({ type: 'link', href: match[8], children: parseInline(match[7]) });
+        } else {
+            nodes.push({ type: 'text', text: match[0] });
+        }
+        last = index + match[0].length;
+    }
+    if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) });
+    return nodes;
+};
+
+const splitTableRow = (line: string): string[] => {
+    const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/);
+    return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) => lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Whether a line begins a block other than a paragraph
+const startsBlock = (lines: string[], i: number) => {
+    const line = lines[i];
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+};
+
+const getIndent = (line: string) => /^\s*/.exec(line)![0].length;
+
+const parseLines = (lines: string[]): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const [, indent, marker, language] = fence;
+            const code: string[] = [];
+            let closed = false;
+            for (i++; i < lines.length; i++) {
+                if (lines[i].trim().startsWith(marker) && !lines[i].trim().slice(marker.length).trim()) {
+                    closed = true;
+                    i++;
+                    break;
+                }
+                // Code indented along with its fence keeps only its own indentation
+                code.push(lines[i].startsWith(indent) ? lines[i].slice(indent.length) : lines[i].trimStart());
+            }
+            blocks.push({ type: 'code', language: language.toLowerCase(), code: code.join('\n'), closed });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].replace(QUOTE, ''));
+            blocks.push({ type: 'quote', children: parseLines(quoted) });
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitTableRow(line).map(parseInline);
+            const rows: MarkdownInline[][][] = [];
+            for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+                rows.push(splitTableRow(lines[i]).map(parseInline));
+            }
+            blocks.push({ type: 'table', header, rows });
+            continue;
+        }
+
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            const markerIndent = item[1].length;
+            const ordered = /\d/.test(item[2]);
+            const items: MarkdownBlock[][] = [];
+            while (i < lines.length) {
+                const next = LIST_ITEM.exec(lines[i]);
+                if (!next || next[1].length !== markerIndent || /\d/.test(next[2]) !== ordered) break;
+                // The item's own lines, dedented to where its text starts
+                const contentIndent = next[0].length;
+                const itemLines = [lines[i].slice(contentIndent)];
+                for (i++; i < lines.length; i++) {
+                    const current = lines[i];
+                    if (!current.trim()) {
+                        // A blank line only continues the item if indented content follows
+                        const following = lines.slice(i + 1).find(candidate => candidate.trim());
+                        if (following === undefined || getIndent(following) <= markerIndent) break;
+                        itemLines.push('');
+                    } else if (getIndent(current) > markerIndent) {
+                        itemLines.push(current.slice(Math.min(contentIndent, getIndent(current))));
+                    } else if (!startsBlock(lines, i) && itemLines[itemLines.length - 1].trim()) {
+                        itemLines.push(current.trim()); // a wrapped line of the item's text
+                    } else {
+                        break;
+                    }
+                }
+                items.push(parseLines(itemLines));
+                while (i < lines.length && !lines[i].trim()) {
+                    // Blank lines between items of the same list
+                    const following = lines.slice(i).find(candidate => candidate.trim());
+                    const nextItem = following !== undefined ? LIST_ITEM.exec(following) : null;
+                    if (!nextItem || nextItem[1].length !== markerIndent) break;
+                    i++;
+                }
+            }
+            blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+            paragraph.push(lines[i++].trim());
+        }
+        blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) });
+    }
+    return blocks;
+};
+
+/**
+ * Reads Markdown into blocks. Unfinished syntax, such as a code fence that
+ * hasn't been closed yet while a reply streams in, is read as far as it goes.
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
@@ -1,6 +1,183 @@
-import type { ModData } from '../types';
+import type { ModData, GeneratedFiles, VirtualFileSystem, TemplateFileStates, ModSetting, ModSettingType, ModDependency, ModIncompatibility, ModBuildOptions } from '../types';
+import { getCppSourceFiles } from './fileUtils';
+import { getResourceFiles } from './assetPipeline';
+import { isNumericSetting } from './features/cppHelpers';
+import { MOD_FEATURES } from './features';
+import { composeFeatureFiles } from './features/composer';
+
+export const createDefaultBuildOptions = (): ModBuildOptions => ({
+    cppStandard: '20',
+    sourceListing: 'glob',
+    includeDirs: [],
+    compileDefinitions: [],
+    cpmPackages: [],
+});
+
+export const createDefaultModData = (): ModData => ({
+    id: '',
+    name: '',
+    version: 'v1.0.0',
+    developer: '',
+    description: '',
+    logo: undefined,
+    dependencies: [],
+    incompatibilities: [],
+    repository: '',
+    features: ['menu-label'],
+    includeCi: false,
+    platforms: {
+        win: true,
+        mac: true,
+        android: true,
+        ios: false,
+    },
+    gdVersion: '*',
+    geodeVersion: '2.0.0-beta.26',
+    tags: '',
+    providesApi: false,
+    earlyLoad: false,
+    settings: [{
+        id: 'setting-initial-1',
+        key: 'welcome_message',
+        name: 'Welcome Message',
+        description: 'The message to display on startup',
+        type: 'string',
+        default: 'Hello, Geode!',
+    }],
+    build: createDefaultBuildOptions(),
+});
+
+export const getDefaultSettingValue = (type: ModSettingType): boolean | number | string => {
+    switch (type) {
+        case 'bool': return false;
+        case 'int': return 0;
+        case 'float': return 0.0;
+        case 'color': return '#ffffff';
+        case 'rgba': return '#ffffffff';
+        default: return '';
+    }
+};
+
+
+/**
+ * Checks the numeric constraints of an int/float setting, returning a
+ * description of the first problem found or null if they're consistent.
+ */
+export const getSettingRangeError = (setting: ModSetting): string | null => {
+    if (!isNumericSetting(setting)) return null;
+    const { min, max, step } = setting;
+    const value = setting.type === 'int' ? parseInt(String(setting.default), 10) : parseFloat(String(setting.default));
+
+    if (min !== undefined && max !== undefined && min > max) return 'Minimum must not be greater than maximum.';
+    if (step !== undefined && step <= 0) return 'Step must be greater than zero.';
+    if (setting.type === 'int' && [min, max, step].some(bound => bound !== undefined && !Number.isInteger(bound))) {
+        return 'Integer settings need whole-number bounds and step.';
+    }
+    if (setting.slider && (min === undefined || max === undefined)) return 'A slider needs both a minimum and a maximum.';
+    if (!Number.isNaN(value)) {
+        if (min !== undefined && value < min) return `Default value ${value} is below the minimum of ${min}.`;
+        if (max !== undefined && value > max) return `Default value ${value} is above the maximum of ${max}.`;
+    }
+    return null;
+};
 
-export const generateModJson = (data: ModData): string => {
+const normalizeHexColor = (value: unknown, withAlpha: boolean): string => {
+    const hex = String(value ?? '').trim().replace(/^#/, '').toLowerCase();
+    const length = withAlpha ? 8 : 6;
+    if (/^[0-9a-f]+$/.test(hex) && (hex.length === 6 || hex.length === 8)) {
+        return `#${(hex.length === 6 && withAlpha ? `${hex}ff` : hex).slice(0, length)}`;
+    }
+    return withAlpha ? '#ffffffff' : '#ffffff';
+};
+
+const generateSettingJson = (setting: ModSetting): Record<string, any> => {
+    if (setting.type === 'title') {
+        const title: Record<string, any> = { type: 'title', name: setting.name };
+        if (setting.description) title.description = setting.description;
+        return title;
+    }
+
+    if (setting.type === 'custom') {
+        return {
+            type: `custom:${setting.customType || setting.key}`,
+            name: setting.name,
+            description: setting.description,
+        };
+    }
+
+    // Geode expects the default value to match the type
+    let defaultValue: any;
+    switch(setting.type) {
+        case 'bool':
+            defaultValue = !!setting.default;
+            break;
+        case 'int':
+            defaultValue = parseInt(String(setting.default), 10) || 0;
+            break;
+        case 'float':
+            defaultValue = parseFloat(String(setting.default)) || 0.0;
+            break;
+        case 'color':
+            defaultValue = normalizeHexColor(setting.default, false);
+            break;
+        case 'rgba':
+            defaultValue = normalizeHexColor(setting.default, true);
+            break;
+        default:
+            defaultValue = String(setting.default);
+            break;
+    }
+
+    const json: Record<string, any> = {
+        name: setting.name,
+        description: setting.description,
+        type: setting.type,
+        default: defaultValue,
+    };
+
+    if (isNumericSetting(setting)) {
+        if (setting.min !== undefined) json.min = setting.min;
+        if (setting.max !== undefined) json.max = setting.max;
+        const control: Record<string, any> = {};
+        if (setting.arrows) {
+            control.arrows = true;
+            if (setting.step !== undefined) control['arrow-step'] = setting.step;
+        }
+        if (setting.slider) {
+            control.slider = true;
+            if (setting.step !== undefined) control['slider-step'] = setting.step;
+        } else if (setting.min !== undefined && setting.max !== undefined) {
+            // Geode shows a slider by default once both bounds are set
+            control.slider = false;
+        }
+        if (Object.keys(control).length > 0) json.control = control;
+    }
+    if (setting.type === 'string' && setting.oneOf && setting.oneOf.length > 0) {
+        json['one-of'] = setting.oneOf;
+    }
+    if (setting.type === 'file') {
+        const control: Record<string, any> = {};
+        if (setting.fileDialog && setting.fileDialog !== 'open') control.dialog = setting.fileDialog;
+        const filters = (setting.fileFilters ?? []).filter(filter => filter.files.length > 0);
+        if (filters.length > 0) control.filters = filters;
+        if (Object.keys(control).length > 0) json.control = control;
+    }
+
+    return json;
+};
+
+const generateModReferenceJson = (reference: ModDependency | ModIncompatibility): any => {
+    const json: any = {
+        "id": reference.modId.trim(),
+        "version": reference.version.trim() || "*",
+        "importance": reference.importance,
+    };
+    if (reference.platforms.length > 0) json.platforms = reference.platforms;
+    return json;
+};
+
+// `resourceFiles` are the project's assets, listed under resources so Geode ships them
+export const generateModJson = (data: ModData, resourceFiles: string[] = []): string => {
     const gd: Record<string, string> = {};
     if (data.platforms.win) gd.win = data.gdVersion || "*";
     if (data.platforms.mac) gd.mac = data.gdVersion || "*";
@@ -10,7 +187,7 @@ export const generateModJson = (data: ModData): string => {
     const modJson: any = {
         "geode": data.geodeVersion || "2.0.0-beta.26",
         "gd": gd,
-        "id": data.id || "com.developer.modname",
+        "id": data.id || "developer.modname",
         "name": data.name || "My Awesome Mod",
         "version": data.version || "v1.0.0",
         "developer": data.developer || "Your Name",
@@ -19,311 +196,100 @@ export const generateModJson = (data: ModData): string => {
     
     if (data.logo) modJson.icon = "logo.png";
     if (data.repository) modJson.repository = data.repository;
-    if (data.providesApi) modJson.api = true;
+    if (data.providesApi) modJson.api = { "include": ["include/*.hpp"] };
     if (data.earlyLoad) modJson['early-load'] = true;
 
     if (data.tags) {
         modJson.tags = data.tags.split(',').map(tag => tag.trim()).filter(tag => tag);
     }
     
-    if (data.dependencies) {
-        const dependencies = data.dependencies
-            .split(',')
-            .map(depString => depString.trim())
-            .filter(depString => depString)
-            .map(depString => {
-                const lastAt = depString.lastIndexOf('@');
-                // Check if '@' is present and not the first character
-                if (lastAt > 0) {
-                    const id = depString.substring(0, lastAt);
-                    const version = depString.substring(lastAt + 1);
-                    return { id, required: true, version: version || "*" };
-                } else {
-                    return { id: depString, required: true, version: "*" };
-                }
-            });
-
-        if (dependencies.length > 0) {
-            modJson.dependencies = dependencies;
-        }
+    const dependencies = data.dependencies.filter(dep => dep.modId.trim()).map(generateModReferenceJson);
+    if (dependencies.length > 0) {
+        modJson.dependencies = dependencies;
+    }
+
+    const incompatibilities = data.incompatibilities.filter(inc => inc.modId.trim()).map(generateModReferenceJson);
+    if (incompatibilities.length > 0) {
+        modJson.incompatibilities = incompatibilities;
+    }
+
+    if (resourceFiles.length > 0) {
+        modJson.resources = { files: resourceFiles };
     }
 
     if (data.settings && data.settings.length > 0) {
         modJson.settings = {};
         data.settings.forEach(setting => {
-            // Geode expects the default value to match the type
-            let defaultValue: any;
-            switch(setting.type) {
-                case 'bool':
-                    defaultValue = !!setting.default;
-                    break;
-                case 'int':
-                    defaultValue = parseInt(String(setting.default), 10) || 0;
-                    break;
-                case 'float':
-                    defaultValue = parseFloat(String(setting.default)) || 0.0;
-                    break;
-                case 'string':
-                    defaultValue = String(setting.default);
-                    break;
-            }
-
-            modJson.settings[setting.key] = {
-                name: setting.name,
-                description: setting.description,
-                type: setting.type,
-                default: defaultValue
-            };
+            modJson.settings[setting.key] = generateSettingJson(setting);
         });
     }
 
-
     return JSON.stringify(modJson, null, 4);
 };
 
-export const generateCMakeLists = (data: ModData): string => {
-    return `cmake_minimum_required(VERSION 3.13)
-
-# Get Geode and its settings
-find_package(Geode REQUIRED)
-
-# Add your project, its sources and link it to Geode
-add_geode_mod(${data.id || "com.developer.modname"}
-	VERSION ${data.version || "v1.0.0"}
-	ID "${data.id || "com.developer.modname"}"
-	SOURCES
-		resources/main.cpp
-	RESOURCES
-		assets
-)
-`;
+// CMake project names can't contain the dots and dashes of a mod ID
+const getCMakeProjectName = (data: ModData): string => {
+    const name = (data.name || data.id || 'MyMod').replace(/[^A-Za-z0-9_]/g, '');
+    return /^[A-Za-z_]/.test(name) ? name : `Mod${name}`;
 };
 
-const generateMenuLayerCpp = (data: ModData): string => {
-    const modName = data.name || "My Awesome Mod";
-    return `#include <Geode/Geode.hpp>
-#include <Geode/modify/MenuLayer.hpp>
-
-using namespace geode::prelude;
-
-// Adds a label to the main menu
-class $modify(MyMenuLayer, MenuLayer) {
-	bool init() {
-		if (!MenuLayer::init()) {
-			return false;
-		}
-
-		try {
-			// Log that the mod is initializing
-			log::info("Initializing ${modName}");
-
-			auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
-
-			auto winSize = CCDirector::sharedDirector()->getWinSize();
-			myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
-			myLabel->setScale(0.7f);
-			this->addChild(myLabel);
-		} catch (const std::exception& e) {
-			geode::log::error("An error occurred during ${modName} initialization: {}", e.what());
-		}
-
-		return true;
-	}
-};
-`;
-};
-
-const generatePlayLayerCpp = (data: ModData): string => {
-    return `#include <Geode/Geode.hpp>
-#include <Geode/modify/PlayLayer.hpp>
-
-using namespace geode::prelude;
-
-// Shows a notification when the player dies
-class $modify(PlayLayer) {
-    void onQuit() {
-        // Call the original function so the game doesn't crash
-        PlayLayer::onQuit();
-
-        try {
-            // Log to the console and show a notification
-            log::info("Player quit level, showing notification.");
-            Notification::create("You died!", CCSprite::create("GJ_deleteBtn_001.png"))->show();
-        } catch (const std::exception& e) {
-            geode::log::error("An error occurred in PlayLayer::onQuit hook: {}", e.what());
+/**
+ * Builds CMakeLists.txt for the Geode SDK. `sourceFiles` are the project's
+ * .cpp files; they're listed one by one when the build options ask for an
+ * explicit list, otherwise src/ is globbed at configure time.
+ */
+export const generateCMakeLists = (data: ModData, sourceFiles: string[] = ['src/main.cpp']): string => {
+    const { build } = data;
+    const version = (data.version || 'v1.0.0').replace(/^v/, '').replace(/-.*$/, '');
+    const target = '${PROJECT_NAME}';
+
+    const sources = build.sourceListing === 'explicit'
+        ? `set(SOURCES\n${sourceFiles.map(path => `\t${path}`).join('\n')}\n)`
+        : 'file(GLOB_RECURSE SOURCES CONFIGURE_DEPENDS src/*.cpp)';
+
+    const extras: string[] = [];
+    const includeDirs = build.includeDirs.map(dir => dir.trim()).filter(dir => dir);
+    if (includeDirs.length > 0) {
+        extras.push(`target_include_directories(${target} PRIVATE\n${includeDirs.map(dir => `\t${dir}`).join('\n')}\n)`);
+    }
+    const definitions = build.compileDefinitions.map(def => def.trim()).filter(def => def);
+    if (definitions.length > 0) {
+        extras.push(`target_compile_definitions(${target} PRIVATE\n${definitions.map(def => `\t${def}`).join('\n')}\n)`);
+    }
+    const packages = build.cpmPackages.filter(pkg => pkg.source.trim());
+    if (packages.length > 0) {
+        // CPM comes with the Geode SDK, so packages can be added after add_subdirectory
+        extras.push(packages.map(pkg => `CPMAddPackage("${pkg.source.trim()}")`).join('\n'));
+        const linkTargets = packages.map(pkg => pkg.target.trim()).filter(name => name);
+        if (linkTargets.length > 0) {
+            extras.push(`target_link_libraries(${target}\n${linkTargets.map(name => `\t${name}`).join('\n')}\n)`);
         }
     }
-};
-`;
-};
 
+    return `cmake_minimum_required(VERSION 3.21)
+set(CMAKE_CXX_STANDARD ${build.cppStandard})
+set(CMAKE_CXX_STANDARD_REQUIRED ON)
+set(CMAKE_OSX_ARCHITECTURES "arm64;x86_64")
+set(CMAKE_CXX_VISIBILITY_PRESET hidden)
 
-const generateSettingsLayerCpp = (data: ModData): string => {
-    const modId = data.id || 'com.developer.modname';
-    const modName = data.name || 'My Mod';
+project(${getCMakeProjectName(data)} VERSION ${version})
 
-    const firstBoolSetting = data.settings.find(s => s.type === 'bool');
+${sources}
 
-    let menuLayerModification = `
-// This adds the "Hello World" label to the main menu, but only if a boolean setting is enabled.
-class $modify(MyMenuLayerWithSettings, MenuLayer) {
-	bool init() {
-		if (!MenuLayer::init()) {
-			return false;
-		}
-		
-		try {
-`;
+add_library(${target} SHARED \${SOURCES})
 
-    if (firstBoolSetting) {
-        menuLayerModification += `			// Check if the setting is enabled
-			if (Mod::get()->getSettingValue<bool>("${firstBoolSetting.key}")) {
-				log::info("Setting '${firstBoolSetting.key}' is enabled, adding label.");
-				auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
-				auto winSize = CCDirector::sharedDirector()->getWinSize();
-				myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
-				myLabel->setScale(0.7f);
-				this->addChild(myLabel);
-			}
-`;
-    } else {
-        menuLayerModification += `			// You can add logic here that depends on your settings.
-			// For example, create a boolean setting in the form to toggle this label.
-			auto myLabel = CCLabelBMFont::create("Hello from ${modName}!", "bigFont.fnt");
-			auto winSize = CCDirector::sharedDirector()->getWinSize();
-			myLabel->setPosition(winSize.width / 2, winSize.height / 2 + 100);
-			myLabel->setScale(0.7f);
-			this->addChild(myLabel);
-`;
-    }
+if (NOT DEFINED ENV{GEODE_SDK})
+	message(FATAL_ERROR "Unable to find Geode SDK! Please define GEODE_SDK environment variable to point to Geode")
+else()
+	message(STATUS "Found Geode: $ENV{GEODE_SDK}")
+endif()
 
-    menuLayerModification += `		} catch (const std::exception& e) {
-			geode::log::error("An error occurred in MyMenuLayerWithSettings::init: {}", e.what());
-		}
-
-		return true;
-	}
-};`;
-
-    let settingsUiGeneration = '';
-    if (data.settings.length > 0) {
-        data.settings.forEach((setting, index) => {
-            const yPos = `contentSize.height - 40.f - (40.f * ${index})`;
-            switch (setting.type) {
-                case 'bool':
-                    settingsUiGeneration += `
-                    auto toggle_${index} = geode::Checkbox::create("${setting.name}", nullptr);
-                    popup->addToggle(toggle_${index}, "${modId}", "${setting.key}");
-                    toggle_${index}->setPosition(contentSize.width / 2, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(toggle_${index});
-                    `;
-                    break;
-                case 'int':
-                    settingsUiGeneration += `
-                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
-                    input_label_${index}->setScale(0.5f);
-                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
-
-                    auto input_${index} = geode::InputNode::create(100.f, "Number");
-                    input_${index}->getInput()->setAllowedChars("0123456789-");
-                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
-                    input_${index}->setPosition(contentSize.width / 2 + 30.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
-                    `;
-                    break;
-                case 'float':
-                     settingsUiGeneration += `
-                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
-                    input_label_${index}->setScale(0.5f);
-                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
-
-                    auto input_${index} = geode::InputNode::create(100.f, "Number");
-                    input_${index}->getInput()->setAllowedChars("0123456789.-");
-                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
-                    input_${index}->setPosition(contentSize.width / 2 + 30.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
-                    `;
-                    break;
-                case 'string':
-                     settingsUiGeneration += `
-                    auto input_label_${index} = CCLabelBMFont::create("${setting.name}", "bigFont.fnt");
-                    input_label_${index}->setScale(0.5f);
-                    input_label_${index}->setPosition(contentSize.width / 2 - 80.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_label_${index});
-
-                    auto input_${index} = geode::InputNode::create(150.f, "Text");
-                    popup->addInput(input_${index}, "${modId}", "${setting.key}");
-                    input_${index}->setPosition(contentSize.width / 2 + 55.f, ${yPos});
-                    popup->getBJSPopup()->m_mainLayer->addChild(input_${index});
-                    `;
-                    break;
-            }
-        });
-    } else {
-        settingsUiGeneration = `
-                    auto label = CCLabelBMFont::create("This mod has no settings.", "bigFont.fnt");
-                    label->setPosition(contentSize.width / 2, contentSize.height / 2);
-                    label->setScale(0.6f);
-                    popup->getBJSPopup()->m_mainLayer->addChild(label);
-        `;
-    }
-
-
-    return `#include <Geode/Geode.hpp>
-#include <Geode/modify/MenuLayer.hpp>
-#include <Geode/ui/GeodeUI.hpp>
-#include <Geode/ui/InputNode.hpp>
-#include <Geode/ui/Checkbox.hpp>
-
-using namespace geode::prelude;
-${menuLayerModification}
-
-// This function is called when the mod is loaded.
-// It is used to create the settings UI.
-$execute {
-    // We use onModsLoaded instead of just running the code to make sure
-    // the mod list is ready and the settings button can be created.
-    geode::ui::onModsLoaded([] {
-        geode::ui::createSettingsPopup(
-            "${modId}",
-            [](auto popup) {
-                // This is the function that creates the UI.
-                // It is called every time the user opens your settings.
-                try {
-                    log::info("Creating settings UI for ${modId}");
-                    // First, we get the content size of the popup.
-                    // This is used to position our elements.
-                    auto contentSize = popup->getBJSPopup()->m_mainLayer->getContentSize();
-                    
-                    // The following UI is generated automatically based on your settings.
-                    ${settingsUiGeneration}
-
-                    return true;
-                } catch (const std::exception& e) {
-                    geode::log::error("Failed to create settings UI for ${modId}: {}", e.what());
-                    return false; // Indicate failure
-                }
-            }
-        );
-    });
-}
+add_subdirectory($ENV{GEODE_SDK} \${CMAKE_CURRENT_BINARY_DIR}/geode)
+${extras.length > 0 ? `\n${extras.join('\n\n')}\n` : ''}
+setup_geode_mod(${target})
 `;
 };
 
-export const generateMainCpp = (data: ModData): string => {
-    switch(data.cppTemplate) {
-        case 'playlayer':
-            return generatePlayLayerCpp(data);
-        case 'settings':
-            return generateSettingsLayerCpp(data);
-        case 'menulayer':
-        default:
-            return generateMenuLayerCpp(data);
-    }
-};
-
 export const generateCIWorkflow = (): string => {
     return `name: Build Mod
 
@@ -371,9 +337,11 @@ ${data.description || 'A brief summary of what your mod does.'}
 ## Project Structure
 
 *   \`mod.json\`: The manifest file for your mod. Contains metadata like the name, developer, version, and dependencies.
-*   \`CMakeLists.txt\`: The build script for your mod.
-*   \`resources/\`: Contains your C++ source code.
+*   \`CMakeLists.txt\`: The build script for your mod. Every \`.cpp\` file under \`src/\` is compiled.
+*   \`src/\`: Contains your C++ source code.
     *   \`main.cpp\`: The main entry point for your mod.
+    *   \`shared.hpp\`: Headers shared by every source file.
+    *   \`hooks/\`: One file per feature, each hooking the game classes it needs.
 *   \`assets/\`: Contains assets for your mod (spritesheets, images, sounds, etc.).
 *   \`LICENSE\`: The license for your mod.
 *   \`CONTRIBUTING.md\`: Guidelines for contributing to your mod.
@@ -470,4 +438,35 @@ Please try to follow the coding style of the existing codebase. This makes it ea
 
 We look forward to your contributions!
 `;
-};
\ No newline at end of file
+};
+/**
+ * Builds every file the form's templates produce for the given mod data.
+ */
+export const generateTemplateFiles = (data: ModData, currentFiles: VirtualFileSystem | null = null, templateFiles: TemplateFileStates = {}): GeneratedFiles => {
+    const featureFiles = composeFeatureFiles(data);
+    // Sources added by hand or by Gigi are compiled alongside the features' sources,
+    // but files of features that were just unchecked are about to be removed
+    const unselectedSources = new Set(MOD_FEATURES.map(feature => feature.sourcePath).filter(path => !(path in featureFiles)));
+    const sourceFiles = Array.from(new Set([
+        // Generated sources the user deleted or moved away stay out of the build
+        ...getCppSourceFiles(featureFiles).filter(path => !templateFiles[path]?.removed),
+        ...getCppSourceFiles(currentFiles ?? {}).filter(path => !unselectedSources.has(path)),
+    ])).sort();
+    const files: GeneratedFiles = {
+        'mod.json': generateModJson(data, getResourceFiles(currentFiles ?? {})),
+        'CMakeLists.txt': generateCMakeLists(data, sourceFiles),
+        ...featureFiles,
+        'README.md': generateReadme(data),
+        '.gitignore': generateGitIgnore(),
+        'LICENSE': generateLicense(data),
+        'CONTRIBUTING.md': generateContributingMd(data),
+        'assets/.gitkeep': '',
+    };
+    if (data.includeCi) {
+        files['.github/workflows/main.yml'] = generateCIWorkflow();
+    }
+    if (data.logo) {
+        files['assets/logo.png'] = data.logo.split(',')[1];
+    }
+    return files;
+};
@@ -0,0 +1,271 @@
+import type { ModData, ModSetting, ModSettingType, GeneratedFiles, CppStandard, ModBuildOptions, ModPlatform, ModDependency, ModIncompatibility, DependencyImportance, IncompatibilityImportance } from '../types';
+import { createDefaultModData, createDefaultBuildOptions, getDefaultSettingValue } from './modGenerator';
+import { detectModFeatures } from './features';
+import { isTextFile, readFileAsBase64 } from './fileUtils';
+
+// Make JSZip available from the global scope (loaded via CDN)
+declare const JSZip: any;
+
+export interface ImportedProject {
+    modData: ModData;
+    files: GeneratedFiles;
+    warnings: string[];
+}
+
+const SUPPORTED_SETTING_TYPES: ModSettingType[] = ['bool', 'int', 'float', 'string', 'file', 'folder', 'path', 'color', 'rgba', 'title'];
+
+// Folders that never belong to the mod source itself
+const IGNORED_PATH_PREFIXES = ['__MACOSX/', '.git/', 'build/'];
+
+const isIgnoredPath = (path: string): boolean => {
+    return IGNORED_PATH_PREFIXES.some(prefix => path.startsWith(prefix) || path.includes(`/${prefix}`))
+        || path.endsWith('.DS_Store');
+};
+
+/**
+ * Strips the folder that contains mod.json from every path, so a zip with a
+ * top-level "my-mod/" folder imports the same way as a flat one.
+ */
+const normalizeProjectRoot = (rawFiles: GeneratedFiles): GeneratedFiles => {
+    const modJsonPaths = Object.keys(rawFiles)
+        .filter(path => path === 'mod.json' || path.endsWith('/mod.json'))
+        .sort((a, b) => a.split('/').length - b.split('/').length);
+
+    if (modJsonPaths.length === 0) {
+        throw new Error("No mod.json was found. Make sure you selected a Geode mod project.");
+    }
+
+    const root = modJsonPaths[0].slice(0, -'mod.json'.length);
+    const files: GeneratedFiles = {};
+    for (const path in rawFiles) {
+        if (!path.startsWith(root)) continue;
+        const relativePath = path.slice(root.length);
+        if (!relativePath || isIgnoredPath(relativePath)) continue;
+        files[relativePath] = rawFiles[path];
+    }
+    return files;
+};
+
+const MOD_PLATFORMS: ModPlatform[] = ['win', 'mac', 'android', 'ios'];
+
+const parsePlatforms = (platforms: unknown): ModPlatform[] => {
+    if (!Array.isArray(platforms)) return [];
+    // Architecture-specific keys such as "mac-arm" or "android64" collapse to their platform
+    const parsed = platforms
+        .map(platform => String(platform).split(/[-\d]/)[0] as ModPlatform)
+        .filter(platform => MOD_PLATFORMS.includes(platform));
+    return Array.from(new Set(parsed));
+};
+
+/**
+ * Reads the "dependencies" or "incompatibilities" field in either shape Geode
+ * accepts: an array of { id, version, ... } objects, or an object keyed by mod
+ * ID whose values are a version string or a { version, ... } object.
+ */
+const parseModReferences = (references: any): { modId: string; version: string; importance?: string; required?: boolean; platforms: ModPlatform[] }[] => {
+    const toEntry = (modId: string, value: any) => {
+        const version = typeof value === 'string' ? value : value?.version;
+        return {
+            modId,
+            version: typeof version === 'string' && version ? version : '*',
+            importance: typeof value?.importance === 'string' ? value.importance : undefined,
+            required: typeof value?.required === 'boolean' ? value.required : undefined,
+            platforms: parsePlatforms(value?.platforms),
+        };
+    };
+
+    if (Array.isArray(references)) {
+        return references
+            .filter(ref => ref && typeof ref.id === 'string')
+            .map(ref => toEntry(ref.id, ref));
+    }
+    if (references && typeof references === 'object') {
+        return Object.entries(references).map(([modId, value]) => toEntry(modId, value));
+    }
+    return [];
+};
+
+const DEPENDENCY_IMPORTANCE: DependencyImportance[] = ['required', 'recommended', 'suggested'];
+const INCOMPATIBILITY_IMPORTANCE: IncompatibilityImportance[] = ['breaking', 'conflicting', 'superseded'];
+
+const parseDependencies = (dependencies: any): ModDependency[] => {
+    return parseModReferences(dependencies).map((ref, index) => ({
+        id: `dependency-imported-${Date.now()}-${index}`,
+        modId: ref.modId,
+        version: ref.version,
+        // Older manifests use "required": false instead of an importance
+        importance: DEPENDENCY_IMPORTANCE.includes(ref.importance as DependencyImportance)
+            ? ref.importance as DependencyImportance
+            : ref.required === false ? 'suggested' : 'required',
+        platforms: ref.platforms,
+    }));
+};
+
+const parseIncompatibilities = (incompatibilities: any): ModIncompatibility[] => {
+    return parseModReferences(incompatibilities).map((ref, index) => ({
+        id: `incompatibility-imported-${Date.now()}-${index}`,
+        modId: ref.modId,
+        version: ref.version,
+        importance: INCOMPATIBILITY_IMPORTANCE.includes(ref.importance as IncompatibilityImportance)
+            ? ref.importance as IncompatibilityImportance
+            : 'breaking',
+        platforms: ref.platforms,
+    }));
+};
+
+const parseSettings = (settings: any, warnings: string[]): ModSetting[] => {
+    if (!settings || typeof settings !== 'object') return [];
+
+    const parsed: ModSetting[] = [];
+    Object.entries(settings).forEach(([key, value]: [string, any], index) => {
+        const rawType = String(value?.type ?? '');
+        const isCustom = rawType.startsWith('custom:');
+        if (!value || (!isCustom && !SUPPORTED_SETTING_TYPES.includes(rawType as ModSettingType))) {
+            warnings.push(`Setting "${key}" has unsupported type "${value?.type}" and was not loaded into the form.`);
+            return;
+        }
+        const type: ModSettingType = isCustom ? 'custom' : rawType as ModSettingType;
+        const setting: ModSetting = {
+            id: `setting-imported-${Date.now()}-${index}`,
+            key,
+            name: value.name ?? key,
+            description: value.description ?? '',
+            type,
+            default: value.default ?? getDefaultSettingValue(type),
+        };
+        if (isCustom) setting.customType = rawType.slice('custom:'.length);
+        if (Array.isArray(value['one-of'])) setting.oneOf = value['one-of'].map(String);
+        if (type === 'int' || type === 'float') {
+            if (typeof value.min === 'number') setting.min = value.min;
+            if (typeof value.max === 'number') setting.max = value.max;
+            const control = value.control ?? {};
+            const step = control['slider-step'] ?? control['arrow-step'];
+            if (typeof step === 'number') setting.step = step;
+            if (control.slider === true) setting.slider = true;
+            if (control.arrows === true) setting.arrows = true;
+        }
+        if (type === 'file' && value.control) {
+            if (value.control.dialog === 'save') setting.fileDialog = 'save';
+            if (Array.isArray(value.control.filters)) setting.fileFilters = value.control.filters;
+        }
+        parsed.push(setting);
+    });
+    return parsed;
+};
+
+// Lines inside a "command(${PROJECT_NAME} PRIVATE ...)" block, one entry per line
+const readCMakeBlock = (cmake: string, command: string): string[] => {
+    const match = new RegExp(`${command}\\(\\$\\{PROJECT_NAME\\}(?:\\s+PRIVATE)?([^)]*)\\)`).exec(cmake);
+    return match ? match[1].split(/\s+/).filter(entry => entry) : [];
+};
+
+/**
+ * Recovers build options from a CMakeLists.txt. Anything the form can't
+ * express stays in the file itself, which is kept as-is on import.
+ */
+const parseBuildOptions = (cmake: string | undefined): ModBuildOptions => {
+    const build = createDefaultBuildOptions();
+    if (!cmake) return build;
+
+    const standard = /set\(CMAKE_CXX_STANDARD\s+(\d+)\)/.exec(cmake)?.[1];
+    if (standard === '17' || standard === '20' || standard === '23') build.cppStandard = standard as CppStandard;
+    if (/set\(SOURCES\s/.test(cmake)) build.sourceListing = 'explicit';
+    build.includeDirs = readCMakeBlock(cmake, 'target_include_directories');
+    build.compileDefinitions = readCMakeBlock(cmake, 'target_compile_definitions');
+
+    const linkTargets = readCMakeBlock(cmake, 'target_link_libraries');
+    const sources = Array.from(cmake.matchAll(/CPMAddPackage\(\s*"([^"]+)"\s*\)/g), match => match[1]);
+    build.cpmPackages = sources.map((source, index) => ({
+        id: `cpm-imported-${Date.now()}-${index}`,
+        source,
+        target: linkTargets[index] ?? '',
+    }));
+    return build;
+};
+
+/**
+ * Rebuilds a ModData from the contents of a mod.json file. This is the inverse
+ * of generateModJson: exporting the result again produces the same manifest.
+ */
+export const parseModJson = (content: string, files: GeneratedFiles = {}, warnings: string[] = []): ModData => {
+    let json: any;
+    try {
+        json = JSON.parse(content);
+    } catch (e) {
+        throw new Error(`mod.json is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    const defaults = createDefaultModData();
+    const gd: Record<string, string> = json.gd && typeof json.gd === 'object' ? json.gd : {};
+    const gdVersions = Array.from(new Set(Object.values(gd)));
+    if (gdVersions.length > 1) {
+        warnings.push(`mod.json targets different GD versions per platform (${gdVersions.join(', ')}); using "${gdVersions[0]}" for all.`);
+    }
+
+    let logo: string | undefined;
+    if (json.icon || files['assets/logo.png'] || files['logo.png']) {
+        const logoData = files['assets/logo.png'] ?? files['logo.png'] ?? (json.icon ? files[json.icon] : undefined);
+        if (logoData) {
+            logo = `data:image/png;base64,${logoData}`;
+        } else if (json.icon) {
+            warnings.push(`mod.json references icon "${json.icon}" but the file was not found.`);
+        }
+    }
+
+    return {
+        id: json.id ?? '',
+        name: json.name ?? '',
+        version: json.version ?? defaults.version,
+        developer: json.developer ?? (Array.isArray(json.developers) ? json.developers.join(', ') : ''),
+        description: json.description ?? '',
+        logo,
+        dependencies: parseDependencies(json.dependencies),
+        incompatibilities: parseIncompatibilities(json.incompatibilities),
+        repository: json.repository ?? '',
+        features: detectModFeatures(files),
+        includeCi: files['.github/workflows/main.yml'] !== undefined,
+        platforms: {
+            win: 'win' in gd,
+            mac: 'mac' in gd,
+            android: 'android' in gd,
+            ios: 'ios' in gd,
+        },
+        gdVersion: gdVersions[0] ?? defaults.gdVersion,
+        geodeVersion: json.geode ?? defaults.geodeVersion,
+        tags: Array.isArray(json.tags) ? json.tags.join(', ') : '',
+        providesApi: !!json.api,
+        earlyLoad: !!json['early-load'],
+        settings: parseSettings(json.settings, warnings),
+        build: parseBuildOptions(files['CMakeLists.txt']),
+    };
+};
+
+const buildProject = (rawFiles: GeneratedFiles): ImportedProject => {
+    const files = normalizeProjectRoot(rawFiles);
+    const warnings: string[] = [];
+    const modData = parseModJson(files['mod.json'] ?? '', files, warnings);
+    return { modData, files, warnings };
+};
+
+export const importProjectFromZip = async (file: File | Blob): Promise<ImportedProject> => {
+    const zip = await JSZip.loadAsync(file);
+    const rawFiles: GeneratedFiles = {};
+    const entries = Object.values(zip.files) as any[];
+    for (const entry of entries) {
+        if (entry.dir) continue;
+        rawFiles[entry.name] = await entry.async(isTextFile(entry.name) ? 'string' : 'base64');
+    }
+    return buildProject(rawFiles);
+};
+
+/**
+ * Imports a folder, given as files paired with their path relative to the
+ * dropped or selected folder.
+ */
+export const importProjectFromFiles = async (entries: { path: string; file: File }[]): Promise<ImportedProject> => {
+    const rawFiles: GeneratedFiles = {};
+    for (const { path, file } of entries) {
+        rawFiles[path] = isTextFile(path) ? await file.text() : await readFileAsBase64(file);
+    }
+    return buildProject(rawFiles);
+};
@@ -0,0 +1,154 @@
+import { MOD_INDEX_SNAPSHOT } from './modIndexSnapshot';
+
+export interface ModIndexEntry {
+    id: string;
+    name: string;
+    developer: string;
+    description: string;
+    versions: string[]; // newest first, without a "v" prefix
+}
+
+/**
+ * Where dependency autocomplete looks mods up. The bundled snapshot works
+ * offline; a self-hosted mirror can serve a fresher list in the same shape.
+ */
+export interface ModIndexProvider {
+    readonly source: string; // shown to the user, e.g. "offline snapshot"
+    search: (query: string, limit?: number) => Promise<ModIndexEntry[]>;
+    getMod: (id: string) => Promise<ModIndexEntry | null>;
+}
+
+const searchEntries = (entries: ModIndexEntry[], query: string, limit: number): ModIndexEntry[] => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return entries.slice(0, limit);
+
+    // Mods whose ID starts with the query come first, then any other match
+    const score = (entry: ModIndexEntry) => {
+        if (entry.id.startsWith(needle)) return 0;
+        if (entry.id.includes(needle)) return 1;
+        if (entry.name.toLowerCase().includes(needle)) return 2;
+        if (entry.developer.toLowerCase().includes(needle)) return 3;
+        return -1;
+    };
+    return entries
+        .map(entry => ({ entry, score: score(entry) }))
+        .filter(({ score }) => score >= 0)
+        .sort((a, b) => a.score - b.score || a.entry.id.localeCompare(b.entry.id))
+        .slice(0, limit)
+        .map(({ entry }) => entry);
+};
+
+export const createSnapshotModIndex = (entries: ModIndexEntry[] = MOD_INDEX_SNAPSHOT): ModIndexProvider => ({
+    source: 'offline snapshot',
+    search: async (query, limit = 8) => searchEntries(entries, query, limit),
+    getMod: async (id) => entries.find(entry => entry.id === id) ?? null,
+});
+
+// A mirror entry with every field the index relies on, or null if it has no ID or versions
+const normalizeEntry = (entry: any): ModIndexEntry | null => {
+    if (typeof entry?.id !== 'string' || !entry.id || !Array.isArray(entry.versions)) return null;
+    const text = (value: unknown) => (typeof value === 'string' ? value : '');
+    return {
+        id: entry.id,
+        name: text(entry.name),
+        developer: text(entry.developer),
+        description: text(entry.description),
+        versions: entry.versions.filter((version: unknown): version is string => typeof version === 'string'),
+    };
+};
+
+/**
+ * Reads the index from a mirror URL serving a JSON array of ModIndexEntry.
+ * The list is fetched once; if the mirror can't be reached, lookups fall back
+ * to the bundled snapshot.
+ */
+export const createRemoteModIndex = (url: string): ModIndexProvider => {
+    let entriesPromise: Promise<ModIndexEntry[]> | null = null;
+
+    const loadEntries = (): Promise<ModIndexEntry[]> => {
+        if (!entriesPromise) {
+            entriesPromise = fetch(url)
+                .then(response => {
+                    if (!response.ok) throw new Error(`Mod index mirror responded with ${response.status}`);
+                    return response.json();
+                })
+                .then((data: unknown) => {
+                    if (!Array.isArray(data)) throw new Error('Mod index mirror did not return a list of mods');
+                    return data.map(normalizeEntry).filter((entry): entry is ModIndexEntry => entry !== null);
+                })
+                .catch(error => {
+                    console.warn(`Could not load the mod index from ${url}, using the offline snapshot.`, error);
+                    return MOD_INDEX_SNAPSHOT;
+                });
+        }
+        return entriesPromise;
+    };
+
+    return {
+        source: url,
+        search: async (query, limit = 8) => searchEntries(await loadEntries(), query, limit),
+        getMod: async (id) => (await loadEntries()).find(entry => entry.id === id) ?? null,
+    };
+};
+
+let provider: ModIndexProvider | null = null;
+
+/**
+ * The app-wide mod index. Set MOD_INDEX_URL in .env.local to use a mirror.
+ */
+export const getModIndexProvider = (): ModIndexProvider => {
+    if (!provider) {
+        provider = process.env.MOD_INDEX_URL ? createRemoteModIndex(process.env.MOD_INDEX_URL) : createSnapshotModIndex();
+    }
+    return provider;
+};
+
+// --- Version ranges ---
+
+type ParsedVersion = [number, number, number, string];
+
+const parseVersion = (version: string): ParsedVersion | null => {
+    const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/.exec(version.trim());
+    if (!match) return null;
+    return [Number(match[1]), Number(match[2]), Number(match[3]), match[4] ?? ''];
+};
+
+const compareVersions = (a: ParsedVersion, b: ParsedVersion): number => {
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) return (a[i] as number) - (b[i] as number);
+    }
+    // A prerelease sorts before its release
+    if (a[3] === b[3]) return 0;
+    if (!a[3]) return 1;
+    if (!b[3]) return -1;
+    return a[3] < b[3] ? -1 : 1;
+};
+
+/**
+ * Returns the versions that satisfy a dependency range. Like Geode, every
+ * comparator only matches versions with the same major version; "^" means
+ * ">=" and "~" additionally pins the minor version.
+ */
+export const matchVersionRange = (range: string, versions: string[]): string[] => {
+    const trimmed = range.trim();
+    if (trimmed === '*' || trimmed === '') return versions;
+
+    const match = /^(>=|<=|>|<|=|\^|~)?(.+)$/.exec(trimmed);
+    const target = match ? parseVersion(match[2]) : null;
+    if (!match || !target) return [];
+    const comparator = match[1] ?? '>=';
+
+    return versions.filter(version => {
+        const parsed = parseVersion(version);
+        if (!parsed || parsed[0] !== target[0]) return false;
+        const cmp = compareVersions(parsed, target);
+        switch (comparator) {
+            case '>=': case '^': return cmp >= 0;
+            case '~': return cmp >= 0 && parsed[1] === target[1];
+            case '<=': return cmp <= 0;
+            case '>': return cmp > 0;
+            case '<': return cmp < 0;
+            default: return cmp === 0;
+        }
+    });
+};
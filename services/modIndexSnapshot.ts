@@ -0,0 +1,76 @@
+import type { ModIndexEntry } from './modIndex';
+
+// A small offline copy of popular mods from the Geode index, used when no
+// mirror URL is configured or the mirror can't be reached. Versions are newest first.
+export const MOD_INDEX_SNAPSHOT: ModIndexEntry[] = [
+    {
+        id: 'geode.node-ids',
+        name: 'Node IDs',
+        developer: 'Geode Team',
+        description: 'Adds node IDs to layers so mods can find and modify UI elements reliably.',
+        versions: ['1.13.1', '1.13.0', '1.12.0', '1.11.0', '1.10.0', '1.9.1', '1.9.0', '1.8.1', '1.8.0', '1.7.0', '1.6.0', '1.5.0', '1.4.0', '1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'geode.custom-keybinds',
+        name: 'Custom Keybinds',
+        developer: 'Geode Team',
+        description: 'Lets mods register keybinds that players can rebind in-game.',
+        versions: ['1.6.2', '1.6.1', '1.6.0', '1.5.0', '1.4.0', '1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'geode.devtools',
+        name: 'DevTools',
+        developer: 'Geode Team',
+        description: 'An in-game node tree inspector and debugging tools for mod developers.',
+        versions: ['1.7.0', '1.6.0', '1.5.0', '1.4.0', '1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'geode.texture-loader',
+        name: 'Texture Loader',
+        developer: 'Geode Team',
+        description: 'Loads texture packs from the Geode packs folder.',
+        versions: ['1.4.0', '1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'hjfod.betteredit',
+        name: 'BetterEdit',
+        developer: 'HJfod',
+        description: 'Improvements and new tools for the level editor.',
+        versions: ['6.6.0', '6.5.0', '6.4.0', '6.3.0', '6.2.0', '6.1.0', '6.0.0'],
+    },
+    {
+        id: 'hjfod.gmd-api',
+        name: 'GMD API',
+        developer: 'HJfod',
+        description: 'Import and export levels as .gmd files.',
+        versions: ['1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'cvolton.betterinfo',
+        name: 'BetterInfo',
+        developer: 'Cvolton',
+        description: 'Shows more information about levels, users and comments.',
+        versions: ['4.2.0', '4.1.0', '4.0.0'],
+    },
+    {
+        id: 'alphalaneous.pages_api',
+        name: 'Pages API',
+        developer: 'Alphalaneous',
+        description: 'Lets mods turn menus into pages to fit more buttons.',
+        versions: ['1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+    {
+        id: 'alphalaneous.editortab_api',
+        name: 'Editor Tab API',
+        developer: 'Alphalaneous',
+        description: 'Lets mods add their own tabs to the editor build menu.',
+        versions: ['1.1.0', '1.0.0'],
+    },
+    {
+        id: 'hiimjustin000.more_icons',
+        name: 'More Icons',
+        developer: 'hiimjustin000',
+        description: 'Loads additional icons from texture packs and other mods.',
+        versions: ['1.10.0', '1.9.0', '1.8.0', '1.7.0', '1.6.0', '1.5.0', '1.4.0', '1.3.0', '1.2.0', '1.1.0', '1.0.0'],
+    },
+];
@@ -0,0 +1,385 @@
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    message: string;
+    line: number; // 1-based
+}
+
+// --- Location-aware JSON parsing ---
+// JSON.parse can't tell us where a value came from or whether a key was
+// duplicated, so mod.json is parsed by this small recursive-descent parser that
+// records the line of every key path.
+
+interface ParsedJson {
+    value: any;
+    lines: Map<string, number>; // path (e.g. "settings/my-key/default") -> line
+    duplicates: { path: string; line: number }[];
+}
+
+class JsonSyntaxError extends Error {
+    line: number;
+
+    constructor(message: string, line: number) {
+        super(message);
+        this.line = line;
+    }
+}
+
+const parseJsonWithLocations = (text: string): ParsedJson => {
+    const lines = new Map<string, number>();
+    const duplicates: { path: string; line: number }[] = [];
+    let pos = 0;
+    let line = 1;
+
+    const fail = (message: string): never => {
+        throw new JsonSyntaxError(message, line);
+    };
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) {
+            if (text[pos] === '\n') line++;
+            pos++;
+        }
+    };
+
+    const parseString = (): string => {
+        const start = pos;
+        pos++; // opening quote
+        while (pos < text.length && text[pos] !== '"') {
+            if (text[pos] === '\n') fail('Unterminated string.');
+            pos += text[pos] === '\\' ? 2 : 1;
+        }
+        if (pos >= text.length) fail('Unterminated string.');
+        pos++; // closing quote
+        try {
+            return JSON.parse(text.slice(start, pos));
+        } catch {
+            return fail('Invalid escape sequence in string.');
+        }
+    };
+
+    const parseValue = (path: string): any => {
+        skipWhitespace();
+        const char = text[pos];
+        if (char === '{') return parseObject(path);
+        if (char === '[') return parseArray(path);
+        if (char === '"') return parseString();
+        const literal = /^(-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos));
+        if (!literal) return fail(char === undefined ? 'Unexpected end of file.' : `Unexpected character '${char}'.`);
+        pos += literal[0].length;
+        return JSON.parse(literal[0]);
+    };
+
+    const parseObject = (path: string): Record<string, any> => {
+        const result: Record<string, any> = {};
+        pos++; // {
+        skipWhitespace();
+        if (text[pos] === '}') {
+            pos++;
+            return result;
+        }
+        while (true) {
+            skipWhitespace();
+            if (text[pos] !== '"') fail('Expected a property name in double quotes.');
+            const keyLine = line;
+            const key = parseString();
+            const keyPath = path ? `${path}/${key}` : key;
+            if (Object.prototype.hasOwnProperty.call(result, key)) {
+                duplicates.push({ path: keyPath, line: keyLine });
+            } else {
+                lines.set(keyPath, keyLine);
+            }
+            skipWhitespace();
+            if (text[pos] !== ':') fail(`Expected ':' after "${key}".`);
+            pos++;
+            result[key] = parseValue(keyPath);
+            skipWhitespace();
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            if (text[pos] === '}') {
+                pos++;
+                return result;
+            }
+            fail("Expected ',' or '}' after a property value.");
+        }
+    };
+
+    const parseArray = (path: string): any[] => {
+        const result: any[] = [];
+        pos++; // [
+        skipWhitespace();
+        if (text[pos] === ']') {
+            pos++;
+            return result;
+        }
+        while (true) {
+            skipWhitespace();
+            lines.set(`${path}/${result.length}`, line);
+            result.push(parseValue(`${path}/${result.length}`));
+            skipWhitespace();
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            if (text[pos] === ']') {
+                pos++;
+                return result;
+            }
+            fail("Expected ',' or ']' after an array item.");
+        }
+    };
+
+    const value = parseValue('');
+    skipWhitespace();
+    if (pos < text.length) fail('Unexpected content after the end of the JSON document.');
+    return { value, lines, duplicates };
+};
+
+// --- Geode manifest rules ---
+
+const MOD_ID_PATTERN = /^[a-z0-9_-]+\.[a-z0-9_-]+$/;
+const SEMVER_PATTERN = /^v?\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/;
+const VERSION_RANGE_PATTERN = /^(\*|(>=|<=|>|<|=|\^|~)?v?\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?)$/;
+const SETTING_KEY_PATTERN = /^[a-z0-9_-]+$/;
+const GD_PLATFORMS = ['win', 'mac', 'mac-intel', 'mac-arm', 'android', 'android32', 'android64', 'ios'];
+const REFERENCE_IMPORTANCE = {
+    dependencies: ['required', 'recommended', 'suggested'],
+    incompatibilities: ['breaking', 'conflicting', 'superseded'],
+};
+const VALUE_SETTING_TYPES = ['bool', 'int', 'float', 'string', 'file', 'folder', 'path', 'color', 'rgba'];
+const PLACEHOLDER_VALUES: Record<string, string> = {
+    id: 'developer.modname',
+    name: 'My Awesome Mod',
+    developer: 'Your Name',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a single dependency or incompatibility version range, for the form.
+ */
+export const getVersionRangeError = (version: string): string | null => {
+    if (VERSION_RANGE_PATTERN.test(version.trim())) return null;
+    return 'Version must be "*" or a version with an optional comparator, e.g. ">=1.2.0".';
+};
+
+const isHexColor = (value: unknown, withAlpha: boolean) => typeof value === 'string' && new RegExp(`^#?[0-9a-fA-F]{${withAlpha ? 8 : 6}}$`).test(value);
+
+/**
+ * Checks a mod.json file against the Geode manifest rules. Every diagnostic
+ * carries the line it refers to so it can be shown next to the source.
+ */
+export const validateModJson = (content: string): Diagnostic[] => {
+    let parsed: ParsedJson;
+    try {
+        parsed = parseJsonWithLocations(content);
+    } catch (e) {
+        if (e instanceof JsonSyntaxError) {
+            return [{ severity: 'error', message: `Invalid JSON: ${e.message}`, line: e.line }];
+        }
+        // Validation runs while rendering, so anything else the parser trips on
+        // (e.g. nesting too deep for the stack) is reported rather than thrown
+        return [{ severity: 'error', message: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`, line: 1 }];
+    }
+
+    const { value: json, lines } = parsed;
+    const diagnostics: Diagnostic[] = [];
+    const lineOf = (path: string) => {
+        // Fall back to the closest parent that has a known line
+        let current = path;
+        while (current) {
+            const found = lines.get(current);
+            if (found !== undefined) return found;
+            current = current.includes('/') ? current.slice(0, current.lastIndexOf('/')) : '';
+        }
+        return 1;
+    };
+    const error = (path: string, message: string) => diagnostics.push({ severity: 'error', message, line: lineOf(path) });
+    const warning = (path: string, message: string) => diagnostics.push({ severity: 'warning', message, line: lineOf(path) });
+
+    parsed.duplicates.forEach(({ path, line }) => {
+        diagnostics.push({ severity: 'error', message: `Duplicate key "${path}". Only the last value would be used.`, line });
+    });
+
+    if (!isPlainObject(json)) {
+        error('', 'mod.json must contain a JSON object.');
+        return diagnostics;
+    }
+
+    // Required fields
+    if (typeof json.geode !== 'string') {
+        error('geode', 'Missing "geode": the Geode SDK version the mod targets.');
+    } else if (!SEMVER_PATTERN.test(json.geode)) {
+        error('geode', `"geode" must be a version like "2.0.0", got "${json.geode}".`);
+    }
+
+    if (typeof json.id !== 'string' || !json.id) {
+        error('id', 'Missing "id".');
+    } else if (!MOD_ID_PATTERN.test(json.id)) {
+        error('id', `Mod ID "${json.id}" must be in the form "developer.mod-name": lowercase letters, numbers, hyphens and underscores, with exactly one dot.`);
+    }
+
+    if (typeof json.version !== 'string' || !json.version) {
+        error('version', 'Missing "version".');
+    } else if (!SEMVER_PATTERN.test(json.version)) {
+        error('version', `"version" must follow semantic versioning (e.g. "v1.0.0"), got "${json.version}".`);
+    }
+
+    if (typeof json.name !== 'string' || !json.name.trim()) {
+        error('name', 'Missing "name".');
+    }
+    if (json.developer === undefined && json.developers === undefined) {
+        error('', 'Missing "developer" (or "developers").');
+    } else if (json.developers !== undefined && (!Array.isArray(json.developers) || json.developers.some((dev: unknown) => typeof dev !== 'string'))) {
+        error('developers', '"developers" must be an array of names.');
+    }
+    if (typeof json.description !== 'string' || !json.description.trim()) {
+        warning('description', 'The mod has no description.');
+    }
+
+    Object.entries(PLACEHOLDER_VALUES).forEach(([key, placeholder]) => {
+        if (json[key] === placeholder) {
+            warning(key, `"${key}" is still the placeholder value "${placeholder}".`);
+        }
+    });
+
+    // Platforms
+    if (!isPlainObject(json.gd)) {
+        error('gd', 'Missing "gd": an object mapping platforms to the Geometry Dash version they support.');
+    } else {
+        if (Object.keys(json.gd).length === 0) {
+            error('gd', '"gd" must list at least one platform.');
+        }
+        Object.entries(json.gd).forEach(([platform, version]) => {
+            if (!GD_PLATFORMS.includes(platform)) {
+                error(`gd/${platform}`, `Unknown platform "${platform}". Expected one of: ${GD_PLATFORMS.join(', ')}.`);
+            }
+            if (typeof version !== 'string' || !version) {
+                error(`gd/${platform}`, `The GD version for "${platform}" must be a string such as "2.206" or "*".`);
+            }
+        });
+    }
+
+    // Dependencies and incompatibilities
+    const validateModReferences = (field: 'dependencies' | 'incompatibilities') => {
+        const references = json[field];
+        if (references === undefined) return;
+
+        const importanceValues = REFERENCE_IMPORTANCE[field];
+        const validateReference = (path: string, id: unknown, version: unknown, importance: unknown, platforms?: unknown) => {
+            if (typeof id !== 'string' || !MOD_ID_PATTERN.test(id)) {
+                error(path, `"${String(id)}" in ${field} is not a valid mod ID.`);
+            }
+            if (version !== undefined && (typeof version !== 'string' || !VERSION_RANGE_PATTERN.test(version.trim()))) {
+                error(path, `Version "${String(version)}" for "${String(id)}" must be "*" or a version with an optional comparator, e.g. ">=1.2.0".`);
+            }
+            if (importance !== undefined && !importanceValues.includes(String(importance))) {
+                error(path, `Importance "${String(importance)}" for "${String(id)}" must be one of: ${importanceValues.join(', ')}.`);
+            }
+            if (platforms !== undefined && (!Array.isArray(platforms) || platforms.some(platform => !GD_PLATFORMS.includes(String(platform))))) {
+                error(path, `"platforms" for "${String(id)}" must be a list of: ${GD_PLATFORMS.join(', ')}.`);
+            }
+        };
+
+        if (Array.isArray(references)) {
+            references.forEach((ref, i) => {
+                const path = `${field}/${i}`;
+                if (!isPlainObject(ref)) {
+                    error(path, `Each entry in "${field}" must be an object with an "id" and "version".`);
+                    return;
+                }
+                validateReference(path, ref.id, ref.version, ref.importance, ref.platforms);
+            });
+        } else if (isPlainObject(references)) {
+            Object.entries(references).forEach(([id, ref]) => {
+                const path = `${field}/${id}`;
+                if (typeof ref === 'string') {
+                    validateReference(path, id, ref, undefined);
+                } else if (isPlainObject(ref)) {
+                    validateReference(path, id, ref.version, ref.importance, ref.platforms);
+                } else {
+                    error(path, `"${id}" in "${field}" must be a version string or an object with a "version".`);
+                }
+            });
+        } else {
+            error(field, `"${field}" must be an object or an array.`);
+        }
+    };
+    validateModReferences('dependencies');
+    validateModReferences('incompatibilities');
+
+    // Settings
+    if (json.settings !== undefined) {
+        if (!isPlainObject(json.settings)) {
+            error('settings', '"settings" must be an object keyed by setting ID.');
+        } else {
+            Object.entries(json.settings).forEach(([key, setting]) => {
+                const path = `settings/${key}`;
+                if (!SETTING_KEY_PATTERN.test(key)) {
+                    error(path, `Setting key "${key}" may only contain lowercase letters, numbers, hyphens and underscores.`);
+                }
+                if (!isPlainObject(setting)) {
+                    error(path, `Setting "${key}" must be an object.`);
+                    return;
+                }
+                const type = setting.type;
+                if (typeof type !== 'string') {
+                    error(path, `Setting "${key}" is missing a "type".`);
+                    return;
+                }
+                if (type === 'title' || type.startsWith('custom:')) return;
+                if (!VALUE_SETTING_TYPES.includes(type)) {
+                    error(`${path}/type`, `Setting "${key}" has unknown type "${type}".`);
+                    return;
+                }
+                if (setting.default === undefined) {
+                    error(path, `Setting "${key}" is missing a "default" value.`);
+                    return;
+                }
+
+                const value = setting.default;
+                const defaultPath = `${path}/default`;
+                switch (type) {
+                    case 'bool':
+                        if (typeof value !== 'boolean') error(defaultPath, `The default of "${key}" must be true or false.`);
+                        break;
+                    case 'int':
+                    case 'float':
+                        if (typeof value !== 'number' || (type === 'int' && !Number.isInteger(value))) {
+                            error(defaultPath, `The default of "${key}" must be ${type === 'int' ? 'a whole number' : 'a number'}.`);
+                        }
+                        if (setting.min !== undefined && setting.max !== undefined && setting.min > setting.max) {
+                            error(`${path}/min`, `Setting "${key}" has a minimum greater than its maximum.`);
+                        }
+                        if (typeof value === 'number' && typeof setting.min === 'number' && value < setting.min) {
+                            error(defaultPath, `The default of "${key}" is below its minimum of ${setting.min}.`);
+                        }
+                        if (typeof value === 'number' && typeof setting.max === 'number' && value > setting.max) {
+                            error(defaultPath, `The default of "${key}" is above its maximum of ${setting.max}.`);
+                        }
+                        break;
+                    case 'color':
+                    case 'rgba':
+                        if (!isHexColor(value, type === 'rgba') && !(Array.isArray(value) && value.length === (type === 'rgba' ? 4 : 3))) {
+                            error(defaultPath, `The default of "${key}" must be a ${type === 'rgba' ? '#rrggbbaa' : '#rrggbb'} color.`);
+                        }
+                        break;
+                    default:
+                        if (typeof value !== 'string') error(defaultPath, `The default of "${key}" must be a string.`);
+                        break;
+                }
+                if (Array.isArray(setting['one-of']) && !setting['one-of'].includes(value)) {
+                    error(defaultPath, `The default of "${key}" is not one of its allowed choices.`);
+                }
+                if (typeof setting.name !== 'string' || !setting.name) {
+                    warning(path, `Setting "${key}" has no display name.`);
+                }
+            });
+        }
+    }
+
+    return diagnostics.sort((a, b) => a.line - b.line);
+};
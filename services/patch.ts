@@ -0,0 +1,174 @@
+import { splitLines, diffLines } from './diff';
+
+export interface PatchLine {
+    type: 'context' | 'added' | 'removed';
+    text: string;
+}
+
+export interface PatchHunk {
+    oldStart: number; // 1-based, as written in the "@@" header
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: PatchLine[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const LINE_TYPES: Record<string, PatchLine['type']> = { ' ': 'context', '+': 'added', '-': 'removed' };
+
+/**
+ * Reads the hunks of a unified diff for a single file. File headers ("---",
+ * "+++", "diff --git") are skipped, and a missing line count defaults to 1
+ * the way `diff -u` writes it.
+ */
+export const parseUnifiedDiff = (patch: string): PatchHunk[] => {
+    const hunks: PatchHunk[] = [];
+    let current: PatchHunk | null = null;
+    for (const line of splitLines(patch.replace(/\r\n/g, '\n'))) {
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            current = {
+                oldStart: Number(header[1]),
+                oldLines: header[2] === undefined ? 1 : Number(header[2]),
+                newStart: Number(header[3]),
+                newLines: header[4] === undefined ? 1 : Number(header[4]),
+                lines: [],
+            };
+            hunks.push(current);
+            continue;
+        }
+        if (!current || line.startsWith('\\')) continue; // file headers and "\ No newline at end of file"
+        const type = LINE_TYPES[line[0] ?? ' '];
+        // Models often drop the space in front of blank context lines
+        if (type) current.lines.push({ type, text: line.slice(1) });
+        else if (line === '') current.lines.push({ type: 'context', text: '' });
+    }
+    // A trailing newline in the patch adds one blank line too many
+    for (const hunk of hunks) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        const expected = hunk.lines.filter(l => l.type !== 'added').length;
+        if (last && last.type === 'context' && last.text === '' && expected > hunk.oldLines) hunk.lines.pop();
+    }
+    if (hunks.length === 0) throw new Error('The patch has no hunks.');
+    return hunks;
+};
+
+export const getHunkOldLines = (hunk: PatchHunk): string[] => hunk.lines.filter(line => line.type !== 'added').map(line => line.text);
+export const getHunkNewLines = (hunk: PatchHunk): string[] => hunk.lines.filter(line => line.type !== 'removed').map(line => line.text);
+
+const matchesAt = (lines: string[], expected: string[], index: number): boolean => {
+    if (index < 0 || index + expected.length > lines.length) return false;
+    return expected.every((line, i) => lines[index + i] === line);
+};
+
+// Where a hunk's old side starts in `lines`: at `target` if it still matches
+// there, else at the nearest match at or after `from`
+const findHunk = (lines: string[], expected: string[], target: number, from: number): number | null => {
+    for (let distance = 0; distance <= lines.length; distance++) {
+        for (const index of distance === 0 ? [target] : [target - distance, target + distance]) {
+            if (index >= from && matchesAt(lines, expected, index)) return index;
+        }
+    }
+    return null;
+};
+
+/**
+ * Finds each hunk in the file: the 0-based line its old side starts at, or
+ * null when its lines aren't there any more (a conflict). Hunks may have
+ * moved if lines were added or removed above them.
+ */
+export const locateHunks = (content: string, hunks: PatchHunk[]): (number | null)[] => {
+    const lines = splitLines(content);
+    let offset = 0;
+    let position = 0;
+    return hunks.map(hunk => {
+        const expected = getHunkOldLines(hunk);
+        // An empty old side ("-0,0") inserts after the given line
+        const target = (expected.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+        const index = findHunk(lines, expected, target, position);
+        if (index === null) return null;
+        offset += index - target;
+        position = index + expected.length;
+        return index;
+    });
+};
+
+export interface PatchResult {
+    content: string;
+    applied: number[]; // indexes of the hunks that were applied
+    conflicts: number[]; // selected hunks that no longer match the file
+}
+
+/**
+ * Applies the selected hunks (all by default) wherever they are found in the
+ * file. Hunks that can't be found are skipped and reported as conflicts.
+ */
+export const applyHunks = (content: string, hunks: PatchHunk[], selected: number[] = hunks.map((_, i) => i)): PatchResult => {
+    const lines = splitLines(content);
+    const placements = locateHunks(content, hunks);
+    const result: string[] = [];
+    const applied: number[] = [];
+    const conflicts: number[] = [];
+    let position = 0;
+    hunks.forEach((hunk, i) => {
+        if (!selected.includes(i)) return;
+        const index = placements[i];
+        if (index === null) {
+            conflicts.push(i);
+            return;
+        }
+        result.push(...lines.slice(position, index), ...getHunkNewLines(hunk));
+        position = index + getHunkOldLines(hunk).length;
+        applied.push(i);
+    });
+    result.push(...lines.slice(position));
+    return { content: result.join('\n'), applied, conflicts };
+};
+
+/**
+ * The hunks that turn `oldText` into `newText`, with `context` unchanged
+ * lines around each change. Changes closer together than twice the context
+ * share a hunk, as in `diff -u`.
+ */
+export const createPatch = (oldText: string, newText: string, context = 3): PatchHunk[] => {
+    const lines = diffLines(oldText, newText);
+    const hunks: PatchHunk[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === 'equal') {
+            i++;
+            continue;
+        }
+        const start = Math.max(0, i - context);
+        let end = i;
+        while (end < lines.length) {
+            if (lines[end].type !== 'equal') {
+                end++;
+                continue;
+            }
+            let run = end;
+            while (run < lines.length && lines[run].type === 'equal') run++;
+            if (run < lines.length && run - end <= context * 2) {
+                end = run;
+                continue;
+            }
+            end = Math.min(run, end + context);
+            break;
+        }
+        const before = lines.slice(0, start);
+        const hunkLines = lines.slice(start, end);
+        const oldBefore = before.filter(line => line.type !== 'added').length;
+        const newBefore = before.filter(line => line.type !== 'removed').length;
+        const oldLines = hunkLines.filter(line => line.type !== 'added').length;
+        const newLines = hunkLines.filter(line => line.type !== 'removed').length;
+        hunks.push({
+            oldStart: oldLines === 0 ? oldBefore : oldBefore + 1,
+            oldLines,
+            newStart: newLines === 0 ? newBefore : newBefore + 1,
+            newLines,
+            lines: hunkLines.map(line => ({ type: line.type === 'equal' ? 'context' : line.type, text: line.text })),
+        });
+        i = end;
+    }
+    return hunks;
+};
@@ -0,0 +1,47 @@
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+const parseElement = (element: Element): PlistValue => {
+    switch (element.tagName) {
+        case 'dict': {
+            const dict: { [key: string]: PlistValue } = {};
+            const children = Array.from(element.children);
+            for (let i = 0; i + 1 < children.length; i += 2) {
+                if (children[i].tagName !== 'key') throw new Error(`Expected <key> in <dict>, found <${children[i].tagName}>.`);
+                dict[children[i].textContent ?? ''] = parseElement(children[i + 1]);
+            }
+            return dict;
+        }
+        case 'array':
+            return Array.from(element.children).map(parseElement);
+        case 'integer':
+        case 'real':
+            return Number(element.textContent);
+        case 'true':
+            return true;
+        case 'false':
+            return false;
+        case 'string':
+        case 'date':
+        case 'data':
+            return element.textContent ?? '';
+        default:
+            throw new Error(`Unsupported plist element <${element.tagName}>.`);
+    }
+};
+
+/**
+ * Parses an XML property list. Throws with a readable message when the
+ * content isn't one.
+ */
+export const parsePlist = (content: string): PlistValue => {
+    const document = new DOMParser().parseFromString(content, 'application/xml');
+    if (document.querySelector('parsererror')) throw new Error('The file is not valid XML.');
+    const root = document.documentElement;
+    if (root.tagName !== 'plist' || !root.firstElementChild) throw new Error('The file is not a property list.');
+    return parseElement(root.firstElementChild);
+};
+
+// Cocos2d writes points and rects as strings: "{1,2}" and "{{1,2},{3,4}}"
+export const parsePlistNumbers = (value: PlistValue | undefined): number[] => {
+    return typeof value === 'string' ? (value.match(/-?\d+(\.\d+)?(e-?\d+)?/gi) ?? []).map(Number) : [];
+};
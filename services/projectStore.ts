@@ -0,0 +1,192 @@
+import type { Project, ProjectSummary, ModDependency, ModFeature, GeneratedFiles, VirtualFileSystem, TemplateFileStates } from '../types';
+import { createDefaultBuildOptions } from './modGenerator';
+import { createVirtualFile } from './vfs';
+import { createThread } from './chatThreads';
+
+const DB_NAME = 'geode-mod-creator';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+// What the dashboard lists, kept apart so listing doesn't read every project's files and chats
+const SUMMARIES_STORE = 'summaries';
+const LAST_PROJECT_KEY = 'geode-mod-creator:last-project';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+                    const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+                    // Projects saved before summaries were kept get theirs now
+                    const cursorRequest = request.transaction!.objectStore(PROJECTS_STORE).openCursor();
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+                        if (!cursor) return;
+                        summaries.put(toSummary(cursor.value));
+                        cursor.continue();
+                    };
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs requests against the given stores in one transaction and resolves with
+ * the result of the request `run` returns once the transaction has completed.
+ */
+const withStores = async <T,>(storeNames: string[], mode: IDBTransactionMode, run: (transaction: IDBTransaction) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        const request = run(transaction);
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const withStore = <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName: string = PROJECTS_STORE): Promise<T> => {
+    return withStores([storeName], mode, transaction => run(transaction.objectStore(storeName)));
+};
+
+const toSummary = ({ id, name, modId, createdAt, updatedAt }: Project): ProjectSummary => ({ id, name, modId, createdAt, updatedAt });
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const summaries = await withStore<ProjectSummary[]>('readonly', store => store.getAll(), SUMMARIES_STORE);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const parseLegacyDependencies = (dependencies: string, createdAt: number): ModDependency[] => {
+    return dependencies
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry)
+        .map((entry, index) => {
+            const lastAt = entry.lastIndexOf('@');
+            return {
+                id: `dependency-${createdAt}-${index}`,
+                modId: lastAt > 0 ? entry.slice(0, lastAt) : entry,
+                version: (lastAt > 0 && entry.slice(lastAt + 1)) || '*',
+                importance: 'required',
+                platforms: [],
+            };
+        });
+};
+
+// Each single-file C++ template became the feature with the same code
+const LEGACY_TEMPLATE_FEATURES: Record<string, ModFeature> = {
+    menulayer: 'menu-label',
+    playlayer: 'death-notification',
+    settings: 'settings-popup',
+    editor: 'editor-tool',
+    garage: 'garage-button',
+    pauselayer: 'pause-button',
+    levelinfo: 'level-info-button',
+    keybinds: 'keybind',
+    api: 'api',
+};
+
+// Files used to be stored as bare path -> content pairs. Files that still
+// match their template are the form's; everything else counts as the user's.
+const upgradeLegacyFiles = (files: GeneratedFiles, templateFiles: TemplateFileStates, savedAt: number): VirtualFileSystem => {
+    const upgraded: VirtualFileSystem = {};
+    for (const path in files) {
+        const content = files[path];
+        if (content === undefined) continue;
+        const origin = templateFiles[path]?.base === content ? 'template' : 'user';
+        upgraded[path] = createVirtualFile(path, content, origin, undefined, savedAt);
+    }
+    return upgraded;
+};
+
+/**
+ * Brings a project saved by an older version of the app up to the current
+ * shape of ModData and the project files.
+ */
+const upgradeProject = (project: Project): Project => {
+    const modData: any = { ...project.modData };
+    // Dependencies used to be a comma-separated "id@version" string
+    if (typeof modData.dependencies === 'string') {
+        modData.dependencies = parseLegacyDependencies(modData.dependencies, project.createdAt);
+    }
+    modData.dependencies ??= [];
+    modData.incompatibilities ??= [];
+    modData.build ??= createDefaultBuildOptions();
+    // Projects used to pick a single C++ template instead of a list of features
+    if (!Array.isArray(modData.features)) {
+        const feature = LEGACY_TEMPLATE_FEATURES[modData.cppTemplate ?? 'menulayer'];
+        modData.features = feature ? [feature] : [];
+        delete modData.cppTemplate;
+    }
+    // Keybind settings were offered before Geode had them; they hold their key combination as text
+    if (modData.settings?.some((setting: any) => setting.type === 'keybind')) {
+        modData.settings = modData.settings.map((setting: any) => (setting.type === 'keybind' ? { ...setting, type: 'string' } : setting));
+    }
+    const { generatedFiles, chatHistory, ...upgraded }: any = project;
+    if (upgraded.files === undefined) {
+        upgraded.files = generatedFiles ? upgradeLegacyFiles(generatedFiles, project.templateFiles ?? {}, project.updatedAt) : null;
+    }
+    // Projects used to have a single chat
+    if (!Array.isArray(upgraded.threads) || upgraded.threads.length === 0) {
+        const thread = { ...createThread('Chat'), createdAt: project.createdAt, updatedAt: project.updatedAt, messages: chatHistory ?? [] };
+        upgraded.threads = [thread];
+        upgraded.activeThreadId = thread.id;
+    }
+    return { ...upgraded, modData };
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+    const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+    return project ? upgradeProject(project) : null;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+    await withStores([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+        transaction.objectStore(SUMMARIES_STORE).put(toSummary(project));
+        return transaction.objectStore(PROJECTS_STORE).put(project);
+    });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await withStores([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite', transaction => {
+        transaction.objectStore(SUMMARIES_STORE).delete(id);
+        return transaction.objectStore(PROJECTS_STORE).delete(id);
+    });
+    if (getLastProjectId() === id) {
+        localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const project = await loadProject(id);
+    if (!project) return;
+    await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+    const project = await loadProject(id);
+    if (!project) return null;
+    const now = Date.now();
+    const copy: Project = { ...structuredClone(project), id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+    await saveProject(copy);
+    return copy;
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string): void => localStorage.setItem(LAST_PROJECT_KEY, id);
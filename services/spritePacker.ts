@@ -0,0 +1,337 @@
+import type { GeneratedFiles } from '../types';
+import { loadImage, createCanvas, getOpaqueBounds, canvasToBase64 } from './imageUtils';
+import { parsePlist, parsePlistNumbers, type PlistValue } from './plistParser';
+import { QUALITY_TIERS } from './assetPipeline';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// A sprite to pack: its full size and the part of it that isn't transparent
+export interface SpriteFrameInput {
+    name: string; // the frame name in the plist, e.g. "star.png"
+    sourceWidth: number;
+    sourceHeight: number;
+    trim: Rect; // within the source; the whole source when trimming is off
+}
+
+export interface PackedFrame extends SpriteFrameInput {
+    x: number; // where the trimmed sprite sits in the atlas
+    y: number;
+    rotated: boolean; // stored turned 90° clockwise, as Cocos2d expects
+}
+
+export interface SpriteSheetLayout {
+    width: number;
+    height: number;
+    frames: PackedFrame[];
+}
+
+// A sheet read back from its plist, with the texture it belongs to
+export interface SpriteSheetPlist extends SpriteSheetLayout {
+    textureFileName: string;
+}
+
+export interface PackOptions {
+    padding: number; // transparent pixels between sprites, so they don't bleed into each other when scaled
+    allowRotation: boolean;
+    trim: boolean;
+    maxSize: number; // the largest atlas side; GD can't load textures over 4096px
+}
+
+export const DEFAULT_PACK_OPTIONS: PackOptions = { padding: 2, allowRotation: true, trim: true, maxSize: 4096 };
+
+// The sprite's name in the sheet: "assets/icons/Star.png" -> "Star.png"
+export const getFrameName = (path: string): string => path.split('/').pop() ?? path;
+
+const intersects = (a: Rect, b: Rect): boolean => {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+};
+
+const contains = (outer: Rect, inner: Rect): boolean => {
+    return inner.x >= outer.x && inner.y >= outer.y
+        && inner.x + inner.width <= outer.x + outer.width
+        && inner.y + inner.height <= outer.y + outer.height;
+};
+
+// The free space left around `used` inside `free`, as up to four overlapping rectangles
+const splitFreeRect = (free: Rect, used: Rect): Rect[] => {
+    if (!intersects(free, used)) return [free];
+    const parts: Rect[] = [];
+    if (used.x > free.x) parts.push({ ...free, width: used.x - free.x });
+    if (used.x + used.width < free.x + free.width) parts.push({ ...free, x: used.x + used.width, width: free.x + free.width - used.x - used.width });
+    if (used.y > free.y) parts.push({ ...free, height: used.y - free.y });
+    if (used.y + used.height < free.y + free.height) parts.push({ ...free, y: used.y + used.height, height: free.y + free.height - used.y - used.height });
+    return parts;
+};
+
+/**
+ * MaxRects with the best-short-side-fit rule. Returns null when the sprites
+ * don't fit in a bin of the given size.
+ */
+const packIntoBin = (sprites: SpriteFrameInput[], binWidth: number, binHeight: number, options: PackOptions): PackedFrame[] | null => {
+    let freeRects: Rect[] = [{ x: 0, y: 0, width: binWidth, height: binHeight }];
+    const frames: PackedFrame[] = [];
+
+    for (const sprite of sprites) {
+        const width = sprite.trim.width + options.padding;
+        const height = sprite.trim.height + options.padding;
+        let best: { rect: Rect; rotated: boolean; shortSide: number; longSide: number } | null = null;
+
+        for (const free of freeRects) {
+            const orientations = options.allowRotation && width !== height ? [false, true] : [false];
+            for (const rotated of orientations) {
+                const placedWidth = rotated ? height : width;
+                const placedHeight = rotated ? width : height;
+                if (placedWidth > free.width || placedHeight > free.height) continue;
+                const leftoverX = free.width - placedWidth;
+                const leftoverY = free.height - placedHeight;
+                const shortSide = Math.min(leftoverX, leftoverY);
+                const longSide = Math.max(leftoverX, leftoverY);
+                if (!best || shortSide < best.shortSide || (shortSide === best.shortSide && longSide < best.longSide)) {
+                    best = { rect: { x: free.x, y: free.y, width: placedWidth, height: placedHeight }, rotated, shortSide, longSide };
+                }
+            }
+        }
+        if (!best) return null;
+
+        frames.push({ ...sprite, x: best.rect.x, y: best.rect.y, rotated: best.rotated });
+        const used = best.rect;
+        const split = freeRects.flatMap(free => splitFreeRect(free, used));
+        freeRects = split.filter((rect, i) => !split.some((other, j) => j !== i && contains(other, rect) && (!contains(rect, other) || j < i)));
+    }
+    return frames;
+};
+
+/**
+ * Lays the sprites out in as small an atlas as possible. Bins grow from the
+ * smallest power of two that could hold every sprite, and the atlas is then
+ * cropped to the space actually used.
+ */
+export const packSprites = (sprites: SpriteFrameInput[], options: PackOptions = DEFAULT_PACK_OPTIONS): SpriteSheetLayout => {
+    if (sprites.length === 0) return { width: 0, height: 0, frames: [] };
+    // Big sprites first leaves the small ones to fill the gaps
+    const sorted = [...sprites].sort((a, b) => Math.max(b.trim.width, b.trim.height) - Math.max(a.trim.width, a.trim.height) || a.name.localeCompare(b.name));
+    const area = sorted.reduce((total, sprite) => total + (sprite.trim.width + options.padding) * (sprite.trim.height + options.padding), 0);
+    const longestSide = Math.max(...sorted.map(sprite => Math.max(sprite.trim.width, sprite.trim.height) + options.padding));
+
+    let width = 1;
+    let height = 1;
+    while (width < longestSide || width * height < area) {
+        if (width <= height) width *= 2; else height *= 2;
+    }
+    while (width <= options.maxSize && height <= options.maxSize) {
+        const frames = packIntoBin(sorted, width, height, options);
+        if (frames) {
+            const usedWidth = Math.max(...frames.map(frame => frame.x + (frame.rotated ? frame.trim.height : frame.trim.width)));
+            const usedHeight = Math.max(...frames.map(frame => frame.y + (frame.rotated ? frame.trim.width : frame.trim.height)));
+            return { width: usedWidth, height: usedHeight, frames };
+        }
+        if (width <= height) width *= 2; else height *= 2;
+    }
+    throw new Error(`The sprites don't fit in a ${options.maxSize}x${options.maxSize} sheet. Split them into several sheets.`);
+};
+
+const escapeXml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Cocos2d offsets are from the source's centre to the trimmed sprite's centre, with y pointing up
+export const getFrameOffset = (frame: SpriteFrameInput): [number, number] => [
+    frame.trim.x + frame.trim.width / 2 - frame.sourceWidth / 2,
+    frame.sourceHeight / 2 - (frame.trim.y + frame.trim.height / 2),
+];
+
+/**
+ * Writes the layout as a Cocos2d format 3 plist, the format GD's own sheets
+ * and TexturePacker use.
+ */
+export const generatePlist = (layout: SpriteSheetLayout, textureFileName: string): string => {
+    const frames = [...layout.frames].sort((a, b) => a.name.localeCompare(b.name)).map(frame => {
+        const [offsetX, offsetY] = getFrameOffset(frame);
+        return `        <key>${escapeXml(frame.name)}</key>
+        <dict>
+            <key>aliases</key>
+            <array/>
+            <key>spriteOffset</key>
+            <string>{${offsetX},${offsetY}}</string>
+            <key>spriteSize</key>
+            <string>{${frame.trim.width},${frame.trim.height}}</string>
+            <key>spriteSourceSize</key>
+            <string>{${frame.sourceWidth},${frame.sourceHeight}}</string>
+            <key>textureRect</key>
+            <string>{{${frame.x},${frame.y}},{${frame.trim.width},${frame.trim.height}}}</string>
+            <key>textureRotated</key>
+            <${frame.rotated}/>
+        </dict>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple Computer//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+    <key>frames</key>
+    <dict>
+${frames.join('\n')}
+    </dict>
+    <key>metadata</key>
+    <dict>
+        <key>format</key>
+        <integer>3</integer>
+        <key>pixelFormat</key>
+        <string>RGBA8888</string>
+        <key>premultiplyAlpha</key>
+        <false/>
+        <key>realTextureFileName</key>
+        <string>${escapeXml(textureFileName)}</string>
+        <key>size</key>
+        <string>{${layout.width},${layout.height}}</string>
+        <key>textureFileName</key>
+        <string>${escapeXml(textureFileName)}</string>
+    </dict>
+</dict>
+</plist>
+`;
+};
+
+// Where the frame sits in the atlas; rotated frames take up their height across and width down
+export const getFrameAtlasRect = (frame: PackedFrame): Rect => ({
+    x: frame.x,
+    y: frame.y,
+    width: frame.rotated ? frame.trim.height : frame.trim.width,
+    height: frame.rotated ? frame.trim.width : frame.trim.height,
+});
+
+/**
+ * Moves or resizes a frame's rect in the atlas. The sprite keeps its offset,
+ * and its source size grows if the new rect no longer fits in it.
+ */
+export const setFrameRect = (frame: PackedFrame, rect: Rect): PackedFrame => {
+    const [offsetX, offsetY] = getFrameOffset(frame);
+    const sourceWidth = Math.max(frame.sourceWidth, rect.width + 2 * Math.abs(offsetX));
+    const sourceHeight = Math.max(frame.sourceHeight, rect.height + 2 * Math.abs(offsetY));
+    return {
+        ...frame,
+        x: rect.x,
+        y: rect.y,
+        sourceWidth,
+        sourceHeight,
+        trim: {
+            x: (sourceWidth - rect.width) / 2 + offsetX,
+            y: (sourceHeight - rect.height) / 2 - offsetY,
+            width: rect.width,
+            height: rect.height,
+        },
+    };
+};
+
+const asDict = (value: PlistValue | undefined): { [key: string]: PlistValue } | null => {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+};
+
+// One frame in any of the Cocos2d plist formats (0 to 3)
+const parseFrame = (name: string, frame: { [key: string]: PlistValue }, format: number): PackedFrame => {
+    let x: number, y: number, width: number, height: number, offsetX: number, offsetY: number, sourceWidth: number, sourceHeight: number;
+    let rotated = false;
+    if (format === 0) {
+        [x, y, width, height] = [frame.x, frame.y, frame.width, frame.height].map(Number);
+        [offsetX, offsetY] = [frame.offsetX, frame.offsetY].map(value => Number(value ?? 0));
+        [sourceWidth, sourceHeight] = [frame.originalWidth ?? width, frame.originalHeight ?? height].map(value => Math.abs(Number(value)));
+    } else if (format === 3) {
+        [x, y, width, height] = parsePlistNumbers(frame.textureRect);
+        [offsetX = 0, offsetY = 0] = parsePlistNumbers(frame.spriteOffset);
+        [sourceWidth = width, sourceHeight = height] = parsePlistNumbers(frame.spriteSourceSize);
+        rotated = frame.textureRotated === true;
+    } else {
+        [x, y, width, height] = parsePlistNumbers(frame.frame);
+        [offsetX = 0, offsetY = 0] = parsePlistNumbers(frame.offset);
+        [sourceWidth = width, sourceHeight = height] = parsePlistNumbers(frame.sourceSize);
+        rotated = frame.rotated === true;
+    }
+    if ([x, y, width, height].some(value => !Number.isFinite(value))) throw new Error(`Frame ${name} has no valid rect.`);
+    return {
+        name,
+        x,
+        y,
+        rotated,
+        sourceWidth,
+        sourceHeight,
+        trim: { x: (sourceWidth - width) / 2 + offsetX, y: (sourceHeight - height) / 2 - offsetY, width, height },
+    };
+};
+
+/**
+ * Reads a Cocos2d sprite sheet plist. Throws when the file isn't one, so
+ * callers can fall back to showing it as text.
+ */
+export const parseSpriteSheetPlist = (content: string): SpriteSheetPlist => {
+    const root = asDict(parsePlist(content));
+    const frames = asDict(root?.frames);
+    if (!root || !frames) throw new Error('The plist has no frames.');
+    const metadata = asDict(root.metadata) ?? {};
+    const format = Number(metadata.format ?? 0);
+
+    const parsedFrames = Object.entries(frames).map(([name, frame]) => {
+        const dict = asDict(frame);
+        if (!dict) throw new Error(`Frame ${name} is not a dictionary.`);
+        return parseFrame(name, dict, format);
+    });
+    const [width, height] = parsePlistNumbers(metadata.size);
+    const textureFileName = String(metadata.textureFileName ?? metadata.realTextureFileName ?? '');
+    return {
+        width: width ?? Math.max(0, ...parsedFrames.map(frame => frame.x + getFrameAtlasRect(frame).width)),
+        height: height ?? Math.max(0, ...parsedFrames.map(frame => frame.y + getFrameAtlasRect(frame).height)),
+        frames: parsedFrames,
+        textureFileName,
+    };
+};
+
+// Copies each packed frame out of its (already scaled) sprite into the atlas
+const drawSpriteSheet = (layout: SpriteSheetLayout, sprites: Map<string, HTMLCanvasElement>): HTMLCanvasElement => {
+    const atlas = createCanvas(layout.width, layout.height);
+    const context = atlas.getContext('2d')!;
+    for (const frame of layout.frames) {
+        const { x, y, width, height } = frame.trim;
+        context.save();
+        if (frame.rotated) {
+            // Turned clockwise: the sprite's top edge runs down the right side of its slot
+            context.translate(frame.x + height, frame.y);
+            context.rotate(Math.PI / 2);
+            context.drawImage(sprites.get(frame.name)!, x, y, width, height, 0, 0, width, height);
+        } else {
+            context.drawImage(sprites.get(frame.name)!, x, y, width, height, frame.x, frame.y, width, height);
+        }
+        context.restore();
+    }
+    return atlas;
+};
+
+/**
+ * Packs PNG sprites (base64, keyed by frame name) into a sheet for every
+ * quality tier and returns the atlases and plists, e.g.
+ * `assets/MySheet-uhd.png` and `assets/MySheet-uhd.plist`.
+ */
+export const buildSpriteSheet = async (sheetPath: string, sprites: Record<string, string>, options: PackOptions = DEFAULT_PACK_OPTIONS): Promise<GeneratedFiles> => {
+    const images = await Promise.all(Object.entries(sprites).map(async ([name, content]) => [name, await loadImage(`data:image/png;base64,${content}`)] as const));
+    const files: GeneratedFiles = {};
+
+    for (const tier of QUALITY_TIERS) {
+        const scaled = new Map<string, HTMLCanvasElement>();
+        const inputs: SpriteFrameInput[] = images.map(([name, image]) => {
+            const canvas = createCanvas(Math.max(1, Math.round(image.naturalWidth * tier.scale)), Math.max(1, Math.round(image.naturalHeight * tier.scale)));
+            canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+            scaled.set(name, canvas);
+            const fullSize = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+            // A fully transparent sprite still needs a pixel to exist in the sheet
+            const trim = options.trim ? getOpaqueBounds(canvas) ?? { x: 0, y: 0, width: 1, height: 1 } : fullSize;
+            return { name, sourceWidth: canvas.width, sourceHeight: canvas.height, trim };
+        });
+
+        const layout = packSprites(inputs, options);
+        const texturePath = `${sheetPath}${tier.suffix}.png`;
+        files[texturePath] = canvasToBase64(drawSpriteSheet(layout, scaled));
+        files[`${sheetPath}${tier.suffix}.plist`] = generatePlist(layout, getFrameName(texturePath));
+    }
+    return files;
+};
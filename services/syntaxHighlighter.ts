@@ -0,0 +1,265 @@
+export type EditorLanguage = 'cpp' | 'json' | 'cmake' | 'yaml' | 'markdown' | 'plist' | 'plaintext';
+
+export type TokenType =
+    | 'plain' | 'keyword' | 'type' | 'function' | 'string' | 'number' | 'constant'
+    | 'comment' | 'preprocessor' | 'key' | 'variable' | 'tag' | 'attribute' | 'heading' | 'bracket';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+    start: number; // offset of the first character in the whole file
+}
+
+export const getEditorLanguage = (path: string): EditorLanguage => {
+    const name = path.split('/').pop() ?? path;
+    if (/\.(cpp|cc|cxx|hpp|h)$/.test(name)) return 'cpp';
+    if (name.endsWith('.json')) return 'json';
+    if (name === 'CMakeLists.txt' || name.endsWith('.cmake')) return 'cmake';
+    if (/\.ya?ml$/.test(name)) return 'yaml';
+    if (name.endsWith('.md')) return 'markdown';
+    if (name.endsWith('.plist')) return 'plist';
+    return 'plaintext';
+};
+
+const FENCE_LANGUAGES: Record<string, EditorLanguage> = {
+    cpp: 'cpp', 'c++': 'cpp', cc: 'cpp', cxx: 'cpp', c: 'cpp', h: 'cpp', hpp: 'cpp',
+    json: 'json', jsonc: 'json',
+    cmake: 'cmake',
+    yaml: 'yaml', yml: 'yaml',
+    md: 'markdown', markdown: 'markdown',
+    plist: 'plist', xml: 'plist',
+};
+
+// The language named after a Markdown code fence, e.g. ```cpp
+export const getFenceLanguage = (info: string): EditorLanguage => FENCE_LANGUAGES[info.toLowerCase()] ?? 'plaintext';
+
+// --- Grammars ---
+
+// A rule is tried at the current position; `next` switches the grammar state,
+// which carries over to the following lines (e.g. inside a block comment).
+interface Rule {
+    pattern: RegExp; // must be sticky
+    type: TokenType | ((text: string) => TokenType);
+    next?: string;
+}
+
+type Grammar = Record<string, Rule[]>; // always has a "root" state
+
+const CPP_KEYWORDS = new Set([
+    'alignas', 'alignof', 'auto', 'break', 'case', 'catch', 'class', 'const', 'consteval', 'constexpr', 'const_cast',
+    'continue', 'co_await', 'co_return', 'co_yield', 'decltype', 'default', 'delete', 'do', 'dynamic_cast', 'else',
+    'enum', 'explicit', 'export', 'extern', 'final', 'for', 'friend', 'goto', 'if', 'inline', 'mutable', 'namespace',
+    'new', 'noexcept', 'operator', 'override', 'private', 'protected', 'public', 'reinterpret_cast', 'return',
+    'sizeof', 'static', 'static_assert', 'static_cast', 'struct', 'switch', 'template', 'this', 'thread_local',
+    'throw', 'try', 'typedef', 'typename', 'union', 'using', 'virtual', 'volatile', 'while',
+]);
+
+const CPP_TYPES = new Set([
+    'bool', 'char', 'char8_t', 'char16_t', 'char32_t', 'double', 'float', 'int', 'long', 'short', 'signed',
+    'unsigned', 'void', 'wchar_t', 'size_t', 'int8_t', 'int16_t', 'int32_t', 'int64_t', 'uint8_t', 'uint16_t',
+    'uint32_t', 'uint64_t', 'std',
+]);
+
+const CPP_CONSTANTS = new Set(['true', 'false', 'nullptr', 'NULL']);
+
+const classifyCppWord = (word: string): TokenType => {
+    // Geode's macros such as $modify and $on_mod read like keywords
+    if (word.startsWith('$') || CPP_KEYWORDS.has(word)) return 'keyword';
+    if (CPP_TYPES.has(word)) return 'type';
+    if (CPP_CONSTANTS.has(word)) return 'constant';
+    // Game and cocos classes are PascalCase (MenuLayer, CCSprite)
+    if (/^[A-Z][a-z0-9]/.test(word) || /^CC[A-Z]/.test(word)) return 'type';
+    return 'plain';
+};
+
+const CPP_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /\/\/.*/y, type: 'comment' },
+        { pattern: /\/\*/y, type: 'comment', next: 'comment' },
+        { pattern: /#\s*include\b/y, type: 'preprocessor', next: 'include' },
+        { pattern: /#\s*[A-Za-z_]+/y, type: 'preprocessor' },
+        { pattern: /"(?:[^"\\]|\\.)*"?/y, type: 'string' },
+        { pattern: /'(?:[^'\\]|\\.)*'?/y, type: 'string' },
+        { pattern: /(?:0[xX][\da-fA-F']+|\d[\d']*(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)[a-zA-Z]*/y, type: 'number' },
+        { pattern: /\$?[A-Za-z_]\w*(?=\s*\()/y, type: word => (classifyCppWord(word) === 'plain' ? 'function' : classifyCppWord(word)) },
+        { pattern: /\$?[A-Za-z_]\w*/y, type: classifyCppWord },
+        { pattern: /[()[\]{}]/y, type: 'bracket' },
+    ],
+    comment: [
+        { pattern: /.*?\*\//y, type: 'comment', next: 'root' },
+        { pattern: /.+/y, type: 'comment' },
+    ],
+    include: [
+        { pattern: /\s*(?:<[^>]*>|"[^"]*")/y, type: 'string', next: 'root' },
+        { pattern: /(?:)/y, type: 'plain', next: 'root' },
+    ],
+};
+
+const JSON_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/y, type: 'key' },
+        { pattern: /"(?:[^"\\]|\\.)*"?/y, type: 'string' },
+        { pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, type: 'number' },
+        { pattern: /\b(?:true|false|null)\b/y, type: 'constant' },
+        { pattern: /[[\]{}]/y, type: 'bracket' },
+    ],
+};
+
+const CMAKE_KEYWORDS = new Set(['if', 'elseif', 'else', 'endif', 'foreach', 'endforeach', 'while', 'endwhile', 'function', 'endfunction', 'macro', 'endmacro', 'return']);
+
+const CMAKE_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /#\[\[/y, type: 'comment', next: 'comment' },
+        { pattern: /#.*/y, type: 'comment' },
+        { pattern: /"(?:[^"\\]|\\.)*"?/y, type: 'string' },
+        { pattern: /\$(?:ENV)?\{[^}]*\}/y, type: 'variable' },
+        { pattern: /[A-Za-z_]\w*(?=\s*\()/y, type: word => (CMAKE_KEYWORDS.has(word.toLowerCase()) ? 'keyword' : 'function') },
+        { pattern: /\b[A-Z][A-Z0-9_]+\b/y, type: 'constant' },
+        { pattern: /\b\d+(?:\.\d+)*\b/y, type: 'number' },
+        { pattern: /[()]/y, type: 'bracket' },
+    ],
+    comment: [
+        { pattern: /.*?\]\]/y, type: 'comment', next: 'root' },
+        { pattern: /.+/y, type: 'comment' },
+    ],
+};
+
+const YAML_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /(?:^|(?<=\s))#.*/y, type: 'comment' },
+        { pattern: /\$\{\{.*?\}\}/y, type: 'variable' },
+        { pattern: /[\w./-]+(?=\s*:(?:\s|$))/y, type: 'key' },
+        { pattern: /"(?:[^"\\]|\\.)*"?|'[^']*'?/y, type: 'string' },
+        { pattern: /\b(?:true|false|null|yes|no|on|off)\b/y, type: 'constant' },
+        { pattern: /-?\b\d+(?:\.\d+)?\b/y, type: 'number' },
+        { pattern: /^\s*-(?=\s)/y, type: 'keyword' },
+        { pattern: /[[\]{}]/y, type: 'bracket' },
+    ],
+};
+
+const MARKDOWN_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /^\s*```.*/y, type: 'string', next: 'fence' },
+        { pattern: /^#{1,6}\s.*/y, type: 'heading' },
+        { pattern: /^\s*(?:[-*+]|\d+\.)(?=\s)/y, type: 'keyword' },
+        { pattern: /`[^`]*`/y, type: 'string' },
+        { pattern: /(\*\*|__)(?:(?!\1).)+\1/y, type: 'constant' },
+        { pattern: /!?\[[^\]]*\]\([^)]*\)/y, type: 'variable' },
+        { pattern: /<!--.*?-->/y, type: 'comment' },
+    ],
+    fence: [
+        { pattern: /^\s*```\s*$/y, type: 'string', next: 'root' },
+        { pattern: /.+/y, type: 'string' },
+    ],
+};
+
+const PLIST_GRAMMAR: Grammar = {
+    root: [
+        { pattern: /<!--/y, type: 'comment', next: 'comment' },
+        { pattern: /<\?.*?\?>|<!DOCTYPE[^>]*>/y, type: 'preprocessor' },
+        { pattern: /<\/?[\w:.-]+/y, type: 'tag', next: 'tag' },
+        { pattern: /&[\w#]+;/y, type: 'constant' },
+    ],
+    tag: [
+        { pattern: /\/?>/y, type: 'tag', next: 'root' },
+        { pattern: /[\w:.-]+(?=\s*=)/y, type: 'attribute' },
+        { pattern: /"[^"]*"?|'[^']*'?/y, type: 'string' },
+    ],
+    comment: [
+        { pattern: /.*?-->/y, type: 'comment', next: 'root' },
+        { pattern: /.+/y, type: 'comment' },
+    ],
+};
+
+const GRAMMARS: Record<EditorLanguage, Grammar> = {
+    cpp: CPP_GRAMMAR,
+    json: JSON_GRAMMAR,
+    cmake: CMAKE_GRAMMAR,
+    yaml: YAML_GRAMMAR,
+    markdown: MARKDOWN_GRAMMAR,
+    plist: PLIST_GRAMMAR,
+    plaintext: { root: [] },
+};
+
+/**
+ * Splits a file into highlighted tokens, one array per line. Each line is
+ * matched rule by rule; anything no rule matches is left as plain text.
+ */
+export const tokenize = (content: string, language: EditorLanguage): Token[][] => {
+    const grammar = GRAMMARS[language];
+    let state = 'root';
+    let lineStart = 0;
+
+    return content.split('\n').map(line => {
+        const tokens: Token[] = [];
+        const push = (type: TokenType, text: string, start: number) => {
+            const last = tokens[tokens.length - 1];
+            // Merge neighbours of the same type, except brackets which are matched one by one
+            if (last && last.type === type && type !== 'bracket') {
+                last.text += text;
+            } else {
+                tokens.push({ type, text, start });
+            }
+        };
+
+        let pos = 0;
+        while (pos < line.length) {
+            let matched = false;
+            for (const rule of grammar[state]) {
+                rule.pattern.lastIndex = pos;
+                const match = rule.pattern.exec(line);
+                if (!match) continue;
+                const text = match[0];
+                if (text) {
+                    push(typeof rule.type === 'function' ? rule.type(text) : rule.type, text, lineStart + pos);
+                    pos += text.length;
+                }
+                if (rule.next) state = rule.next;
+                // An empty match only switches state
+                if (text || rule.next) {
+                    matched = true;
+                    break;
+                }
+            }
+            if (!matched) {
+                push('plain', line[pos], lineStart + pos);
+                pos++;
+            }
+        }
+
+        // An #include never continues onto the next line
+        if (state === 'include') state = 'root';
+        lineStart += line.length + 1;
+        return tokens;
+    });
+};
+
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Finds the bracket touching the caret and the one it pairs with, as file
+ * offsets. Brackets inside strings and comments are ignored.
+ */
+export const findMatchingBracket = (lines: Token[][], caret: number): [number, number] | null => {
+    const brackets = lines.flat().filter(token => token.type === 'bracket');
+    // Prefer the bracket just before the caret, like most editors
+    const index = [caret - 1, caret]
+        .map(offset => brackets.findIndex(token => token.start === offset))
+        .find(i => i >= 0);
+    if (index === undefined) return null;
+
+    const bracket = brackets[index].text;
+    const forward = bracket in OPENING_BRACKETS;
+    const partner = forward ? OPENING_BRACKETS[bracket] : CLOSING_BRACKETS[bracket];
+    let depth = 0;
+    for (let i = index + (forward ? 1 : -1); i >= 0 && i < brackets.length; i += forward ? 1 : -1) {
+        const text = brackets[i].text;
+        if (text === bracket) depth++;
+        else if (text === partner) {
+            if (depth === 0) return [brackets[index].start, brackets[i].start];
+            depth--;
+        }
+    }
+    return null;
+};
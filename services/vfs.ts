@@ -0,0 +1,113 @@
+import type { GeneratedFiles, VirtualFile, VirtualFileSystem, FileEncoding, FileOrigin } from '../types';
+import { isBinaryFile, readFileAsBase64 } from './fileUtils';
+
+const MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.ogg': 'audio/ogg',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+    '.zip': 'application/zip',
+    '.geode': 'application/zip',
+    '.json': 'application/json',
+    '.plist': 'application/xml',
+    '.md': 'text/markdown',
+    '.cpp': 'text/x-c++src',
+    '.hpp': 'text/x-c++hdr',
+    '.h': 'text/x-chdr',
+    '.cmake': 'text/x-cmake',
+    '.yml': 'text/yaml',
+    '.yaml': 'text/yaml',
+    '.fnt': 'text/plain',
+    '.txt': 'text/plain',
+};
+
+// How a file's content is stored when nothing says otherwise: binary formats as base64, the rest as text
+export const getDefaultEncoding = (path: string): FileEncoding => (isBinaryFile(path) ? 'base64' : 'utf8');
+
+export const getMimeType = (path: string, encoding: FileEncoding = getDefaultEncoding(path)): string => {
+    const dot = path.lastIndexOf('.');
+    const extension = dot > path.lastIndexOf('/') ? path.slice(dot).toLowerCase() : '';
+    return MIME_TYPES[extension] ?? (encoding === 'base64' ? 'application/octet-stream' : 'text/plain');
+};
+
+// The size of the decoded content in bytes
+export const getContentSize = (content: string, encoding: FileEncoding): number => {
+    if (encoding === 'utf8') return new TextEncoder().encode(content).length;
+    const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+    return Math.max(0, Math.floor(content.length * 3 / 4) - padding);
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const createVirtualFile = (path: string, content: string, origin: FileOrigin, encoding: FileEncoding = getDefaultEncoding(path), now: number = Date.now()): VirtualFile => ({
+    content,
+    encoding,
+    mimeType: getMimeType(path, encoding),
+    size: getContentSize(content, encoding),
+    origin,
+    createdAt: now,
+    updatedAt: now,
+});
+
+/**
+ * Sets a file's content. An existing file keeps its encoding and creation
+ * time unless told otherwise; writing the content it already has changes
+ * nothing, so the file keeps its origin and timestamps.
+ */
+export const writeFile = (files: VirtualFileSystem, path: string, content: string, origin: FileOrigin, encoding?: FileEncoding, now: number = Date.now()): VirtualFileSystem => {
+    const existing = files[path];
+    const nextEncoding = encoding ?? existing?.encoding ?? getDefaultEncoding(path);
+    if (existing && existing.content === content && existing.encoding === nextEncoding) return files;
+    const file = createVirtualFile(path, content, origin, nextEncoding, now);
+    return { ...files, [path]: existing ? { ...file, createdAt: existing.createdAt } : file };
+};
+
+export const writeFiles = (files: VirtualFileSystem, contents: GeneratedFiles, origin: FileOrigin, now: number = Date.now()): VirtualFileSystem => {
+    let next = files;
+    for (const path in contents) {
+        const content = contents[path];
+        if (content !== undefined) next = writeFile(next, path, content, origin, undefined, now);
+    }
+    return next;
+};
+
+/**
+ * Makes the project hold exactly the given contents: changed and new files
+ * are written with `origin`, files missing from `contents` are removed and
+ * untouched files keep their metadata.
+ */
+export const syncFileContents = (files: VirtualFileSystem, contents: GeneratedFiles, origin: FileOrigin, now: number = Date.now()): VirtualFileSystem => {
+    const next: VirtualFileSystem = {};
+    for (const path in contents) {
+        if (files[path]) next[path] = files[path];
+    }
+    return writeFiles(next, contents, origin, now);
+};
+
+// Path -> content, for the generators and the template reconciler, which only deal in content
+export const getFileContents = (files: VirtualFileSystem): GeneratedFiles => {
+    return Object.fromEntries(Object.entries(files).map(([path, file]) => [path, file.content]));
+};
+
+// The same file under a new name: its bytes are untouched, only the MIME type follows the extension
+export const renameVirtualFile = (file: VirtualFile, newPath: string): VirtualFile => ({
+    ...file,
+    mimeType: getMimeType(newPath, file.encoding),
+});
+
+// Reads a file from the user's disk into the project, as text or base64 depending on its extension
+export const readVirtualFile = async (file: File, path: string): Promise<VirtualFile> => {
+    const encoding = getDefaultEncoding(path);
+    const content = encoding === 'utf8' ? await file.text() : await readFileAsBase64(file);
+    return { ...createVirtualFile(path, content, 'user', encoding), size: file.size };
+};
@@ -1,6 +1,15 @@
-export type CppTemplate = 'menulayer' | 'playlayer' | 'settings';
+export type ModFeature = 'menu-label' | 'death-notification' | 'settings-popup' | 'settings-listener' | 'editor-tool' | 'garage-button' | 'pause-button' | 'level-info-button' | 'keybind' | 'api';
 
-export type ModSettingType = 'bool' | 'int' | 'float' | 'string';
+export type ModSettingType =
+    | 'bool' | 'int' | 'float' | 'string'
+    | 'file' | 'folder' | 'path'
+    | 'color' | 'rgba'
+    | 'title' | 'custom';
+
+export interface ModSettingFileFilter {
+    description: string; // e.g. "Text files"
+    files: string[]; // glob patterns, e.g. ["*.txt"]
+}
 
 export interface ModSetting {
     // Using a unique 'id' for React keys, and 'key' for the mod.json key
@@ -9,7 +18,56 @@ export interface ModSetting {
     name: string;
     description: string;
     type: ModSettingType;
-    default: boolean | number | string;
+    default: boolean | number | string; // colors are hex strings: #rrggbb or #rrggbbaa
+    // Type-specific fields
+    oneOf?: string[]; // string: restricts the value to these choices
+    fileDialog?: 'open' | 'save'; // file
+    fileFilters?: ModSettingFileFilter[]; // file
+    customType?: string; // custom: emitted as "custom:<customType>"
+    min?: number; // int/float
+    max?: number; // int/float
+    step?: number; // int/float: increment used by the slider and arrows
+    slider?: boolean; // int/float: show a slider (requires min and max)
+    arrows?: boolean; // int/float: show increment/decrement arrows
+}
+
+export type ModPlatform = 'win' | 'mac' | 'android' | 'ios';
+
+export type DependencyImportance = 'required' | 'recommended' | 'suggested';
+
+export type IncompatibilityImportance = 'breaking' | 'conflicting' | 'superseded';
+
+export interface ModDependency {
+    id: string; // unique id for React keys
+    modId: string; // the mod depended on, e.g. "geode.node-ids"
+    version: string; // version range, e.g. ">=1.2.0" or "*"
+    importance: DependencyImportance;
+    platforms: ModPlatform[]; // empty means every platform
+}
+
+export interface ModIncompatibility {
+    id: string; // unique id for React keys
+    modId: string;
+    version: string;
+    importance: IncompatibilityImportance;
+    platforms: ModPlatform[];
+}
+
+export type CppStandard = '17' | '20' | '23';
+
+// A library fetched with CPM (bundled with the Geode SDK) and linked to the mod
+export interface CpmPackage {
+    id: string; // unique id for React keys
+    source: string; // CPM shorthand, e.g. "gh:fmtlib/fmt#10.2.1"
+    target: string; // CMake target to link, e.g. "fmt"
+}
+
+export interface ModBuildOptions {
+    cppStandard: CppStandard;
+    sourceListing: 'glob' | 'explicit'; // GLOB_RECURSE src/*.cpp, or list every source file
+    includeDirs: string[];
+    compileDefinitions: string[]; // e.g. "MY_FLAG" or "LOG_LEVEL=2"
+    cpmPackages: CpmPackage[];
 }
 
 export interface ModData {
@@ -19,9 +77,10 @@ export interface ModData {
     developer: string;
     description: string;
     logo?: string; // Base64 Data URL for logo.png
-    dependencies: string; // comma-separated
+    dependencies: ModDependency[];
+    incompatibilities: ModIncompatibility[];
     repository: string;
-    cppTemplate: CppTemplate;
+    features: ModFeature[];
     includeCi: boolean;
     platforms: {
         win: boolean;
@@ -35,11 +94,209 @@ export interface ModData {
     providesApi: boolean;
     earlyLoad: boolean;
     settings: ModSetting[];
+    build: ModBuildOptions;
 }
 
+// Path -> content as the generators produce it. Binary files (see isBinaryFile)
+// are base64; services/vfs turns this into the project's VirtualFileSystem.
 export type GeneratedFiles = Record<string, string | undefined>;
 
+export type FileEncoding = 'utf8' | 'base64';
+
+// Who last wrote a file: the form's templates, the user (editing, uploading, importing) or Gigi
+export type FileOrigin = 'template' | 'user' | 'ai';
+
+export interface VirtualFile {
+    content: string; // the text itself, or the bytes as base64
+    encoding: FileEncoding;
+    mimeType: string;
+    size: number; // decoded size in bytes
+    origin: FileOrigin;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type VirtualFileSystem = Record<string, VirtualFile>;
+
+// The scene the Live Preview mocks up for a feature
+export type PreviewScene = 'menu' | 'menu-settings' | 'level' | 'editor' | 'garage' | 'pause' | 'level-info' | 'keyboard' | 'none';
+
+// Passed to a feature's generator by the composer
+export interface FeatureContext {
+    className: (base: string) => string; // a $modify class name for `base` that no other feature uses
+}
+
+// A piece of C++ a mod can be built from. Each feature lives in its own module
+// under services/features, writes its own source file and is listed in the
+// feature registry; the composer merges the selected ones into a project.
+export interface ModFeatureDefinition {
+    id: ModFeature;
+    label: string; // shown in the feature checklist
+    description: string;
+    hooks: string[]; // game classes the feature $modify's
+    previewScene: PreviewScene;
+    sourcePath: string; // the file the feature writes, e.g. "src/hooks/menu-label.cpp"
+    includes: string[]; // headers the feature's code needs, gathered into src/shared.hpp
+    requiredSettings?: Omit<ModSetting, 'id'>[]; // settings the generated code reads; added when the feature is picked
+    requiredDependencies?: string[]; // mod IDs the generated code needs, e.g. geode.node-ids for getChildByID
+    providesApi?: boolean;
+    generateSource: (data: ModData, context: FeatureContext) => string;
+    generateExtraFiles?: (data: ModData) => GeneratedFiles;
+}
+
+// Tracks a file produced by the form's templates. A file whose content still
+// equals `base` is template-owned; anything else has been edited by hand or by Gigi.
+export interface TemplateFileState {
+    base: string; // the template output the current content was derived from
+    pendingUpdate?: string; // newer template output the user hasn't accepted or rejected yet
+    removed?: boolean; // the user deleted or moved the file, so the form doesn't bring it back
+}
+
+export type TemplateFileStates = Record<string, TemplateFileState>;
+
+export type FileChangeAction = 'create' | 'update' | 'delete' | 'patch';
+export type FileChangeStatus = 'pending' | 'accepted' | 'rejected';
+
+// A file operation Gigi asked for through a function call. Nothing touches
+// the project until the user accepts it.
+export interface ProposedFileChange {
+    id: string;
+    action: FileChangeAction;
+    path: string;
+    content?: string; // the whole new file, for create and update
+    patch?: string; // a unified diff against the file, for patch
+    baseContent?: string | null; // the file when Gigi proposed the change, null if it didn't exist
+    status: FileChangeStatus;
+    appliedHunks?: { applied: number; total: number }; // set when only some hunks were accepted
+    // What accepting it did to the file (null where there was none), so switching chat branches can undo and redo it
+    appliedEdit?: { before: VirtualFile | null; after: string | null };
+    error?: string; // why the last attempt to accept it failed
+}
+
+// Why a file's content was sent to Gigi with a message
+export type ContextReason = 'manifest' | 'open' | 'referenced' | 'included';
+// How much of it: all of it, an outline of its declarations, its start, or
+// nothing because it's binary or the budget ran out
+export type ContextMode = 'full' | 'summary' | 'truncated' | 'binary' | 'omitted';
+
+export interface ContextItem {
+    path: string;
+    reason: ContextReason;
+    mode: ContextMode;
+    tokens: number; // estimated tokens this item added
+}
+
+// What was attached to a user's message, so the chat can show it
+export interface AttachedContext {
+    items: ContextItem[];
+    fileCount: number; // files named in the attached file list
+    settingCount: number;
+    tokens: number; // estimated total, including the file list and settings
+    budget: number;
+}
+
 export type ChatMessage = {
     role: 'user' | 'model';
     parts: { text: string }[];
-};
\ No newline at end of file
+    fileChanges?: ProposedFileChange[]; // proposed alongside the text, model messages only
+    context?: AttachedContext; // sent along with the text, user messages only
+    sentAt?: number; // missing on messages saved before threads
+    // Other versions of the conversation from this message on, from regenerating or editing it.
+    // The one shown sits at branchIndex among them.
+    branches?: ChatMessage[][];
+    branchIndex?: number;
+};
+
+// A named conversation with Gigi; a project can have several
+export interface ChatThread {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ChatMessage[];
+}
+
+export interface Project {
+    id: string;
+    name: string;
+    modId: string; // mirrors modData.id so the project list doesn't need the full record
+    createdAt: number;
+    updatedAt: number;
+    modData: ModData;
+    files: VirtualFileSystem | null;
+    templateFiles?: TemplateFileStates; // missing on projects saved before ownership tracking
+    threads: ChatThread[];
+    activeThreadId: string;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'modId' | 'createdAt' | 'updatedAt'>;
+
+// --- AI providers ---
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+// What a model is used for; each gets its own model in the AI settings
+export type AiTask = 'chat' | 'text' | 'json' | 'image';
+
+// The subset of JSON Schema every provider understands, for tool parameters and JSON output
+export interface AiSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, AiSchema>;
+    items?: AiSchema;
+    required?: string[];
+    enum?: string[]; // the only values a string may take
+}
+
+export interface AiToolDeclaration {
+    name: string;
+    description: string;
+    parameters: AiSchema;
+}
+
+export interface AiToolCall {
+    id?: string; // echoed back in the result when the provider sets one
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface AiToolResult {
+    id?: string;
+    name: string;
+    response: Record<string, unknown>;
+}
+
+// A piece of a streamed chat reply: some text, the function calls, or both
+export interface AiChatChunk {
+    text?: string;
+    toolCalls?: AiToolCall[];
+}
+
+// An earlier exchange a chat starts from, e.g. a thread saved with the project
+export interface AiChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+// A conversation that remembers its history. Tool results are sent as a
+// message of their own, after the reply that asked for them. `noToolCalls`
+// makes the model answer in text only, e.g. once it has used up its calls.
+export interface AiChatSession {
+    sendStream: (message: string | AiToolResult[], options?: { deepThink?: boolean; noToolCalls?: boolean }) => AsyncGenerator<AiChatChunk>;
+}
+
+// Everything the app asks of a model. Implementations live in services/ai
+// and are picked in the AI settings.
+export interface AiProvider {
+    readonly id: AiProviderId;
+    createChat: (options: { systemInstruction: string; tools: AiToolDeclaration[]; history?: AiChatTurn[] }) => AiChatSession;
+    generateText: (prompt: string) => Promise<string>;
+    generateJson: <T>(prompt: string, schema: AiSchema) => Promise<T>;
+    generateImage: (prompt: string) => Promise<string>; // a square PNG, base64
+}
+
+export interface AiSettings {
+    provider: AiProviderId;
+    models: Record<AiProviderId, Record<AiTask, string>>; // kept per provider so switching back restores them
+    openAiBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+    openAiApiKey: string;
+}